@@ -0,0 +1,161 @@
+/**
+ * Offline fake of the QFPay Payment Element SDK (window.QFpay).
+ *
+ * Implements the subset of the real SDK used by the demo page:
+ *   QFpay.config() -> payment().pay(), element().create(), confirmPayment(),
+ *   retrievePaymentIntent()
+ * The card form is a plain HTML form; confirmPayment() submits it to the local
+ * mock gateway (/api/qfpay-mock/sdk/*), which decides the outcome from the test
+ * card number and updates the payment intent so server-side queries see it.
+ * In tokenization mode (pay() with intent_type 'token') it confirms a token
+ * intent instead and resolves with the saved card's token_id.
+ */
+;(function () {
+  'use strict'
+
+  var GATEWAY = window.QFPAY_MOCK_GATEWAY || '/api/qfpay-mock'
+
+  function post(path, params) {
+    return fetch(GATEWAY + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString()
+    }).then(function (response) {
+      return response.json()
+    })
+  }
+
+  function field(label, name, placeholder, width) {
+    return (
+      '<label style="display:block;flex:' + width + ';font-size:13px;color:#374151">' +
+      label +
+      '<input name="' + name + '" placeholder="' + placeholder + '" autocomplete="off" ' +
+      'style="display:block;width:100%;margin-top:4px;padding:8px;border:1px solid #d1d5db;border-radius:4px;font-family:monospace" />' +
+      '</label>'
+    )
+  }
+
+  function formatCardNumber(value) {
+    return value.replace(/\D/g, '').slice(0, 16).replace(/(\d{4})(?=\d)/g, '$1 ')
+  }
+
+  function formatExpiry(value) {
+    var digits = value.replace(/\D/g, '').slice(0, 4)
+    return digits.length > 2 ? digits.slice(0, 2) + '/' + digits.slice(2) : digits
+  }
+
+  function config(options) {
+    var session = {
+      options: options || {},
+      paymentIntent: null,
+      payParams: null,
+      tokenize: false,
+      form: null
+    }
+
+    function setStatus(message, color) {
+      if (!session.form) return
+      var status = session.form.querySelector('[data-qfpay-status]')
+      status.textContent = message
+      status.style.color = color
+    }
+
+    function readCard() {
+      if (!session.form) {
+        return Promise.reject(new Error('Card form not mounted: call element().create() first'))
+      }
+      var value = function (name) {
+        return session.form.querySelector('input[name="' + name + '"]').value.trim()
+      }
+      return Promise.resolve({
+        card_number: value('card_number').replace(/\s/g, ''),
+        expiry: value('expiry'),
+        cvv: value('cvv')
+      })
+    }
+
+    var instance = {
+      payment: function () {
+        return {
+          // intent_type 'token' puts the Element in tokenization mode: the id is a
+          // token intent and confirmPayment() saves the card instead of charging it
+          pay: function (params, intentId) {
+            session.payParams = params || {}
+            session.paymentIntent = intentId
+            session.tokenize = session.payParams.intent_type === 'token'
+          }
+        }
+      },
+
+      element: function () {
+        return {
+          create: function (selector) {
+            var container = typeof selector === 'string' ? document.querySelector(selector) : selector
+            if (!container) throw new Error('QFpay mock: container not found: ' + selector)
+
+            container.innerHTML =
+              '<form data-qfpay-mock style="font-family:inherit">' +
+              '<div style="font-size:12px;color:#6b7280;margin-bottom:10px">🧪 Mock QFPay card form (offline)' +
+              (session.tokenize ? ' · save card for future payments, no charge' : '') + '</div>' +
+              '<div style="display:flex;gap:10px;flex-wrap:wrap">' +
+              field('Card number', 'card_number', '5200 0000 0000 1096', '2 1 220px') +
+              field('Expiry', 'expiry', 'MM/YY', '1 1 80px') +
+              field('CVV', 'cvv', '123', '1 1 60px') +
+              '</div>' +
+              '<div data-qfpay-status style="margin-top:10px;font-size:12px;min-height:16px"></div>' +
+              '</form>'
+
+            session.form = container.querySelector('form')
+            session.form.addEventListener('submit', function (event) {
+              event.preventDefault()
+            })
+            session.form.querySelector('input[name="card_number"]').addEventListener('input', function (event) {
+              event.target.value = formatCardNumber(event.target.value)
+            })
+            session.form.querySelector('input[name="expiry"]').addEventListener('input', function (event) {
+              event.target.value = formatExpiry(event.target.value)
+            })
+          }
+        }
+      },
+
+      confirmPayment: function () {
+        if (!session.paymentIntent) {
+          return Promise.reject(new Error('No payment intent: call payment().pay() first'))
+        }
+        setStatus('Processing…', '#6b7280')
+        return readCard()
+          .then(function (card) {
+            var params = {
+              card_number: card.card_number,
+              expiry: card.expiry,
+              cvv: card.cvv
+            }
+            params[session.tokenize ? 'token_intent' : 'payment_intent'] = session.paymentIntent
+            return post('/sdk/confirm_payment', params)
+          })
+          .then(function (result) {
+            if (result.respcd === '0000') {
+              setStatus(session.tokenize
+                ? '✅ Card saved (' + result.token_id + ')'
+                : '✅ Payment succeeded (' + result.syssn + ')', '#10b981')
+            } else {
+              setStatus('❌ ' + (result.respmsg || (session.tokenize ? 'Card could not be saved' : 'Payment failed')), '#dc2626')
+            }
+            return result
+          })
+      },
+
+      retrievePaymentIntent: function () {
+        if (!session.paymentIntent) {
+          return Promise.reject(new Error('No payment intent: call payment().pay() first'))
+        }
+        return post('/sdk/retrieve_payment_intent', { payment_intent: session.paymentIntent })
+      }
+    }
+
+    return instance
+  }
+
+  window.QFpay = { config: config, isMock: true }
+})()
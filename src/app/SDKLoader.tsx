@@ -3,6 +3,14 @@
 import { useState, useEffect } from 'react'
 import Script from 'next/script'
 
+// Dispatched by the page with the new environment as `detail` to swap SDKs without a reload
+export const SDK_ENVIRONMENT_EVENT = 'qfpay:environment-change'
+// Dispatched once window.QFpay belongs to the requested environment
+export const SDK_READY_EVENT = 'qfpay:sdk-ready'
+
+// next/script only runs each src once per page, so keep every loaded SDK to switch back to it
+const loadedSdks: Record<string, Window['QFpay']> = {}
+
 export default function SDKLoader() {
   const [environment, setEnvironment] = useState('qa')
 
@@ -18,17 +26,28 @@ export default function SDKLoader() {
       // Use default 'qa' if parsing fails
       setEnvironment('qa')
     }
+
+    const handleEnvironmentChange = (event: Event) => {
+      // Hide the old SDK until the new one is ready so nothing initializes against it
+      delete window.QFpay
+      setEnvironment((event as CustomEvent<string>).detail)
+    }
+
+    window.addEventListener(SDK_ENVIRONMENT_EVENT, handleEnvironmentChange)
+    return () => window.removeEventListener(SDK_ENVIRONMENT_EVENT, handleEnvironmentChange)
   }, [])
 
   // Set SDK URL based on environment (using correct QFPay SDK URLs)
   const sdkUrls = {
     qa: 'https://cdn-int.qfapi.com/qfpay_element/qfpay.js', // Sandbox
     test: 'https://test-cdn-hk.qfapi.com/qfpay_element/qfpay.js', // Live Test
-    live: 'https://cdn-hk.qfapi.com/qfpay_element/qfpay.js' // Production
+    live: 'https://cdn-hk.qfapi.com/qfpay_element/qfpay.js', // Production
+    mock: '/qfpay-mock/qfpay.js' // Offline fake served from /public, pairs with the mock gateway
   }
 
   return (
-    <Script 
+    <Script
+      key={environment}
       src={sdkUrls[environment as keyof typeof sdkUrls] || sdkUrls.qa}
       strategy="afterInteractive"
       onLoad={() => {
@@ -38,9 +57,18 @@ export default function SDKLoader() {
           console.log('QFpay methods:', Object.keys(window.QFpay))
         }
       }}
+      onReady={() => {
+        // Runs after the first load and again whenever we switch back to an already loaded SDK
+        if (loadedSdks[environment]) {
+          window.QFpay = loadedSdks[environment]
+        } else {
+          loadedSdks[environment] = window.QFpay
+        }
+        window.dispatchEvent(new CustomEvent(SDK_READY_EVENT, { detail: environment }))
+      }}
       onError={(e) => {
         console.error('Failed to load QFPay SDK:', e)
       }}
     />
   )
-}
\ No newline at end of file
+}
@@ -1,60 +1,176 @@
+import type { CustomerRecord } from '@/lib/qfpay/customers'
+import type { StoredRecord } from '@/lib/qfpay/store'
+import type { TransactionLookup, TransactionResult } from '@/lib/qfpay/transactions'
+import type { RefundRecord, RefundRequest } from '@/lib/qfpay/refunds'
+import type { ParamInputFormat, SignatureIssue, SignatureSteps, SignatureVariant } from '@/lib/qfpay/signature-debug'
+
 export declare function generateQFPaySignature(
   params: Record<string, unknown>,
-  endpoint: string,
-  method?: string,
-  clientKey?: string
+  profileId: string,
+  algorithm?: 'MD5' | 'SHA256' | null,
+  traceId?: string | null
 ): Promise<{
   success: boolean
   signature?: string
-  timestamp?: string
   headers?: Record<string, string>
   error?: string
 }>
 
+export declare function explainQFPaySignature(
+  input: {
+    params: string
+    format?: ParamInputFormat
+    algorithm: 'MD5' | 'SHA256'
+    clientKey?: string
+    profileId?: string
+    expectedSignature?: string
+  },
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  steps?: SignatureSteps
+  expected_signature?: string | null
+  matches?: boolean | null
+  case_differs?: boolean
+  issues?: SignatureIssue[]
+  variants?: SignatureVariant[]
+  error?: string
+}>
+
 export declare function createCustomer(
   customerData: Record<string, unknown>,
-  appcode: string,
-  secretKey?: string
+  profileId: string,
+  traceId?: string | null
 ): Promise<{
   success: boolean
-  customer?: {
-    customer_id: string
-    [key: string]: unknown
+  customer?: CustomerRecord & {
+    respcd?: string
+  }
+  error?: string
+  // Set when customerData failed validation: message per field
+  fields?: Record<string, string>
+}>
+
+export declare function queryCustomers(
+  lookup: {
+    customer_id?: string
+    email?: string
+    phone?: string
+    page?: number
+    page_size?: number
+  },
+  profileId: string,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  customers?: CustomerRecord[]
+  total_count?: number
+  error?: string
+}>
+
+export declare function updateCustomer(
+  customerId: string,
+  changes: {
+    name?: string
+    email?: string
+    phone?: string
+  },
+  profileId: string,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  customer?: CustomerRecord & {
+    updated_at?: string
   }
   error?: string
 }>
 
+export declare function deleteCustomer(
+  customerId: string,
+  profileId: string,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  customer_id?: string
+  error?: string
+}>
+
 export declare function createPaymentIntent(
+  // Minor units of `currency`: toMinorUnits() from lib/qfpay/currency converts a typed amount
   amount: number,
-  currency?: string,
-  appcode?: string,
-  secretKey?: string,
+  currency: string,
+  profileId: string,
   customerId?: string | null,
-  tokenExpiry?: string | null
+  tokenExpiry?: string | null,
+  idempotencyKey?: string | null,
+  traceId?: string | null
 ): Promise<{
   success: boolean
+  // True when an earlier call with the same idempotency key supplied the result
+  replayed?: boolean
   paymentIntent?: {
     payment_intent_id: string
+    out_trade_no: string
     amount: number
     currency: string
     expires_at?: string
     [key: string]: unknown
   }
   error?: string
+  // Set when the inputs failed validation: message per field
+  fields?: Record<string, string>
 }>
 
-export declare function createMockToken(): Promise<{
+export declare function createTokenIntent(
+  customerId: string,
+  profileId: string,
+  traceId?: string | null
+): Promise<{
   success: boolean
-  token?: {
-    token_id: string
-    customer_id: string | null
+  tokenIntent?: {
+    token_intent_id: string
+    customer_id: string
     created_at: string
-    status: string
-    type: string
-    last4: string
-    brand: string
-    exp_month: number
-    exp_year: number
+    expires_at: string
+    [key: string]: unknown
   }
   error?: string
-}>
\ No newline at end of file
+}>
+
+export declare function recordCardToken(
+  token: {
+    token_id: string
+    customer_id: string | null
+  },
+  profileId: string,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  record?: StoredRecord | null
+  error?: string
+}>
+
+export declare function queryTransaction(
+  lookup: TransactionLookup,
+  profileId: string,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  transaction?: TransactionResult
+  error?: string
+}>
+
+export declare function refundTransaction(
+  refundRequest: RefundRequest,
+  profileId: string,
+  idempotencyKey?: string | null,
+  traceId?: string | null
+): Promise<{
+  success: boolean
+  replayed?: boolean
+  refund?: RefundRecord
+  original_txamt?: number
+  total_refunded?: number
+  refundable_remaining?: number
+  error?: string
+}>
@@ -1,96 +1,122 @@
 'use server'
 
-import crypto from 'crypto'
+import { normalizeCustomer } from '@/lib/qfpay/customers'
+import { fetchTransactionStatus } from '@/lib/qfpay/transactions'
+import { createRefund } from '@/lib/qfpay/refunds'
+import { stripRawResponse } from '@/lib/qfpay/api-response'
+import { idempotencyScope, stableTradeNo, withIdempotency } from '@/lib/qfpay/idempotency'
+import { markRecordDeleted, saveRecord } from '@/lib/qfpay/store'
+import { buildParamString, buildQFPayHeaders, digestSignString, normalizeParams } from '@/lib/qfpay/signature'
+import { explainSignature, findSignatureIssues, parseParamInput, trySignatureVariants } from '@/lib/qfpay/signature-debug'
+import { createProfileClient, getProfile, resolveProfileCredentials } from '@/lib/qfpay/vault'
+import { CREATE_CUSTOMER_SCHEMA, CREATE_PAYMENT_INTENT_SCHEMA } from '@/lib/qfpay/schemas'
+import { ValidationError, validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { runWithTrace } from '@/lib/qfpay/trace'
 
-/**
- * Get QFPay base URL based on environment
- * @param {string} environment - 'qa', 'test', or 'live'
- */
-function getQFPayBaseURL(environment = 'qa') {
-  switch (environment) {
-    case 'live':
-    case 'production':
-      return 'https://openapi-hk.qfapi.com'
-    case 'test':
-      return 'https://openapi-hk.qfapi.com'
-    case 'qa':
-    case 'sandbox':
-    default:
-      return 'https://openapi-int.qfapi.com'
-  }
+const log = createLogger('Server')
+
+// Stack traces help locally but must never reach a production browser (same rule as the API routes)
+function errorDetails(error) {
+  return process.env.NODE_ENV === 'development' ? error.stack : undefined
 }
 
 /**
  * Server action to generate QFPay signature
- * Keeps client key secure on the server side
+ * Keeps client key secure on the server side: it is resolved from the credential vault
  * @param {Object} params - Parameters to sign
- * @param {string} appcode - QFPay merchant app code
- * @param {string} algorithm - 'MD5' or 'SHA256' (default: 'MD5')
+ * @param {string} profileId - Merchant profile holding the APPCODE and client key
+ * @param {string|null} algorithm - 'MD5' or 'SHA256' (default: the profile's algorithm)
+ * @param {string|null} traceId - Trace id of the UI action, attached to every log line
  */
-export async function generateQFPaySignature(params, appcode, algorithm = 'MD5', clientKey = null) {
-  try {
-    // Use provided client key or fallback to environment variable
-    const secretKey = clientKey || process.env.QFPAY_CLIENT_KEY || ''
-    
-    console.log('[Server] QFPay Signature Generation Started')
-    console.log('[Server] Algorithm:', algorithm)
-    console.log('[Server] APPCODE:', appcode)
-    console.log('[Server] Parameters:', JSON.stringify(params, null, 2))
-    
-    // Step 1: Sort parameters by key in ascending order (exactly as official example)
-    const ordered = {}
-    Object.keys(params)
-      .sort()
-      .forEach(function (key) {
-        ordered[key] = params[key]
-      })
+export async function generateQFPaySignature(params, profileId, algorithm = null, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const profile = resolveProfileCredentials(profileId)
+      const signType = algorithm || profile.sign_type
     
-    console.log('[Server] Ordered parameters:', JSON.stringify(ordered, null, 2))
+      // Never log the parameter or sign strings: they carry unmasked PII and the client key
+      log.debug('Generating QFPay signature', { algorithm: signType, appcode: profile.appcode, params })
     
-    // Step 2: Build parameter string (exactly as official example)
-    var str = []
-    for (var p in ordered)
-      if (ordered.hasOwnProperty(p)) {
-        str.push(p + "=" + ordered[p])
-      }
-    var paramString = str.join("&")
+      // Step 1: Sort parameters by key in ascending order and build the
+      // parameter string (exactly as official example)
+      const paramString = buildParamString(normalizeParams(params))
     
-    console.log('[Server] Parameter string:', paramString)
+      // Step 2: Append client key (exactly as official example)
+      const signString = paramString + profile.clientKey
     
-    // Step 3: Append client key (exactly as official example)
-    const signString = paramString + secretKey
+      // Step 3: Generate hash using Node.js crypto (exactly as official example)
+      const signature = digestSignString(signString, signType)
     
-    console.log('[Server] Sign string:', signString.substring(0, 50) + '...')
+      log.info('QFPay signature generated', { algorithm: signType, appcode: profile.appcode })
     
-    // Step 4: Generate hash using Node.js crypto (exactly as official example)
-    let signature
-    if (algorithm.toUpperCase() === 'MD5') {
-      signature = crypto.createHash('md5').update(signString).digest('hex')
-    } else {
-      signature = crypto.createHash('sha256').update(signString).digest('hex')
-    }
+      // Return signature with headers for QFPay API
+      return {
+        success: true,
+        signature: signature,
+        headers: buildQFPayHeaders(profile.appcode, signature, signType)
+      }
     
-    console.log('[Server] Generated signature:', signature.substring(0, 16) + '...')
-    
-    // Return signature with headers for QFPay API
-    return {
-      success: true,
-      signature: signature,
-      headers: {
-        'X-QF-APPCODE': appcode,
-        'X-QF-SIGN': signature,
-        'X-QF-SIGNTYPE': algorithm.toUpperCase(),
-        'Content-Type': 'application/x-www-form-urlencoded'
+    } catch (error) {
+      log.error('QFPay signature generation failed', { error })
+      return {
+        success: false,
+        error: error.message
       }
     }
-    
-  } catch (error) {
-    console.error('[Server] QFPay signature generation failed:', error)
-    return {
-      success: false,
-      error: error.message
+  })
+}
+
+/**
+ * Server action behind the /tools/signature debugger
+ * Signs pasted parameters step by step, the same way generateQFPaySignature does, with either
+ * an entered client key or a vault profile's key. Given the signature QFPay expects, it also
+ * re-signs the usual mistakes to point at the likely cause of a mismatch.
+ * A profile's key is never returned: the sign string comes back with the key masked.
+ * @param {Object} input - { params, format, algorithm, clientKey?, profileId?, expectedSignature? }
+ * @param {string|null} traceId - Trace id of the UI action, attached to every log line
+ */
+export async function explainQFPaySignature(input, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const algorithm = input.algorithm === 'SHA256' ? 'SHA256' : 'MD5'
+      const fromProfile = Boolean(input.profileId)
+      const clientKey = fromProfile ? resolveProfileCredentials(input.profileId).clientKey : input.clientKey || ''
+
+      if (!clientKey) {
+        return { success: false, error: 'Enter a client key or choose a merchant profile' }
+      }
+
+      const parsed = parseParamInput(input.params || '', input.format || 'auto')
+      const steps = explainSignature(parsed.params, clientKey, algorithm)
+      const expected = (input.expectedSignature || '').trim()
+      const matches = expected ? steps.signature.toLowerCase() === expected.toLowerCase() : null
+
+      log.info('Signature explained', { algorithm, key_source: fromProfile ? 'profile' : 'input', params: parsed.params, matches })
+
+      return {
+        success: true,
+        steps: {
+          ...steps,
+          format: parsed.format,
+          sign_string: fromProfile ? `${steps.param_string}${'•'.repeat(8)}` : steps.sign_string
+        },
+        expected_signature: expected || null,
+        matches,
+        // Hex case doesn't matter to QFPay, but it is worth pointing out
+        case_differs: Boolean(matches && steps.signature !== expected),
+        issues: [...parsed.issues, ...findSignatureIssues(parsed.params, clientKey)],
+        variants: expected && !matches ? trySignatureVariants(parsed, clientKey, algorithm, expected) : []
+      }
+
+    } catch (error) {
+      log.error('Signature explanation failed', { error })
+      return {
+        success: false,
+        error: error.message
+      }
     }
-  }
+  })
 }
 
 
@@ -98,203 +124,251 @@ export async function generateQFPaySignature(params, appcode, algorithm = 'MD5',
  * Server action to create QFPay customer
  * For storing customer information and recurring payments
  */
-export async function createCustomer(customerData, appcode, secretKey = null, environment = 'qa') {
-  try {
-    const baseURL = getQFPayBaseURL(environment)
-    const endpoint = '/customer/v1/create'
-    
-    // Prepare request parameters (as per QFPay customer API spec)
-    const requestParams = {
-      name: customerData.name || 'Demo Customer',
-      phone: customerData.phone || '',
-      email: customerData.email || 'demo@example.com',      
-    }
+export async function createCustomer(customerData, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      validateInput(CREATE_CUSTOMER_SCHEMA, customerData)
+      const { client, profile } = createProfileClient(profileId)
+    
+      // Prepare request parameters (as per QFPay customer API spec)
+      const requestParams = {
+        name: customerData.name || 'Demo Customer',
+        phone: customerData.phone || '',
+        email: customerData.email || 'demo@example.com',      
+      }
     
-    console.log('[Server] Creating QFPay customer:', JSON.stringify(requestParams, null, 2))
+      log.info('Creating QFPay customer', { params: requestParams })
     
-    // Generate signature for customer creation
-    const signatureResult = await generateQFPaySignature(requestParams, appcode, 'MD5', secretKey)
+      const responseData = await client.createCustomer(requestParams)
     
-    if (!signatureResult.success) {
-      throw new Error(`Customer creation signature generation failed: ${signatureResult.error}`)
-    }
+      // Map QFPay customer response to our internal format
+      const customer = {
+        customer_id: responseData.data.customer_id,
+        name: requestParams.name,
+        email: requestParams.email,
+        phone: requestParams.phone,
+        created_at: responseData.sysdtm,
+        respcd: responseData.respcd,
+        raw_response: responseData
+      }
     
-    console.log('[Server] Generated customer creation signature successfully')
+      saveRecord('customer', customer.customer_id, { environment: client.environment, appcode: profile.appcode }, customer)
     
-    // Convert request parameters to URL-encoded format (as per QFPay docs)
-    const formData = new URLSearchParams()
-    Object.keys(requestParams).forEach(key => {
-      formData.append(key, requestParams[key])
-    })
+      log.info('Customer created successfully', { customer_id: customer.customer_id })
+      return stripRawResponse({ success: true, customer })
     
-    console.log('[Server] Request body (URL-encoded):', formData.toString())
-    console.log('[Server] Request url:', `${baseURL}${endpoint}`)
+    } catch (error) {
+      log.error('Customer creation failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        fields: error instanceof ValidationError ? error.fields : undefined,
+        details: errorDetails(error)
+      }
+    }
+  })
+}
+
+/**
+ * Server action to look up QFPay customers
+ * Filters by customer_id, email or phone; with no filter returns the first page of customers
+ */
+export async function queryCustomers(lookup, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const { client } = createProfileClient(profileId)
+    
+      // Only send the filters that were actually filled in
+      const requestParams = {
+        page: String(lookup.page || 1),
+        page_size: String(lookup.page_size || 10)
+      }
+      if (lookup.customer_id) requestParams.customer_id = lookup.customer_id.trim()
+      if (lookup.email) requestParams.email = lookup.email.trim()
+      if (lookup.phone) requestParams.phone = lookup.phone.trim()
     
-    // Make API request to QFPay with correct content-type
-    const response = await fetch(`${baseURL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        ...signatureResult.headers,
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json'
-      },
-      body: formData.toString()
-    })
+      log.info('Querying QFPay customers', { params: requestParams })
     
-    const responseData = await response.json()
+      const responseData = await client.queryCustomers(requestParams)
+      const customers = (responseData.data || []).map(normalizeCustomer)
     
-    console.log('[Server] QFPay Customer API Response:', JSON.stringify(responseData, null, 2))
+      log.info('Customer query successful', { results: customers.length })
+      return {
+        success: true,
+        customers,
+        total_count: Number(responseData.total_count) || customers.length
+      }
     
-    // Check if API call was successful
-    if (!response.ok) {
-      throw new Error(`QFPay Customer API error: ${response.status} ${response.statusText}`)
+    } catch (error) {
+      log.error('Customer query failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
     }
+  })
+}
+
+/**
+ * Server action to update a QFPay customer's name, email or phone
+ * Fields left undefined are not sent, so QFPay keeps their current values
+ */
+export async function updateCustomer(customerId, changes, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      if (!customerId) {
+        throw new Error('customer_id is required')
+      }
     
-    // Check QFPay response code
-    if (responseData.respcd !== '0000') {
-      throw new Error(`QFPay Customer error: ${responseData.respcd} - ${responseData.respmsg || 'Unknown error'}`)
-    }
+      const { client, profile } = createProfileClient(profileId)
     
-    // Map QFPay customer response to our internal format
-    const customer = {
-      customer_id: responseData.data.customer_id,
-      name: requestParams.name,
-      email: requestParams.email,
-      phone: requestParams.phone,
-      created_at: responseData.sysdtm,
-      respcd: responseData.respcd,
-      raw_response: responseData
-    }
+      const requestParams = { customer_id: customerId }
+      if (changes.name !== undefined) requestParams.name = changes.name
+      if (changes.email !== undefined) requestParams.email = changes.email
+      if (changes.phone !== undefined) requestParams.phone = changes.phone
+    
+      if (Object.keys(requestParams).length === 1) {
+        throw new Error('Nothing to update: provide name, email and/or phone')
+      }
+    
+      log.info('Updating QFPay customer', { params: requestParams })
+    
+      const responseData = await client.updateCustomer(requestParams)
+    
+      // Merge our changes over whatever QFPay echoed back
+      const customer = {
+        ...normalizeCustomer({ ...(responseData.data || {}), ...requestParams }),
+        updated_at: responseData.sysdtm,
+        raw_response: responseData
+      }
     
-    console.log('[Server] Customer created successfully:', customer.customer_id)
-    return { success: true, customer }
+      saveRecord('customer', customer.customer_id, { environment: client.environment, appcode: profile.appcode }, customer)
     
-  } catch (error) {
-    console.error('[Server] Customer creation failed:', error)
-    return {
-      success: false,
-      error: error.message,
-      details: error.stack
+      log.info('Customer updated successfully', { customer_id: customer.customer_id })
+      return stripRawResponse({ success: true, customer })
+    
+    } catch (error) {
+      log.error('Customer update failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
     }
-  }
+  })
 }
 
 /**
- * Server action to create QFPay token intent
- * For tokenized payments and card storage
+ * Server action to delete a QFPay customer
  */
-export async function createTokenIntent(customerId, appcode, environment = 'qa') {
-  try {
-    const baseURL = getQFPayBaseURL(environment)
-    const endpoint = '/payment_element/v1/create_token_intent'
-    
-    // Prepare request parameters (as per QFPay token intent API spec)
-    const requestParams = {
-      customer_id: customerId || `DEMO_CUSTOMER_${Date.now()}`,
-      token_reason: 'QFPay Demo Token Creation'
-    }
+export async function deleteCustomer(customerId, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      if (!customerId) {
+        throw new Error('customer_id is required')
+      }
     
-    console.log('[Server] Creating QFPay token intent:', JSON.stringify(requestParams, null, 2))
+      const { client } = createProfileClient(profileId)
     
-    // Generate signature for token intent creation
-    const signatureResult = await generateQFPaySignature(requestParams, appcode, 'MD5')
+      log.info('Deleting QFPay customer', { customerId })
     
-    if (!signatureResult.success) {
-      throw new Error(`Token intent signature generation failed: ${signatureResult.error}`)
-    }
+      await client.deleteCustomer({ customer_id: customerId })
     
-    console.log('[Server] Generated token intent signature successfully')
+      markRecordDeleted('customer', customerId)
     
-    // Convert request parameters to URL-encoded format (as per QFPay docs)
-    const formData = new URLSearchParams()
-    Object.keys(requestParams).forEach(key => {
-      formData.append(key, requestParams[key])
-    })
+      log.info('Customer deleted successfully', { customerId })
+      return { success: true, customer_id: customerId }
     
-    console.log('[Server] Request body (URL-encoded):', formData.toString())
+    } catch (error) {
+      log.error('Customer deletion failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
+    }
+  })
+}
+
+/**
+ * Server action to create QFPay token intent
+ * Starts the card-saving flow: the Element confirms this intent and returns a reusable token_id
+ */
+export async function createTokenIntent(customerId, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      if (!customerId) {
+        throw new Error('customer_id is required: tokens are always saved against a customer')
+      }
     
-    // Make API request to QFPay with correct content-type
-    const response = await fetch(`${baseURL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        ...signatureResult.headers,
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json'
-      },
-      body: formData.toString()
-    })
+      const { client, profile } = createProfileClient(profileId)
     
-    const responseData = await response.json()
+      // Prepare request parameters (as per QFPay token intent API spec)
+      const requestParams = {
+        customer_id: customerId,
+        token_reason: 'QFPay Demo Subscription Card'
+      }
     
-    console.log('[Server] QFPay Token Intent API Response:', JSON.stringify(responseData, null, 2))
+      log.info('Creating QFPay token intent', { params: requestParams })
     
-    // Check if API call was successful
-    if (!response.ok) {
-      throw new Error(`QFPay Token Intent API error: ${response.status} ${response.statusText}`)
-    }
+      const responseData = await client.createTokenIntent(requestParams)
     
-    // Check QFPay response code
-    if (responseData.respcd !== '0000') {
-      throw new Error(`QFPay Token Intent error: ${responseData.respcd} - ${responseData.respmsg || 'Unknown error'}`)
-    }
+      if (!responseData.token_intent) {
+        throw new Error('QFPay did not return a token_intent id')
+      }
     
-    // Map QFPay token intent response to our internal format
-    const tokenIntent = {
-      token_intent_id: responseData.token_intent || 'N/A',
-      customer_id: requestParams.customer_id || customerId,
-      created_at: responseData.sysdtm || new Date().toISOString(),
-      expires_at: responseData.intent_expiry || 'N/A',
-      respcd: responseData.respcd,
-      raw_response: responseData
-    }
+      // Map QFPay token intent response to our internal format
+      const tokenIntent = {
+        token_intent_id: responseData.token_intent,
+        customer_id: requestParams.customer_id,
+        created_at: responseData.sysdtm || new Date().toISOString(),
+        expires_at: responseData.intent_expiry || 'N/A',
+        respcd: responseData.respcd,
+        raw_response: responseData
+      }
+    
+      saveRecord('token_intent', tokenIntent.token_intent_id, { environment: client.environment, appcode: profile.appcode }, tokenIntent)
     
-    console.log('[Server] Token intent created successfully:', tokenIntent.token_intent_id)
-    return { success: true, tokenIntent }
+      log.info('Token intent created successfully', { token_intent_id: tokenIntent.token_intent_id })
+      return stripRawResponse({ success: true, tokenIntent })
     
-  } catch (error) {
-    console.error('[Server] Token intent creation failed:', error)
-    return {
-      success: false,
-      error: error.message,
-      details: error.stack
+    } catch (error) {
+      log.error('Token intent creation failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
     }
-  }
+  })
 }
 
 /**
- * Server action to generate mock token ID for testing
- * In production, this would come from QFPay tokenization process
+ * Server action to record a card token returned by the Element in tokenization mode
+ * The token is created browser-side, so this is the only place the server learns about it
  */
-export async function createMockToken() {
-  try {
-    // Generate a mock token ID that looks like QFPay format
-    const timestamp = Date.now()
-    const randomPart = Math.random().toString(36).substr(2, 16)
-    const mockTokenId = `tk_${timestamp}_${randomPart}`
-    
-    console.log('[Server] Generated mock token ID:', mockTokenId)
-    
-    return {
-      success: true,
-      token: {
-        token_id: mockTokenId,
-        customer_id: null,
-        created_at: new Date().toISOString(),
-        status: 'active',
-        type: 'card',
-        last4: '1096',
-        brand: 'mastercard',
-        exp_month: 12,
-        exp_year: new Date().getFullYear() + 2
+export async function recordCardToken(token, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      if (!token || !token.token_id) {
+        throw new Error('token_id is required')
+      }
+    
+      const profile = getProfile(profileId)
+      const record = saveRecord('token', token.token_id, { environment: profile.environment, appcode: profile.appcode }, token)
+    
+      log.info('Card token recorded', { token_id: token.token_id })
+      return { success: true, record }
+    
+    } catch (error) {
+      log.error('Card token recording failed', { error })
+      return {
+        success: false,
+        error: error.message
       }
     }
-  } catch (error) {
-    console.error('[Server] Mock token generation failed:', error)
-    return {
-      success: false,
-      error: error.message
-    }
-  }
+  })
 }
 
 /**
@@ -306,7 +380,7 @@ export async function generateTestProducts() {
     {
       name: 'Basic Monthly Plan',
       type: 'recurring',
-      txamt: 999, // $9.99
+      txamt: 999, // HKD 9.99
       txcurrcd: 'HKD',
       interval: 'monthly',
       interval_count: 1,
@@ -315,7 +389,7 @@ export async function generateTestProducts() {
     {
       name: 'Premium Annual Plan', 
       type: 'recurring',
-      txamt: 9999, // $99.99
+      txamt: 9999, // HKD 99.99
       txcurrcd: 'HKD',
       interval: 'yearly',
       interval_count: 1,
@@ -324,7 +398,7 @@ export async function generateTestProducts() {
     {
       name: 'Weekly Newsletter',
       type: 'recurring',
-      txamt: 299, // $2.99
+      txamt: 299, // HKD 2.99
       txcurrcd: 'HKD',
       interval: 'weekly',
       interval_count: 1,
@@ -340,109 +414,144 @@ export async function generateTestProducts() {
 
 /**
  * Server action to create real QFPay payment intent
- * Calls the actual QFPay API with proper authentication
+ * Calls the actual QFPay API with proper authentication.
+ * With an idempotency key the out_trade_no is derived from the key, and repeats
+ * of the same call return the first result instead of creating another intent.
  */
-export async function createPaymentIntent(amount, currency = 'HKD', appcode, secretKey = null, customerId = null, tokenExpiry = null, environment = 'qa') {
-  try {
-    const baseURL = getQFPayBaseURL(environment)
-    const endpoint = '/payment_element/v1/create_payment_intent'
-    
-    // Generate unique merchant trade number
-    const outTradeNo = `QF_${Date.now()}_${Math.random().toString(36).substr(2, 6).toUpperCase()}`
-    
-    // Generate timestamp in QFPay format (exactly as official example)
-    const dateTime = new Date().toISOString().replace(/T/, " ").replace(/\..+/, "")
-    
-    // Prepare request parameters (matching official example format + credit card)
-    const requestParams = {
-      txamt: amount.toString(), // Amount in cents
-      txcurrcd: currency,
-      pay_type: '802801', // Credit card payment (as requested)
-      out_trade_no: outTradeNo,
-      txdtm: dateTime // Required timestamp parameter (was missing before)
-    }
+export async function createPaymentIntent(amount, currency = 'HKD', profileId, customerId = null, tokenExpiry = null, idempotencyKey = null, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const { client, profile } = createProfileClient(profileId)
+      const scope = idempotencyScope(profile, 'payment_intent')
+      const inputs = { amount, currency, customerId, tokenExpiry }
+      validateInput(CREATE_PAYMENT_INTENT_SCHEMA, inputs)
 
-    // Add customer_id if provided
-    if (customerId && customerId.trim()) {
-      requestParams.customer_id = customerId.trim()
-    }
+      const { result: paymentIntent, replayed } = await withIdempotency(scope, idempotencyKey, inputs, async () => {
+        // Stable per idempotency key, otherwise unique per call
+        const outTradeNo = idempotencyKey
+          ? stableTradeNo('QF', scope, idempotencyKey)
+          : `QF_${Date.now()}_${Math.random().toString(36).substr(2, 6).toUpperCase()}`
+    
+        // Generate timestamp in QFPay format (exactly as official example)
+        const dateTime = new Date().toISOString().replace(/T/, " ").replace(/\..+/, "")
+    
+        // Prepare request parameters (matching official example format + credit card)
+        const requestParams = {
+          txamt: amount.toString(), // Minor units of `currency` (see lib/qfpay/currency)
+          txcurrcd: currency,
+          pay_type: '802801', // Credit card payment (as requested)
+          out_trade_no: outTradeNo,
+          txdtm: dateTime // Required timestamp parameter (was missing before)
+        }
 
-    // Add token expiry if provided (use string directly)
-    if (tokenExpiry && tokenExpiry.trim()) {
-      requestParams.intent_expiry = tokenExpiry.trim()
-      console.log(`[Server] Token expiry set to: ${requestParams.intent_expiry}`)
-    }
-    
-    console.log('[Server] Creating QFPay payment intent:', JSON.stringify(requestParams, null, 2))
-    
-    // Use provided secret key or fallback to environment variable
-    const clientKey = secretKey || process.env.QFPAY_CLIENT_KEY || ''
+        // Add customer_id if provided
+        if (customerId && customerId.trim()) {
+          requestParams.customer_id = customerId.trim()
+        }
+
+        // Add token expiry if provided (use string directly)
+        if (tokenExpiry && tokenExpiry.trim()) {
+          requestParams.intent_expiry = tokenExpiry.trim()
+          log.info('Token expiry set', { intent_expiry: requestParams.intent_expiry })
+        }
+    
+        log.info('Creating QFPay payment intent', { params: requestParams })
+    
+        const responseData = await client.createPaymentIntent(requestParams)
+    
+        // Map QFPay response to our internal format
+        const created = {
+          payment_intent_id: responseData.payment_intent,
+          out_trade_no: responseData.out_trade_no,
+          amount: parseInt(responseData.txamt),
+          currency: responseData.txcurrcd || currency,
+          status: 'requires_payment_method',
+          created_at: responseData.sysdtm,
+          expires_at: responseData.intent_expiry,
+          respcd: responseData.respcd,
+          raw_response: responseData
+        }
+    
+        saveRecord('payment_intent', created.payment_intent_id, { environment: client.environment, appcode: profile.appcode }, created)
+        return created
+      })
     
-    // Generate signature for payment intent creation
-    const signatureResult = await generateQFPaySignature(requestParams, appcode, 'MD5', clientKey)
+      log.info(replayed ? 'Payment intent replayed for idempotency key' : 'Payment intent created successfully', { payment_intent_id: paymentIntent.payment_intent_id })
+      return stripRawResponse({ success: true, paymentIntent, replayed })
     
-    if (!signatureResult.success) {
-      throw new Error(`Payment intent signature generation failed: ${signatureResult.error}`)
+    } catch (error) {
+      log.error('Payment intent creation failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        fields: error instanceof ValidationError ? error.fields : undefined,
+        details: errorDetails(error)
+      }
     }
+  })
+}
+
+/**
+ * Server action to query the status of a QFPay transaction
+ * Looks up a trade by syssn, out_trade_no or payment intent id
+ */
+export async function queryTransaction(lookup, profileId, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const { client, profile } = createProfileClient(profileId)
     
-    console.log('[Server] Generated payment intent signature successfully')
-    
-    // Convert request parameters to URL-encoded format (as per QFPay docs)
-    const formData = new URLSearchParams()
-    Object.keys(requestParams).forEach(key => {
-      formData.append(key, requestParams[key])
-    })
-    
-    console.log('[Server] Request body (URL-encoded):', formData.toString())
-    
-    // Make API request to QFPay with correct content-type
-    const response = await fetch(`${baseURL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        ...signatureResult.headers,
-        'Content-Type': 'application/x-www-form-urlencoded', // Fixed content-type
-        'Accept': 'application/json'
-      },
-      body: formData.toString()
-    })
-    
-    const responseData = await response.json()
-    
-    console.log('[Server] QFPay API Response:', JSON.stringify(responseData, null, 2))
-    
-    // Check if API call was successful
-    if (!response.ok) {
-      throw new Error(`QFPay API error: ${response.status} ${response.statusText}`)
-    }
+      log.info('Querying QFPay transaction', { lookup })
     
-    // Check QFPay response code
-    if (responseData.respcd !== '0000') {
-      throw new Error(`QFPay error: ${responseData.respcd} - ${responseData.respmsg || 'Unknown error'}`)
-    }
+      const { transaction } = await fetchTransactionStatus(client, lookup)
     
-    // Map QFPay response to our internal format
-    const paymentIntent = {
-      payment_intent_id: responseData.payment_intent,
-      out_trade_no: responseData.out_trade_no,
-      amount: parseInt(responseData.txamt),
-      currency: responseData.txcurrcd || currency,
-      status: 'requires_payment_method',
-      created_at: responseData.sysdtm,
-      expires_at: responseData.intent_expiry,
-      respcd: responseData.respcd,
-      raw_response: responseData
-    }
+      // Keep the stored intent's payment outcome current so it can be picked up again later
+      saveRecord('payment_intent', transaction.payment_intent_id, { environment: client.environment, appcode: profile.appcode }, {
+        transaction_status: transaction.status,
+        syssn: transaction.syssn,
+        paid_at: transaction.paid_at
+      })
     
-    console.log('[Server] Payment intent created successfully:', paymentIntent.payment_intent_id)
-    return { success: true, paymentIntent }
+      log.info('Transaction status', { status: transaction.status, syssn: transaction.syssn, out_trade_no: transaction.out_trade_no })
+      return stripRawResponse({ success: true, transaction })
     
-  } catch (error) {
-    console.error('[Server] Payment intent creation failed:', error)
-    return {
-      success: false,
-      error: error.message,
-      details: error.stack
+    } catch (error) {
+      log.error('Transaction query failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
     }
-  }
+  })
 }
 
+/**
+ * Server action to refund all or part of a QFPay transaction
+ * Generates its own refund trade number and never refunds more than the original txamt
+ */
+export async function refundTransaction(refundRequest, profileId, idempotencyKey = null, traceId = null) {
+  return runWithTrace(traceId, async () => {
+    try {
+      const { client, profile } = createProfileClient(profileId)
+      const scope = idempotencyScope(profile, 'refund')
+    
+      log.info('Creating QFPay refund', { refundRequest })
+    
+      const { result, replayed } = await withIdempotency(scope, idempotencyKey, refundRequest, () => createRefund(client, { environment: client.environment, appcode: profile.appcode }, {
+        ...refundRequest,
+        refund_out_trade_no: idempotencyKey ? stableTradeNo('RF', scope, idempotencyKey) : undefined
+      }))
+    
+      log.info(replayed ? 'Refund replayed for idempotency key' : 'Refund created successfully', { refund_out_trade_no: result.refund.refund_out_trade_no, txamt: result.refund.txamt })
+      return stripRawResponse({ success: true, ...result, replayed })
+    
+    } catch (error) {
+      log.error('Refund failed', { error })
+      return {
+        success: false,
+        error: error.message,
+        details: errorDetails(error)
+      }
+    }
+  })
+}
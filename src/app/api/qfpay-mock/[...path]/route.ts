@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  MOCK_APPCODE,
+  describeMockGateway,
+  handleMockGatewayRequest,
+  resetMockGateway,
+  serializeMockResponse
+} from '@/lib/qfpay/mock/gateway'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('Mock')
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+// The mock gateway accepts a well-known key, so never expose it on a production build
+// unless explicitly requested (e.g. a CI job running `next start`)
+function mockDisabled() {
+  return process.env.NODE_ENV === 'production' && process.env.QFPAY_MOCK_ENABLED !== 'true'
+}
+
+/**
+ * Local QFPay OpenAPI stand-in
+ * POST /api/qfpay-mock/<qfpay endpoint>, e.g. /api/qfpay-mock/customer/v1/create
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    if (mockDisabled()) {
+      return NextResponse.json({ error: 'QFPay mock gateway is disabled' }, { status: 404 })
+    }
+
+    const { path } = await params
+    const endpoint = `/${path.join('/')}`
+    const rawBody = await request.text()
+
+    log.info('QFPay request', { endpoint })
+    const result = handleMockGatewayRequest(endpoint, request.headers, rawBody)
+    log.info('QFPay response', { respcd: result.body.respcd, respmsg: result.body.respmsg })
+
+    const response = serializeMockResponse(result, request.headers.get('X-QF-SIGNTYPE'))
+    return new NextResponse(response.body, { status: result.status, headers: response.headers })
+  })
+}
+
+// GET endpoint for testing mock availability and inspecting state
+export async function GET() {
+  if (mockDisabled()) {
+    return NextResponse.json({ error: 'QFPay mock gateway is disabled' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    endpoint: '/api/qfpay-mock/*',
+    method: 'POST',
+    description: 'In-memory QFPay OpenAPI stand-in for offline development',
+    appcode: MOCK_APPCODE,
+    objects: describeMockGateway()
+  })
+}
+
+// DELETE endpoint to reset mock state between test runs
+export async function DELETE() {
+  if (mockDisabled()) {
+    return NextResponse.json({ error: 'QFPay mock gateway is disabled' }, { status: 404 })
+  }
+
+  resetMockGateway()
+  return NextResponse.json({ success: true, objects: describeMockGateway() })
+}
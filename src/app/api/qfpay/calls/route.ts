@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server'
+import { clearOutboundCalls, isInspectorEnabled, listOutboundCalls } from '@/lib/qfpay/inspector'
+import { getProfile } from '@/lib/qfpay/vault'
+import { apiError, apiErrorFromException, apiSuccess } from '@/lib/qfpay/api-response'
+import { LIST_CALLS_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+function inspectorDisabled() {
+  return apiError('not_found', 'The API call inspector is disabled in production. Set QFPAY_INSPECTOR_ENABLED=true to enable it.', 404)
+}
+
+/**
+ * API endpoint to list captured outbound QFPay calls, newest first
+ * GET /api/qfpay/calls?profileId=...&traceId=...&limit=50
+ * `profileId` scopes the list to that profile's appcode and environment.
+ */
+export async function GET(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    if (!isInspectorEnabled()) {
+      return inspectorDisabled()
+    }
+
+    try {
+      const searchParams = request.nextUrl.searchParams
+      validateInput(LIST_CALLS_SCHEMA, Object.fromEntries(searchParams))
+      const profileId = searchParams.get('profileId')
+      const profile = profileId ? getProfile(profileId) : null
+
+      const calls = listOutboundCalls({
+        appcode: profile?.appcode,
+        environment: profile?.environment,
+        traceId: searchParams.get('traceId') || undefined,
+        limit: parseInt(searchParams.get('limit') || '50') || 50
+      })
+
+      return apiSuccess({ calls, total_count: calls.length })
+
+    } catch (error) {
+      log.error('Call listing failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+/**
+ * API endpoint to clear all captured calls
+ * DELETE /api/qfpay/calls
+ */
+export async function DELETE(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    if (!isInspectorEnabled()) {
+      return inspectorDisabled()
+    }
+
+    clearOutboundCalls()
+    log.info('Captured outbound calls cleared')
+    return apiSuccess(null)
+  })
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { getCircuitStatus, resetCircuit } from '@/lib/qfpay/circuit-breaker'
+import { getQFPayBaseURL } from '@/lib/qfpay/client'
+import { PROFILE_ENVIRONMENTS, getProfile } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess } from '@/lib/qfpay/api-response'
+import { GATEWAY_HEALTH_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+// The profile's environment when one is given, otherwise every environment
+function environmentsFor(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  validateInput(GATEWAY_HEALTH_SCHEMA, Object.fromEntries(searchParams))
+  const profileId = searchParams.get('profileId')
+  return profileId ? [getProfile(profileId).environment] : PROFILE_ENVIRONMENTS
+}
+
+function errorResponse(action: string, error: unknown) {
+  log.error(`Gateway health ${action} failed`, { error })
+  return apiErrorFromException(error)
+}
+
+/**
+ * API endpoint to report the circuit breaker state of each QFPay gateway
+ * GET /api/qfpay/health?profileId=...
+ */
+export async function GET(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const gateways = environmentsFor(request).map(environment => ({
+        environment,
+        ...getCircuitStatus(getQFPayBaseURL(environment))
+      }))
+
+      return apiSuccess({ gateways })
+    } catch (error) {
+      return errorResponse('check', error)
+    }
+  })
+}
+
+/**
+ * API endpoint to close a circuit by hand once the gateway is known to be back
+ * DELETE /api/qfpay/health?profileId=...
+ */
+export async function DELETE(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const environments = environmentsFor(request)
+      environments.forEach(environment => resetCircuit(getQFPayBaseURL(environment)))
+      log.info('Circuit breakers reset', { environments })
+
+      return apiSuccess({ environments })
+    } catch (error) {
+      return errorResponse('reset', error)
+    }
+  })
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QFPaySignType, verifyQFPaySignature } from '@/lib/qfpay/signature'
+import {
+  dispatchQFPayNotification,
+  markNotificationSeen,
+  parseQFPayNotification,
+  unmarkNotificationSeen
+} from '@/lib/qfpay/notifications'
+import { hasNotificationCredentials, resolveNotificationCredentials } from '@/lib/qfpay/vault'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+// QFPay treats anything other than a 200 with body "SUCCESS" as a failed delivery and retries
+const ACKNOWLEDGE = 'SUCCESS'
+
+/**
+ * Parse a notification body; QFPay sends JSON, older integrations send form data
+ */
+function parseBody(rawBody: string, contentType: string): unknown {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(rawBody))
+  }
+  return JSON.parse(rawBody)
+}
+
+/**
+ * Asynchronous notification receiver for QFPay payment and subscription billing results
+ * POST /api/qfpay/notify
+ * X-QF-SIGN is checked with the key of a profile matching X-QF-APPCODE, or the `.env` profile without one.
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      // Signature is computed over the exact bytes QFPay sent, so read the raw body first
+      const rawBody = await request.text()
+      const signature = request.headers.get('X-QF-SIGN')
+      const signType = (request.headers.get('X-QF-SIGNTYPE') || 'MD5').toUpperCase() as QFPaySignType
+      const appcode = request.headers.get('X-QF-APPCODE')
+
+      // Keys of the profiles that could have sent it; never verify without one
+      const candidates = resolveNotificationCredentials(appcode)
+      if (candidates.length === 0) {
+        // Nothing to verify with at all is our misconfiguration, worth a redelivery once fixed;
+        // an unknown or missing APPCODE is simply unauthenticated
+        if (!hasNotificationCredentials()) {
+          log.error('QFPay notification rejected: no client key configured', { appcode })
+          return new NextResponse('NOT CONFIGURED', { status: 503 })
+        }
+        log.error('QFPay notification rejected: unknown X-QF-APPCODE', { appcode })
+        return new NextResponse('INVALID SIGNATURE', { status: 401 })
+      }
+
+      const profile = candidates.find(candidate => verifyQFPaySignature(rawBody, signature, candidate.clientKey, signType))
+      if (!profile) {
+        log.error('QFPay notification rejected: invalid X-QF-SIGN', { appcode })
+        return new NextResponse('INVALID SIGNATURE', { status: 401 })
+      }
+
+      let body: unknown
+      try {
+        body = parseBody(rawBody, request.headers.get('Content-Type') || '')
+      } catch {
+        log.error('QFPay notification rejected: unparseable body')
+        return new NextResponse('INVALID BODY', { status: 400 })
+      }
+      // A signed `null`, array or scalar would otherwise fail with 500 and be redelivered forever
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        log.error('QFPay notification rejected: body is not an object')
+        return new NextResponse('INVALID BODY', { status: 400 })
+      }
+
+      const event = parseQFPayNotification(body as Record<string, unknown>)
+      log.info('QFPay notification received', { profile_id: profile.id, notify_type: event.notify_type, syssn: event.syssn, out_trade_no: event.out_trade_no })
+
+      // Duplicates are acknowledged so QFPay stops retrying, but handlers don't run again
+      if (!markNotificationSeen(event)) {
+        log.info('Duplicate QFPay notification ignored', { syssn: event.syssn, out_trade_no: event.out_trade_no })
+        return new NextResponse(ACKNOWLEDGE, { status: 200 })
+      }
+
+      let handled: number
+      try {
+        handled = await dispatchQFPayNotification(event)
+      } catch (error) {
+        unmarkNotificationSeen(event)
+        throw error
+      }
+      log.info('QFPay notification dispatched', { handlers: handled })
+
+      return new NextResponse(ACKNOWLEDGE, { status: 200 })
+
+    } catch (error) {
+      log.error('QFPay notification handling failed', { error })
+
+      // Non-SUCCESS response makes QFPay redeliver the notification later
+      return new NextResponse('FAIL', { status: 500 })
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/qfpay/notify',
+    method: 'POST',
+    description: 'Receive QFPay asynchronous payment and subscription notifications',
+    required_headers: ['X-QF-SIGN'],
+    optional_headers: ['X-QF-APPCODE', 'X-QF-SIGNTYPE'],
+    response: ACKNOWLEDGE
+  })
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildOpenAPIDocument } from '@/lib/qfpay/openapi'
+
+/**
+ * OpenAPI 3 document for the /api/qfpay/* routes, generated from their request schemas
+ * GET /api/qfpay/openapi.json
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenAPIDocument(request.nextUrl.origin))
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveRecord } from '@/lib/qfpay/store'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { PRODUCT_ID_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to archive (deactivate) a QFPay product
+ * POST /api/qfpay/product/archive
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(PRODUCT_ID_SCHEMA, body)
+      const { product_id, profileId } = body
+
+      log.info('Archiving QFPay product', { product_id })
+
+      const { client, profile } = createProfileClient(profileId)
+      const responseData = await client.archiveProduct({ product_id: product_id.toString() })
+
+      // Archived products stay queryable but can no longer be subscribed to
+      const product = {
+        product_id: product_id.toString(),
+        state: (responseData.data?.state as string) || 'archived',
+        updated_at: responseData.sysdtm,
+        raw_response: responseData
+      }
+
+      saveRecord('product', product.product_id, { environment: client.environment, appcode: profile.appcode }, product)
+
+      log.info('Product archived successfully', { product_id: product.product_id })
+
+      return apiSuccess(product, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Product archive failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/product/archive'))
+}
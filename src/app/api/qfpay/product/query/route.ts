@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QueryProductsParams } from '@/lib/qfpay/client'
+import { normalizeProduct } from '@/lib/qfpay/products'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { QUERY_PRODUCTS_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to query QFPay products
+ * POST /api/qfpay/product/query
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(QUERY_PRODUCTS_SCHEMA, body)
+      const { profileId } = body
+
+      // Prepare QFPay API request parameters
+      const requestParams: QueryProductsParams = {}
+
+      // Add optional parameters if provided
+      if (body.page) requestParams.page = body.page.toString()
+      if (body.page_size) requestParams.page_size = body.page_size.toString()
+      if (body.product_id) requestParams.product_id = body.product_id.toString()
+      if (body.type) requestParams.type = body.type.toString()
+      if (body.txcurrcd) requestParams.txcurrcd = body.txcurrcd.toString()
+      if (body.state) requestParams.state = body.state.toString()
+
+      log.info('Querying QFPay products', { params: requestParams })
+
+      const { client } = createProfileClient(profileId)
+      const responseData = await client.queryProducts(requestParams)
+
+      // Return successful product query response
+      const queryResult = {
+        products: (responseData.data || []).map(normalizeProduct),
+        total_count: Number(responseData.total_count) || 0,
+        page: parseInt(requestParams.page || '1'),
+        page_size: parseInt(requestParams.page_size || '10'),
+        query_params: requestParams,
+        raw_response: responseData
+      }
+
+      log.info('Product query successful', { results: queryResult.products.length })
+
+      return apiSuccess(queryResult, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Product query failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/product/query'))
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateProductParams } from '@/lib/qfpay/client'
+import { saveRecord } from '@/lib/qfpay/store'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { UPDATE_PRODUCT_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to update a QFPay product's name or description
+ * POST /api/qfpay/product/update
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(UPDATE_PRODUCT_SCHEMA, body)
+      const { product_id, profileId } = body
+
+      // Prepare QFPay API request parameters
+      const requestParams: UpdateProductParams = {
+        product_id: product_id.toString()
+      }
+      if (body.name !== undefined) requestParams.name = body.name.toString().trim()
+      if (body.description !== undefined) requestParams.description = body.description.toString()
+
+      log.info('Updating QFPay product', { params: requestParams })
+
+      const { client, profile } = createProfileClient(profileId)
+      const responseData = await client.updateProduct(requestParams)
+
+      // Only the fields we changed are returned; callers merge them into their copy
+      const product = {
+        ...requestParams,
+        updated_at: responseData.sysdtm,
+        raw_response: responseData
+      }
+
+      saveRecord('product', product.product_id, { environment: client.environment, appcode: profile.appcode }, product)
+
+      log.info('Product updated successfully', { product_id: product.product_id })
+
+      return apiSuccess(product, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Product update failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/product/update'))
+}
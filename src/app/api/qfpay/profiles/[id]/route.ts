@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server'
+import { deleteProfile, getProfile, updateProfile } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess } from '@/lib/qfpay/api-response'
+import { UPDATE_PROFILE_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(action: string, error: unknown) {
+  log.error(`Profile ${action} failed`, { error })
+  return apiErrorFromException(error)
+}
+
+/**
+ * API endpoint to fetch one merchant profile (without its client key)
+ * GET /api/qfpay/profiles/<id>
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const { id } = await params
+      return apiSuccess(getProfile(id))
+    } catch (error) {
+      return errorResponse('lookup', error)
+    }
+  })
+}
+
+/**
+ * API endpoint to update a stored merchant profile
+ * PATCH /api/qfpay/profiles/<id>
+ * Omit clientKey to keep the stored key.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const { id } = await params
+      const body = await request.json()
+
+      validateInput(UPDATE_PROFILE_SCHEMA, body)
+      const profile = updateProfile(id, {
+        name: body.name,
+        appcode: body.appcode,
+        clientKey: body.clientKey || undefined,
+        environment: body.environment,
+        sign_type: body.sign_type,
+        response_verification: body.response_verification
+      })
+
+      return apiSuccess(profile)
+    } catch (error) {
+      return errorResponse('update', error)
+    }
+  })
+}
+
+/**
+ * API endpoint to delete a stored merchant profile
+ * DELETE /api/qfpay/profiles/<id>
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const { id } = await params
+      deleteProfile(id)
+      return apiSuccess({ profile_id: id })
+    } catch (error) {
+      return errorResponse('deletion', error)
+    }
+  })
+}
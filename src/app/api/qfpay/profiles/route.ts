@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server'
+import { createProfile, listProfiles } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess } from '@/lib/qfpay/api-response'
+import { CREATE_PROFILE_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to list merchant profiles (client keys are never returned)
+ * GET /api/qfpay/profiles
+ */
+export async function GET(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const profiles = listProfiles()
+
+      return apiSuccess({ profiles })
+
+    } catch (error) {
+      log.error('Profile listing failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+/**
+ * API endpoint to store a merchant profile in the encrypted vault
+ * POST /api/qfpay/profiles
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(CREATE_PROFILE_SCHEMA, body)
+      const profile = createProfile({
+        name: body.name,
+        appcode: body.appcode,
+        clientKey: body.clientKey,
+        environment: body.environment,
+        sign_type: body.sign_type,
+        response_verification: body.response_verification
+      })
+
+      return apiSuccess(profile)
+
+    } catch (error) {
+      log.error('Profile creation failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
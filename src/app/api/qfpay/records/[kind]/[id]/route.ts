@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import { RecordKind, getRecord } from '@/lib/qfpay/store'
+import { apiError, apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { RECORD_PATH_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+interface RouteContext {
+  params: Promise<{ kind: string; id: string }>
+}
+
+/**
+ * API endpoint to fetch one recorded object (add ?include_raw=true for its raw QFPay response)
+ * GET /api/qfpay/records/<kind>/<id>
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const { kind, id } = await params
+      validateInput(RECORD_PATH_SCHEMA, { kind, id })
+
+      const record = getRecord(kind as RecordKind, id)
+      if (!record) {
+        return apiError('not_found', `No ${kind} record with id ${id}`, 404)
+      }
+
+      return apiSuccess(record, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Record lookup failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { RecordKind, listRecords } from '@/lib/qfpay/store'
+import { getProfile } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { LIST_RECORDS_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to list objects recorded in the local store
+ * GET /api/qfpay/records?kind=customer&profileId=...
+ * `profileId` scopes the list to that profile's appcode and environment.
+ */
+export async function GET(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const searchParams = request.nextUrl.searchParams
+      validateInput(LIST_RECORDS_SCHEMA, Object.fromEntries(searchParams))
+      const kind = (searchParams.get('kind') || undefined) as RecordKind | undefined
+
+      const profileId = searchParams.get('profileId')
+      const profile = profileId ? getProfile(profileId) : null
+
+      const records = listRecords({
+        kind,
+        environment: profile?.environment || searchParams.get('environment') || undefined,
+        appcode: profile?.appcode || searchParams.get('appcode') || undefined,
+        includeDeleted: searchParams.get('include_deleted') === 'true'
+      })
+
+      return apiSuccess({ records, total_count: records.length }, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Record listing failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRefund } from '@/lib/qfpay/refunds'
+import { IDEMPOTENCY_HEADER, idempotencyScope, stableTradeNo, withIdempotency } from '@/lib/qfpay/idempotency'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { CREATE_REFUND_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to refund all or part of a QFPay transaction
+ * POST /api/qfpay/refund/create
+ * With an Idempotency-Key header the refund's out_trade_no is derived from the key and retries return the first result.
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(CREATE_REFUND_SCHEMA, body)
+      const { profileId, syssn, out_trade_no, txamt } = body
+
+      const refundRequest = {
+        syssn: syssn ? syssn.toString() : null,
+        out_trade_no: out_trade_no ? out_trade_no.toString() : null,
+        txamt: Number(txamt)
+      }
+
+      log.info('Creating QFPay refund', { refundRequest })
+
+      const { client, profile } = createProfileClient(profileId)
+      const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER)
+      const scope = idempotencyScope(profile, 'refund')
+
+      const { result, replayed } = await withIdempotency(scope, idempotencyKey, refundRequest, () => createRefund(client, { environment: client.environment, appcode: profile.appcode }, {
+        ...refundRequest,
+        refund_out_trade_no: idempotencyKey ? stableTradeNo('RF', scope, idempotencyKey) : undefined
+      }))
+
+      log.info(replayed ? 'Refund replayed for idempotency key' : 'Refund created successfully', { refund_out_trade_no: result.refund.refund_out_trade_no, txamt: result.refund.txamt })
+
+      return apiSuccess(result, { includeRaw: includeRawResponse(request), replayed })
+
+    } catch (error) {
+      log.error('Refund failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/refund/create'))
+}
@@ -1,127 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateQFPaySignature } from '../../../../actions'
+import { QuerySubscriptionsParams } from '@/lib/qfpay/client'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { QUERY_SUBSCRIPTIONS_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
 
 /**
  * API endpoint to query QFPay subscriptions
  * POST /api/qfpay/subscription/query
  */
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
     
-    // Validate required APPCODE
-    const { appcode } = body
-    if (!appcode) {
-      return NextResponse.json({
-        success: false,
-        error: 'Missing required field: appcode'
-      }, { status: 400 })
-    }
+      validateInput(QUERY_SUBSCRIPTIONS_SCHEMA, body)
+      const { profileId } = body
 
-    // Prepare QFPay API request parameters
-    const requestParams: Record<string, string> = {}
+      // Prepare QFPay API request parameters
+      const requestParams: QuerySubscriptionsParams = {}
 
-    // Add optional parameters if provided
-    if (body.page) requestParams.page = body.page.toString()
-    if (body.page_size) requestParams.page_size = body.page_size.toString()
-    if (body.subscription_id) requestParams.subscription_id = body.subscription_id.toString()
-    if (body.customer_id) requestParams.customer_id = body.customer_id.toString()
-    if (body.state) requestParams.state = body.state.toString()
+      // Add optional parameters if provided
+      if (body.page) requestParams.page = body.page.toString()
+      if (body.page_size) requestParams.page_size = body.page_size.toString()
+      if (body.subscription_id) requestParams.subscription_id = body.subscription_id.toString()
+      if (body.customer_id) requestParams.customer_id = body.customer_id.toString()
+      if (body.state) requestParams.state = body.state.toString()
 
-    console.log('[API] Querying QFPay subscriptions:', JSON.stringify(requestParams, null, 2))
+      log.info('Querying QFPay subscriptions', { params: requestParams })
 
-    // Generate signature
-    const signatureResult = await generateQFPaySignature(requestParams, appcode, 'MD5', body.secretKey || null)
-    
-    if (!signatureResult.success) {
-      return NextResponse.json({
-        success: false,
-        error: `Subscription query signature generation failed: ${signatureResult.error}`
-      }, { status: 500 })
-    }
+      const { client } = createProfileClient(profileId)
+      const responseData = await client.querySubscriptions(requestParams)
 
-    // Prepare form data for QFPay API
-    const formData = new URLSearchParams()
-    Object.keys(requestParams).forEach(key => {
-      formData.append(key, requestParams[key])
-    })
+      // Return successful subscription query response
+      const queryResult = {
+        subscriptions: responseData.data || [],
+        total_count: responseData.total_count || 0,
+        page: parseInt(requestParams.page || '1'),
+        page_size: parseInt(requestParams.page_size || '10'),
+        query_params: requestParams,
+        raw_response: responseData
+      }
 
-    // Call QFPay subscription query API
-    const baseURL = 'https://openapi-int.qfapi.com'
-    const endpoint = '/subscription/v1/query'
+      log.info('Subscription query successful', { results: queryResult.subscriptions.length })
     
-    const response = await fetch(`${baseURL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        ...signatureResult.headers,
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json'
-      },
-      body: formData.toString()
-    })
+      return apiSuccess(queryResult, { includeRaw: includeRawResponse(request) })
 
-    const responseData = await response.json()
-    console.log('[API] QFPay Subscription Query API Response:', JSON.stringify(responseData, null, 2))
-
-    // Check if API call was successful
-    if (!response.ok) {
-      return NextResponse.json({
-        success: false,
-        error: `QFPay Subscription Query API error: ${response.status} ${response.statusText}`,
-        details: responseData
-      }, { status: response.status })
-    }
-
-    // Check QFPay response code
-    if (responseData.respcd !== '0000') {
-      return NextResponse.json({
-        success: false,
-        error: `QFPay Subscription Query error: ${responseData.respcd} - ${responseData.respmsg || 'Unknown error'}`,
-        details: responseData
-      }, { status: 400 })
-    }
+    } catch (error) {
+      log.error('Subscription query failed', { error })
 
-    // Return successful subscription query response
-    const queryResult = {
-      subscriptions: responseData.data || [],
-      total_count: responseData.total_count || 0,
-      page: parseInt(requestParams.page || '1'),
-      page_size: parseInt(requestParams.page_size || '10'),
-      query_params: requestParams,
-      raw_response: responseData
+      return apiErrorFromException(error)
     }
-
-    console.log('[API] Subscription query successful:', queryResult.subscriptions.length, 'results')
-    
-    return NextResponse.json({
-      success: true,
-      result: queryResult
-    })
-
-  } catch (error) {
-    console.error('[API] Subscription query failed:', error)
-    
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      details: error instanceof Error ? error.stack : undefined
-    }, { status: 500 })
-  }
+  })
 }
 
 // GET endpoint for testing API availability
 export async function GET() {
-  return NextResponse.json({
-    endpoint: '/api/qfpay/subscription/query',
-    method: 'POST',
-    description: 'Query existing QFPay subscriptions with optional filters',
-    optional_fields: ['page', 'page_size', 'subscription_id', 'customer_id', 'state', 'secretKey'],
-    required_fields: ['appcode'],
-    response_format: {
-      subscriptions: 'Array of subscription objects',
-      total_count: 'Total number of subscriptions',
-      page: 'Current page number',
-      page_size: 'Items per page'
-    }
-  })
+  return NextResponse.json(describeOperation('POST /api/qfpay/subscription/query'))
 }
\ No newline at end of file
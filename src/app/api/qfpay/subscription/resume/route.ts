@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveRecord } from '@/lib/qfpay/store'
+import { changeSubscriptionState } from '@/lib/qfpay/subscriptions'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { SUBSCRIPTION_ID_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to resume a QFPay subscription
+ * POST /api/qfpay/subscription/resume
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(SUBSCRIPTION_ID_SCHEMA, body)
+      const { subscription_id, profileId } = body
+
+      log.info('Resuming QFPay subscription', { subscription_id })
+
+      const { client, profile } = createProfileClient(profileId)
+      const subscription = await changeSubscriptionState(client, 'resume', subscription_id.toString())
+
+      saveRecord('subscription', subscription.subscription_id, { environment: client.environment, appcode: profile.appcode }, subscription)
+
+      log.info('Subscription resumed', { subscription_id: subscription.subscription_id, state: subscription.state })
+
+      return apiSuccess(subscription, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Subscription resume failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/subscription/resume'))
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchTransactionStatus } from '@/lib/qfpay/transactions'
+import { createProfileClient } from '@/lib/qfpay/vault'
+import { apiErrorFromException, apiSuccess, includeRawResponse } from '@/lib/qfpay/api-response'
+import { describeOperation } from '@/lib/qfpay/openapi'
+import { QUERY_TRANSACTION_SCHEMA } from '@/lib/qfpay/schemas'
+import { validateInput } from '@/lib/qfpay/validation'
+import { createLogger } from '@/lib/qfpay/logger'
+import { TRACE_HEADER, runWithTrace } from '@/lib/qfpay/trace'
+
+const log = createLogger('API')
+
+/**
+ * API endpoint to query a QFPay transaction status
+ * POST /api/qfpay/transaction/query
+ */
+export async function POST(request: NextRequest) {
+  return runWithTrace(request.headers.get(TRACE_HEADER), async () => {
+    try {
+      const body = await request.json()
+
+      validateInput(QUERY_TRANSACTION_SCHEMA, body)
+      const { profileId, syssn, out_trade_no, payment_intent_id } = body
+
+      const lookup = {
+        syssn: syssn ? syssn.toString() : null,
+        out_trade_no: out_trade_no ? out_trade_no.toString() : null,
+        payment_intent_id: payment_intent_id ? payment_intent_id.toString() : null
+      }
+
+      log.info('Querying QFPay transaction', { lookup })
+
+      const { client } = createProfileClient(profileId)
+      const { transaction, raw_response } = await fetchTransactionStatus(client, lookup)
+
+      log.info('Transaction status', { status: transaction.status, syssn: transaction.syssn, out_trade_no: transaction.out_trade_no })
+
+      return apiSuccess({ ...transaction, raw_response }, { includeRaw: includeRawResponse(request) })
+
+    } catch (error) {
+      log.error('Transaction query failed', { error })
+
+      return apiErrorFromException(error)
+    }
+  })
+}
+
+// GET endpoint for testing API availability
+export async function GET() {
+  return NextResponse.json(describeOperation('POST /api/qfpay/transaction/query'))
+}
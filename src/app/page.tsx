@@ -1,7 +1,18 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
-import { createCustomer, createPaymentIntent, createMockToken } from './actions'
+import Link from 'next/link'
+import { ApiRequestError, ApiRouteData, GatewayHealthData, ProductData, StoredRecordData, SubscriptionData, SubscriptionQueryData, TRACE_HEADER, readApiResponse } from '@/lib/qfpay/api'
+import { SUPPORTED_CURRENCIES, amountStep, currencyExponent, describeCurrency, formatAmount, fromMinorUnits, rescaleMinorUnits, toMinorUnits } from '@/lib/qfpay/currency'
+import type { CustomerRecord } from '@/lib/qfpay/customers'
+import type { OutboundCall } from '@/lib/qfpay/inspector'
+import type { RefundRecord } from '@/lib/qfpay/refunds'
+import { RESPCD_CATEGORY_LABELS, describeRespcd, summarizeRespcd } from '@/lib/qfpay/respcd'
+import { TERMINAL_TRANSACTION_STATUSES, TransactionResult } from '@/lib/qfpay/transactions'
+import type { FieldErrors } from '@/lib/qfpay/validation'
+import type { MerchantProfile, ProfileEnvironment } from '@/lib/qfpay/vault'
+import { createCustomer, createPaymentIntent, createTokenIntent, deleteCustomer, queryCustomers, queryTransaction, recordCardToken, refundTransaction, updateCustomer } from './actions'
+import { SDK_ENVIRONMENT_EVENT, SDK_READY_EVENT } from './SDKLoader'
 import styles from './styles.module.css'
 
 interface LogEntry {
@@ -9,15 +20,8 @@ interface LogEntry {
   timestamp: string
   message: string
   type: 'info' | 'success' | 'error'
-}
-
-interface Customer {
-  customer_id: string
-  name?: string
-  email?: string
-  phone?: string
-  created_at?: string
-  [key: string]: unknown
+  profile?: string  // Name of the merchant profile the action ran under
+  traceId?: string  // Trace id of the user action, also on the server log lines it caused
 }
 
 interface QFPayInstance {
@@ -40,39 +44,6 @@ interface QFPayResponse {
   [key: string]: unknown
 }
 
-interface Product {
-  product_id?: string
-  name: string
-  type: string
-  txamt: number
-  txcurrcd: string
-  interval?: string
-  interval_count?: number
-  description?: string
-  created_at?: string
-}
-
-interface Subscription {
-  subscription_id: string
-  customer_id: string
-  token_id: string
-  products: Array<{ product_id: string; quantity: number }>
-  state: string
-  created_at?: string
-  next_billing_time?: string
-  last_billing_time?: string
-  completed_billing_iteration?: number
-  total_billing_cycles?: number
-  start_time?: string
-}
-
-interface SubscriptionQueryResult {
-  subscriptions: Subscription[]
-  total_count: number
-  page: number
-  page_size: number
-}
-
 interface Token {
   token_id: string
   customer_id: string | null
@@ -84,18 +55,51 @@ interface Token {
 }
 
 interface Config {
-  environment: 'qa' | 'test' | 'live'
+  environment: ProfileEnvironment  // Follows the selected merchant profile
   customerName: string
   customerEmail: string
   customerId: string
-  appcode: string
-  secretKey: string
-  tokenExpiry: string  // User input string (e.g., "15 minutes", "2024-12-01 10:30", etc.)
+  profileId: string  // Credentials live in the server-side vault; only the profile id is kept here
+  tokenExpiry: string  // QFPay's `YYYY-MM-DD HH:mm:ss`, sent as intent_expiry
   intentType: 'payment'
   amount: number
   currency: string
 }
 
+const ENVIRONMENT_LABELS: Record<Config['environment'], string> = {
+  qa: 'QA/Sandbox (Testing)',
+  test: 'Live Test Environment',
+  live: 'Production (Live)',
+  mock: 'Local Mock (Offline)'
+}
+
+// Forms whose inputs are highlighted when the route rejects a field
+type ValidatedForm = 'product' | 'subscription' | 'query'
+
+// <input type="datetime-local"> gives `YYYY-MM-DDTHH:mm`; QFPay wants `YYYY-MM-DD HH:mm:ss`
+function toQFPayDateTime(value: string) {
+  const dateTime = value.trim().replace('T', ' ')
+  return dateTime.length === 16 ? `${dateTime}:00` : dateTime
+}
+
+// Why a typed amount couldn't be converted to minor units
+function amountInputHint(currency: string) {
+  const exponent = currencyExponent(currency)
+  return exponent === 0
+    ? `must be a whole number of ${currency} (it has no minor unit)`
+    : `must be a number with at most ${exponent} decimal places`
+}
+
+function renderCurrencyOptions() {
+  return SUPPORTED_CURRENCIES.map(code => (
+    <option key={code} value={code}>{describeCurrency(code)?.name || code}</option>
+  ))
+}
+
+// Transaction status polling after confirmPayment()
+const POLL_INTERVAL_MS = 2000
+const POLL_MAX_ATTEMPTS = 30
+
 declare global {
   interface Window {
     QFpay?: {
@@ -109,22 +113,43 @@ export default function QFPayMinimal() {
   
   const [logs, setLogs] = useState<LogEntry[]>([])
   const [qfpay, setQfpay] = useState<QFPayInstance | null>(null)
-  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [customer, setCustomer] = useState<CustomerRecord | null>(null)
+  const [customerLookup, setCustomerLookup] = useState<{ by: 'email' | 'phone' | 'customer_id'; value: string }>({
+    by: 'email',
+    value: ''
+  })
+  const [customerResults, setCustomerResults] = useState<CustomerRecord[]>([])
+  const [editingCustomer, setEditingCustomer] = useState<{ customer_id: string; name: string; email: string; phone: string } | null>(null)
   const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null)
+  const [outTradeNo, setOutTradeNo] = useState<string | null>(null)
+  const [transaction, setTransaction] = useState<TransactionResult | null>(null)
+  const [isPolling, setIsPolling] = useState(false)
+  const pollingRef = useRef(false)
+  const traceRef = useRef<string | null>(null)
+  const traceJoinableRef = useRef(false)
+  const idempotencyKeysRef = useRef<Record<string, { key: string; inputs: string }>>({})
+  const [refunds, setRefunds] = useState<RefundRecord[]>([])
+  const [refundableRemaining, setRefundableRemaining] = useState<number | null>(null)
+  const [refundForm, setRefundForm] = useState({
+    syssn: '',
+    amount: '' // in major units, e.g. 1.50
+  })
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<ValidatedForm, FieldErrors>>>({})
   
   // Recurring payment states
-  const [products, setProducts] = useState<Product[]>([])
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const [products, setProducts] = useState<ProductData[]>([])
+  const [subscriptions, setSubscriptions] = useState<SubscriptionData[]>([])
   const [token, setToken] = useState<Token | null>(null)
-  const [queryResult, setQueryResult] = useState<SubscriptionQueryResult | null>(null)
+  const [tokenIntentId, setTokenIntentId] = useState<string | null>(null)
+  const [queryResult, setQueryResult] = useState<SubscriptionQueryData | null>(null)
   
   // User input states for recurring payments
   const [productForm, setProductForm] = useState({
     name: '',
     type: 'recurring',
-    txamt: '999', // in cents
+    txamt: '9.99', // in major units of txcurrcd
     txcurrcd: 'HKD',
     interval: 'monthly',
     interval_count: '1',
@@ -139,6 +164,41 @@ export default function QFPayMinimal() {
     start_time: ''
   })
 
+  const [productQuery, setProductQuery] = useState({
+    type: '',
+    txcurrcd: '',
+    page: '1',
+    page_size: '10'
+  })
+  const [productTotal, setProductTotal] = useState<number | null>(null)
+  const [editingProduct, setEditingProduct] = useState<{ product_id: string; name: string; description: string } | null>(null)
+
+  const [profiles, setProfiles] = useState<MerchantProfile[]>([])
+  const [profileForm, setProfileForm] = useState({
+    name: '',
+    appcode: '',
+    clientKey: '',
+    environment: 'qa' as Config['environment'],
+    sign_type: 'MD5' as MerchantProfile['sign_type'],
+    response_verification: 'strict' as MerchantProfile['response_verification']
+  })
+  const [editingProfile, setEditingProfile] = useState<{
+    id: string
+    name: string
+    appcode: string
+    clientKey: string  // Left empty to keep the stored key
+    environment: Config['environment']
+    sign_type: MerchantProfile['sign_type']
+    response_verification: MerchantProfile['response_verification']
+  } | null>(null)
+
+  const [storedRecords, setStoredRecords] = useState<StoredRecordData[]>([])
+  const [outboundCalls, setOutboundCalls] = useState<OutboundCall[]>([])
+  const [expandedCallId, setExpandedCallId] = useState<string | null>(null)
+  const [callTraceFilter, setCallTraceFilter] = useState('')
+  const [gatewayHealth, setGatewayHealth] = useState<GatewayHealthData | null>(null)
+  const [recordKindFilter, setRecordKindFilter] = useState<'' | StoredRecordData['kind']>('')
+
   const [queryForm, setQueryForm] = useState({
     subscription_id: '',
     customer_id: '',
@@ -158,8 +218,7 @@ export default function QFPayMinimal() {
       customerName: '',
       customerEmail: '',
       customerId: '',
-      appcode: '',
-      secretKey: '',
+      profileId: '',
       tokenExpiry: defaultExpiry,
       intentType: 'payment',
       amount: 500,
@@ -167,22 +226,77 @@ export default function QFPayMinimal() {
     }
   })
   
-  // Log handler
-  const addLog = (message: string, type: 'info' | 'success' | 'error' = 'info') => {
+  // Log handler. Entries are tagged with the profile active when the calling handler started
+  // and with the trace id of the current user action.
+  const addLog = (
+    message: string,
+    type: 'info' | 'success' | 'error' = 'info',
+    { profileId = config.profileId, traceId = traceRef.current }: { profileId?: string; traceId?: string | null } = {}
+  ) => {
+    const profile = profileId ? profiles.find(item => item.id === profileId)?.name || profileId : undefined
     const logEntry = {
       timestamp: new Date().toISOString(),
       message,
       type,
+      profile,
+      traceId: traceId || undefined,
       id: Date.now() + Math.random()
     }
     setLogs(prev => [logEntry, ...prev])
-    console.log(`[QFPay Minimal] ${type.toUpperCase()}: ${message}`)
+    console.log(`[QFPay Minimal] ${type.toUpperCase()}${profile ? ` [${profile}]` : ''}${traceId ? ` (trace ${traceId})` : ''}: ${message}`)
+  }
+
+  // Start the trace for a user action. Its id goes to the server with every call the action makes.
+  // Handlers invoked synchronously by another handler (e.g. loadProducts from selectProfile) join its trace.
+  const beginTrace = () => {
+    if (traceRef.current && traceJoinableRef.current) {
+      return traceRef.current
+    }
+
+    const traceId = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => byte.toString(16).padStart(2, '0')).join('')
+    traceRef.current = traceId
+    traceJoinableRef.current = true
+    queueMicrotask(() => {
+      traceJoinableRef.current = false
+    })
+    return traceId
+  }
+
+  // Field-level messages from a rejected request are shown on the form that sent it
+  const showFieldErrors = (form: ValidatedForm, error: unknown) => {
+    setFieldErrors(prev => ({ ...prev, [form]: error instanceof ApiRequestError ? error.fields : undefined }))
+  }
+
+  const invalidInputStyle = (form: ValidatedForm, field: string) =>
+    fieldErrors[form]?.[field] ? { borderColor: '#dc2626', background: '#fef2f2' } : {}
+
+  const renderFieldError = (form: ValidatedForm, field: string) => fieldErrors[form]?.[field] && (
+    <div style={{ color: '#dc2626', fontSize: '12px', marginTop: '3px' }}>{fieldErrors[form]?.[field]}</div>
+  )
+
+  // Idempotency key for an operation: reused while the same inputs are retried after a failure
+  // (so QFPay sees the same out_trade_no), replaced when the inputs change or the operation succeeds
+  const idempotencyKeyFor = (operation: string, inputs: unknown) => {
+    const serialized = JSON.stringify(inputs)
+    const current = idempotencyKeysRef.current[operation]
+    if (current && current.inputs === serialized) {
+      return current.key
+    }
+    const key = crypto.randomUUID()
+    idempotencyKeysRef.current[operation] = { key, inputs: serialized }
+    return key
+  }
+
+  const settleIdempotencyKey = (operation: string) => {
+    delete idempotencyKeysRef.current[operation]
   }
   
   // Initialize QFPay SDK
   const initializeQFPay = async () => {
+    beginTrace()
+
     if (!window.QFpay) {
-      setError(`QFPay SDK not loaded for ${config.environment} environment. Please refresh the page.`)
+      setError(`QFPay SDK not loaded yet for ${config.environment} environment. Please wait a moment and retry.`)
       return
     }
     
@@ -196,13 +310,15 @@ export default function QFPayMinimal() {
       const regionMap = {
         'qa': 'qa',
         'test': 'hk', 
-        'live': 'hk'
+        'live': 'hk',
+        'mock': 'qa'
       }
       
       const envMap = {
         'qa': 'qa',
         'test': 'test',
-        'live': 'prod'
+        'live': 'prod',
+        'mock': 'qa'
       }
       
       const qfpayInstance = window.QFpay.config({
@@ -225,8 +341,10 @@ export default function QFPayMinimal() {
   
   // Create customer first
   const createCustomerRecord = async () => {
-    if (!config.appcode.trim()) {
-      setError('APPCODE is required for customer creation')
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for customer creation')
       return
     }
     
@@ -244,9 +362,8 @@ export default function QFPayMinimal() {
       
       const result = await createCustomer(
         customerData,
-        config.appcode,
-        config.secretKey,
-        config.environment
+        config.profileId,
+        traceId
       )
       console.log('Customer Creation Result:', result)
       
@@ -259,7 +376,7 @@ export default function QFPayMinimal() {
         throw new Error('No customer data returned')
       }
       
-      setCustomer(customerRecord as Customer)
+      setCustomer(customerRecord)
       
       addLog(`Customer created: ${customerRecord.customer_id}`, 'success')
       addLog(`Customer name: ${customerRecord.name}`, 'info')
@@ -279,15 +396,146 @@ export default function QFPayMinimal() {
     }
   }
   
+  // Look up existing customers by email, phone or id (empty search lists the first page)
+  const searchCustomers = async () => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('Select a merchant profile first')
+      return
+    }
+    
+    setIsLoading(true)
+    setError(null)
+    
+    try {
+      const value = customerLookup.value.trim()
+      addLog(value ? `Searching customers by ${customerLookup.by}: ${value}` : 'Listing customers...', 'info')
+      
+      const result = await queryCustomers(
+        value ? { [customerLookup.by]: value } : {},
+        config.profileId,
+        traceId
+      )
+      
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      
+      setCustomerResults((result.customers || []) as CustomerRecord[])
+      addLog(`Found ${result.customers?.length || 0} of ${result.total_count || 0} customers`, 'success')
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Customer search failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+  
+  // Use a looked-up customer for payments and subscriptions
+  const selectCustomer = (selected: CustomerRecord) => {
+    setCustomer(selected)
+    setConfig(prev => ({ ...prev, customerId: selected.customer_id }))
+    setSubscriptionForm(prev => ({ ...prev, customer_id: selected.customer_id }))
+    addLog(`Selected customer: ${selected.customer_id} (${selected.name || selected.email || 'no name'})`, 'info')
+  }
+  
+  // Save name/email/phone edits for a customer
+  const saveCustomerEdit = async () => {
+    const traceId = beginTrace()
+
+    if (!editingCustomer) return
+    
+    setIsLoading(true)
+    setError(null)
+    
+    try {
+      addLog(`Updating customer: ${editingCustomer.customer_id}`, 'info')
+      
+      const result = await updateCustomer(
+        editingCustomer.customer_id,
+        {
+          name: editingCustomer.name.trim(),
+          email: editingCustomer.email.trim(),
+          phone: editingCustomer.phone.trim()
+        },
+        config.profileId,
+        traceId
+      )
+      
+      if (!result.success || !result.customer) {
+        throw new Error(result.error || 'No customer data returned')
+      }
+      
+      const updated = result.customer
+      setCustomerResults(prev => prev.map(item => item.customer_id === updated.customer_id ? { ...item, ...updated } : item))
+      if (customer?.customer_id === updated.customer_id) {
+        setCustomer(prev => prev && { ...prev, ...updated })
+      }
+      setEditingCustomer(null)
+      addLog(`Customer updated: ${updated.customer_id}`, 'success')
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Customer update failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+  
+  // Delete a customer, clearing it from the config if it was selected
+  const removeCustomer = async (customerId: string) => {
+    const traceId = beginTrace()
+
+    if (!window.confirm(`Delete customer ${customerId}? This cannot be undone.`)) {
+      return
+    }
+    
+    setIsLoading(true)
+    setError(null)
+    
+    try {
+      addLog(`Deleting customer: ${customerId}`, 'info')
+      
+      const result = await deleteCustomer(customerId, config.profileId, traceId)
+      
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      
+      setCustomerResults(prev => prev.filter(item => item.customer_id !== customerId))
+      if (customer?.customer_id === customerId) {
+        setCustomer(null)
+      }
+      if (config.customerId === customerId) {
+        setConfig(prev => ({ ...prev, customerId: '' }))
+      }
+      setSubscriptionForm(prev => prev.customer_id === customerId ? { ...prev, customer_id: '' } : prev)
+      addLog(`Customer deleted: ${customerId}`, 'success')
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Customer deletion failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+  
   // Create payment intent 
   const setupPaymentIntent = async () => {
+    const traceId = beginTrace()
+
     if (!qfpay) {
       setError('QFPay not initialized')
       return
     }
     
-    if (!config.appcode.trim()) {
-      setError('APPCODE is required')
+    if (!config.profileId) {
+      setError('Select a merchant profile first')
       return
     }
     
@@ -298,19 +546,24 @@ export default function QFPayMinimal() {
       addLog('Creating payment intent via server...', 'info')
       
       // Create real payment intent with customer ID and token expiry
+      const idempotencyKey = idempotencyKeyFor('payment_intent', [config.profileId, config.amount, config.currency, config.customerId, config.tokenExpiry])
       const result = await createPaymentIntent(
         config.amount,
         config.currency,
-        config.appcode,
-        config.secretKey,
+        config.profileId,
         config.customerId || null,
         config.tokenExpiry || null,
-        config.environment
+        idempotencyKey,
+        traceId
       )
       console.log('Payment Intent Result:', result)
       if (!result.success) {
         throw new Error(result.error)
       }
+      settleIdempotencyKey('payment_intent')
+      if (result.replayed) {
+        addLog('Returned the payment intent from an earlier attempt (idempotent replay)', 'info')
+      }
       
       const paymentIntent = result.paymentIntent
       if (!paymentIntent) {
@@ -318,9 +571,12 @@ export default function QFPayMinimal() {
       }
       
       setPaymentIntentId(paymentIntent.payment_intent_id)
+      setOutTradeNo(paymentIntent.out_trade_no)
+      setTransaction(null)
       
       addLog(`Payment intent created: ${paymentIntent.payment_intent_id}`, 'success')
-      addLog(`Amount: ${paymentIntent.amount / 100} ${paymentIntent.currency}`, 'info')
+      addLog(`Merchant trade number: ${paymentIntent.out_trade_no}`, 'info')
+      addLog(`Amount: ${formatAmount(paymentIntent.amount, paymentIntent.currency)}`, 'info')
       addLog(`Expires: ${paymentIntent.expires_at || 'N/A'}`, 'info')
       
       // Step 2: initialize payment object
@@ -368,8 +624,10 @@ export default function QFPayMinimal() {
   
   // Create a product from form data
   const createCustomProduct = async () => {
-    if (!config.appcode) {
-      setError('APPCODE is required for product creation')
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for product creation')
       return
     }
 
@@ -378,51 +636,56 @@ export default function QFPayMinimal() {
       return
     }
 
+    const txamt = toMinorUnits(productForm.txamt, productForm.txcurrcd)
+    if (txamt === null) {
+      setFieldErrors(prev => ({ ...prev, product: { txamt: amountInputHint(productForm.txcurrcd) } }))
+      return
+    }
+
     setIsLoading(true)
     setError(null)
+    showFieldErrors('product', null)
     
     try {
       const productData = {
         name: productForm.name.trim(),
         type: productForm.type,
-        txamt: parseInt(productForm.txamt),
+        txamt,
         txcurrcd: productForm.txcurrcd,
-        interval: productForm.interval,
-        interval_count: parseInt(productForm.interval_count),
-        description: productForm.description.trim() || undefined
+        description: productForm.description.trim() || undefined,
+        // The billing interval only applies to recurring products
+        ...(productForm.type === 'recurring' ? {
+          interval: productForm.interval,
+          interval_count: productForm.interval_count.trim() || undefined
+        } : {})
       }
 
       addLog(`Creating custom product: ${productData.name}`, 'info')
 
       const response = await fetch('/api/qfpay/product/create', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
         body: JSON.stringify({
           ...productData,
-          appcode: config.appcode,
-          secretKey: config.secretKey
+          profileId: config.profileId
         })
       })
 
-      const result = await response.json()
+      const product = await readApiResponse<ApiRouteData['POST /api/qfpay/product/create']>(response)
       
-      if (!result.success) {
-        throw new Error(result.error)
-      }
-
-      setProducts(prev => [...prev, result.product])
-      addLog(`Product created: ${result.product.product_id}`, 'success')
-      addLog(`Product details: ${result.product.name} - ${result.product.txamt/100} ${result.product.txcurrcd}`, 'info')
+      setProducts(prev => [...prev, product])
+      addLog(`Product created: ${product.product_id}`, 'success')
+      addLog(`Product details: ${product.name} - ${formatAmount(product.txamt, product.txcurrcd)}`, 'info')
 
       // Auto-copy product ID to subscription form
-      setSubscriptionForm(prev => ({ ...prev, product_id: result.product.product_id }))
+      setSubscriptionForm(prev => ({ ...prev, product_id: product.product_id }))
       addLog('Product ID auto-copied to subscription form', 'info')
 
       // Reset form
       setProductForm({
         name: '',
         type: 'recurring',
-        txamt: '999',
+        txamt: '9.99',
         txcurrcd: 'HKD',
         interval: 'monthly',
         interval_count: '1',
@@ -433,15 +696,18 @@ export default function QFPayMinimal() {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       setError(errorMessage)
       addLog(`Product creation failed: ${errorMessage}`, 'error')
+      showFieldErrors('product', error)
     } finally {
       setIsLoading(false)
     }
   }
 
   // Create a product from sample data
-  const createProduct = async (productData: Product) => {
-    if (!config.appcode) {
-      setError('APPCODE is required for product creation')
+  const createProduct = async (productData: Omit<ProductData, 'product_id' | 'usage_type' | 'state' | 'created_at'>) => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for product creation')
       return
     }
 
@@ -453,26 +719,21 @@ export default function QFPayMinimal() {
 
       const response = await fetch('/api/qfpay/product/create', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
         body: JSON.stringify({
           ...productData,
-          appcode: config.appcode,
-          secretKey: config.secretKey
+          profileId: config.profileId
         })
       })
 
-      const result = await response.json()
+      const product = await readApiResponse<ApiRouteData['POST /api/qfpay/product/create']>(response)
       
-      if (!result.success) {
-        throw new Error(result.error)
-      }
-
-      setProducts(prev => [...prev, result.product])
-      addLog(`Product created: ${result.product.product_id}`, 'success')
-      addLog(`Product details: ${result.product.name} - ${result.product.txamt/100} ${result.product.txcurrcd}`, 'info')
+      setProducts(prev => [...prev, product])
+      addLog(`Product created: ${product.product_id}`, 'success')
+      addLog(`Product details: ${product.name} - ${formatAmount(product.txamt, product.txcurrcd)}`, 'info')
 
       // Auto-copy product ID to subscription form
-      setSubscriptionForm(prev => ({ ...prev, product_id: result.product.product_id }))
+      setSubscriptionForm(prev => ({ ...prev, product_id: product.product_id }))
       addLog('Product ID auto-copied to subscription form', 'info')
 
     } catch (error) {
@@ -484,214 +745,482 @@ export default function QFPayMinimal() {
     }
   }
 
-  // Generate mock token for testing
-  const createTokenRecord = async () => {
-    try {
-      addLog('Generating mock token for testing', 'info')
+  // Load the product catalog from QFPay (replaces the local list)
+  const loadProducts = async (activeConfig: Config = config, query = productQuery) => {
+    const traceId = beginTrace()
 
-      const result = await createMockToken()
+    if (!activeConfig.profileId) {
+      setError('A merchant profile is required to load products')
+      return
+    }
 
-      if (!result.success) {
-        throw new Error(result.error)
-      }
+    setIsLoading(true)
+    setError(null)
 
-      if (!result.token) {
-        throw new Error('No token data returned')
-      }
+    try {
+      addLog('Loading products from QFPay...', 'info')
 
-      const tokenData = result.token
-      const tokenRecord = {
-        ...tokenData,
-        customer_id: customer?.customer_id || null
+      const queryData: Record<string, unknown> = {
+        profileId: activeConfig.profileId,
+        page: parseInt(query.page) || 1,
+        page_size: parseInt(query.page_size) || 10
       }
+      if (query.type) queryData.type = query.type
+      if (query.txcurrcd) queryData.txcurrcd = query.txcurrcd
 
-      setToken(tokenRecord as Token)
-      addLog(`Mock token created: ${tokenData.token_id}`, 'success')
-      addLog(`Token details: ${tokenData.brand} ending in ${tokenData.last4}`, 'info')
+      const response = await fetch('/api/qfpay/product/query', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(queryData)
+      })
 
-      // Auto-copy token ID to subscription form
-      setSubscriptionForm(prev => ({ ...prev, token_id: tokenData.token_id }))
-      addLog('Token ID auto-copied to subscription form', 'info')
+      const result = await readApiResponse<ApiRouteData['POST /api/qfpay/product/query']>(response)
+
+      setProducts(result.products)
+      setProductTotal(result.total_count)
+      addLog(`Loaded ${result.products.length} of ${result.total_count} products`, 'success')
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       setError(errorMessage)
-      addLog(`Token creation failed: ${errorMessage}`, 'error')
+      addLog(`Product query failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
     }
   }
 
-  // Create subscription from form data
-  const createCustomSubscription = async () => {
-    if (!config.appcode) {
-      setError('APPCODE is required for subscription creation')
-      return
-    }
+  // Change product filters or page and reload
+  const changeProductQuery = (changes: Partial<typeof productQuery>) => {
+    const query = { ...productQuery, ...changes }
+    setProductQuery(query)
+    loadProducts(config, query)
+  }
 
-    if (!subscriptionForm.customer_id.trim()) {
-      setError('Customer ID is required for subscription creation')
-      return
-    }
+  // Save an inline name/description edit
+  const saveProductEdit = async () => {
+    const traceId = beginTrace()
 
-    if (!subscriptionForm.product_id.trim()) {
-      setError('Product ID is required for subscription creation')
-      return
-    }
+    if (!editingProduct) return
 
-    if (!subscriptionForm.token_id.trim()) {
-      setError('Token ID is required for subscription creation')
+    if (!editingProduct.name.trim()) {
+      setError('Product name is required')
       return
     }
 
     setIsLoading(true)
     setError(null)
-    
-    try {
-      addLog(`Creating subscription with custom parameters`, 'info')
 
-      const subscriptionData = {
-        customer_id: subscriptionForm.customer_id.trim(),
-        token_id: subscriptionForm.token_id.trim(),
-        products: [
-          {
-            product_id: subscriptionForm.product_id.trim(),
-            quantity: 1
-          }
-        ],
-        total_billing_cycles: subscriptionForm.total_billing_cycles ? parseInt(subscriptionForm.total_billing_cycles) : undefined,
-        start_time: subscriptionForm.start_time.trim() || new Date().toISOString().replace(/T/, " ").replace(/\..+/, ""),
-        appcode: config.appcode,
-        secretKey: config.secretKey
-      }
+    try {
+      addLog(`Updating product: ${editingProduct.product_id}`, 'info')
 
-      const response = await fetch('/api/qfpay/subscription/create', {
+      const response = await fetch('/api/qfpay/product/update', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(subscriptionData)
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify({
+          product_id: editingProduct.product_id,
+          name: editingProduct.name.trim(),
+          description: editingProduct.description.trim(),
+          profileId: config.profileId
+        })
       })
 
-      const result = await response.json()
-      
-      if (!result.success) {
-        throw new Error(result.error)
-      }
+      const result = await readApiResponse<ApiRouteData['POST /api/qfpay/product/update']>(response)
 
-      setSubscriptions(prev => [...prev, result.subscription])
-      addLog(`Subscription created: ${result.subscription.subscription_id}`, 'success')
-      addLog(`Subscription state: ${result.subscription.state}`, 'info')
+      setProducts(prev => prev.map(product => product.product_id === editingProduct.product_id
+        ? { ...product, name: result.name ?? product.name, description: result.description || null }
+        : product
+      ))
+      setEditingProduct(null)
+      addLog(`Product updated: ${editingProduct.product_id}`, 'success')
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       setError(errorMessage)
-      addLog(`Subscription creation failed: ${errorMessage}`, 'error')
+      addLog(`Product update failed: ${errorMessage}`, 'error')
     } finally {
       setIsLoading(false)
     }
   }
 
-  // Create subscription from product card (quick action)
-  const createSubscription = async (productId: string) => {
-    if (!customer || !token || !config.appcode) {
-      setError('Customer, token, and APPCODE are required for subscription creation')
+  // Archive (deactivate) a product
+  const archiveProduct = async (productId: string) => {
+    const traceId = beginTrace()
+
+    if (!window.confirm(`Archive product ${productId}? No new subscriptions can be created for it.`)) {
       return
     }
 
     setIsLoading(true)
     setError(null)
-    
-    try {
-      addLog(`Creating subscription for product: ${productId}`, 'info')
 
-      const subscriptionData = {
-        customer_id: customer.customer_id,
-        token_id: token.token_id,
-        products: [
-          {
-            product_id: productId,
-            quantity: 1
-          }
-        ],
-        total_billing_cycles: 12,
-        start_time: new Date().toISOString().replace(/T/, " ").replace(/\..+/, ""),
-        appcode: config.appcode,
-        secretKey: config.secretKey
-      }
+    try {
+      addLog(`Archiving product: ${productId}`, 'info')
 
-      const response = await fetch('/api/qfpay/subscription/create', {
+      const response = await fetch('/api/qfpay/product/archive', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(subscriptionData)
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify({
+          product_id: productId,
+          profileId: config.profileId
+        })
       })
 
-      const result = await response.json()
-      
-      if (!result.success) {
-        throw new Error(result.error)
-      }
+      const result = await readApiResponse<ApiRouteData['POST /api/qfpay/product/archive']>(response)
 
-      setSubscriptions(prev => [...prev, result.subscription])
-      addLog(`Subscription created: ${result.subscription.subscription_id}`, 'success')
-      addLog(`Subscription state: ${result.subscription.state}`, 'info')
+      setProducts(prev => prev.map(product => product.product_id === productId
+        ? { ...product, state: result.state || 'archived' }
+        : product
+      ))
+      addLog(`Product archived: ${productId}`, 'success')
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       setError(errorMessage)
-      addLog(`Subscription creation failed: ${errorMessage}`, 'error')
+      addLog(`Product archive failed: ${errorMessage}`, 'error')
     } finally {
       setIsLoading(false)
     }
   }
 
-  // Query existing subscriptions
-  const querySubscriptions = async () => {
-    if (!config.appcode) {
-      setError('APPCODE is required for subscription query')
+  // Create a token intent and mount the card form in tokenization mode
+  const setupTokenIntent = async () => {
+    const traceId = beginTrace()
+
+    if (!qfpay) {
+      setError('QFPay not initialized: run step 1 (QFpay.config()) first')
+      return
+    }
+
+    const customerId = customer?.customer_id || config.customerId
+    if (!customerId) {
+      setError('A customer is required to save a card')
       return
     }
 
     setIsLoading(true)
     setError(null)
-    
+
     try {
-      addLog('Querying existing subscriptions', 'info')
+      addLog(`Creating token intent for customer ${customerId}...`, 'info')
 
-      const queryData: Record<string, unknown> = {
-        appcode: config.appcode,
-        secretKey: config.secretKey,
-        page: parseInt(queryForm.page) || 1,
-        page_size: parseInt(queryForm.page_size) || 10
-      }
+      const result = await createTokenIntent(customerId, config.profileId, traceId)
 
-      // Add optional filters if provided
-      if (queryForm.subscription_id.trim()) {
-        queryData.subscription_id = queryForm.subscription_id.trim()
-      }
-      if (queryForm.customer_id.trim()) {
-        queryData.customer_id = queryForm.customer_id.trim()
+      if (!result.success) {
+        throw new Error(result.error)
       }
-      if (queryForm.state) {
-        queryData.state = queryForm.state
+
+      const tokenIntent = result.tokenIntent
+      if (!tokenIntent) {
+        throw new Error('No token intent data returned')
       }
 
-      const response = await fetch('/api/qfpay/subscription/query', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(queryData)
-      })
+      setTokenIntentId(tokenIntent.token_intent_id)
+      addLog(`Token intent created: ${tokenIntent.token_intent_id}`, 'success')
+      addLog(`Expires: ${tokenIntent.expires_at}`, 'info')
 
-      const result = await response.json()
-      
-      if (!result.success) {
-        throw new Error(result.error)
-      }
+      // Same Element as a payment, but confirming it saves the card instead of charging it
+      const payment = qfpay.payment()
+      payment.pay({
+        goods_name: 'QFPay Card Tokenization',
+        paysource: 'payment_element',
+        intent_type: 'token',
+        customer_id: customerId,
+        token_reason: 'subscription',
+        token_reference: `ref_${Date.now()}`
+      }, tokenIntent.token_intent_id)
 
-      setQueryResult(result.result)
-      addLog(`Query successful: Found ${result.result.total_count} subscriptions`, 'success')
-      addLog(`Showing page ${result.result.page} of ${Math.ceil(result.result.total_count / result.result.page_size)}`, 'info')
+      if (containerRef.current) {
+        containerRef.current.innerHTML = ''
+        qfpay.element().create('#qfpay-minimal-container')
+        addLog('Card form generated in tokenization mode: enter a test card and click Save Card', 'success')
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       setError(errorMessage)
-      addLog(`Subscription query failed: ${errorMessage}`, 'error')
+      addLog(`Token intent setup failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Confirm the token intent and keep the token_id QFPay returns
+  const confirmTokenIntent = async () => {
+    const traceId = beginTrace()
+
+    if (!qfpay || !tokenIntentId) {
+      setError('No token intent: click Save Card first')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      addLog('Saving card...', 'info')
+
+      const response = await qfpay.confirmPayment()
+      addLog(`Tokenization response: ${JSON.stringify(response)}`, 'info')
+
+      const card = (response.card || {}) as Record<string, unknown>
+      const tokenId = (response.token_id || (response.token as Record<string, unknown> | undefined)?.token_id) as string | undefined
+      if (response.respcd && response.respcd !== '0000') {
+        throw new Error(summarizeRespcd(String(response.respcd), response.respmsg ? String(response.respmsg) : undefined))
+      }
+      if (!tokenId) {
+        throw new Error('QFPay did not return a token_id')
+      }
+
+      const tokenRecord: Token = {
+        token_id: tokenId,
+        customer_id: (response.customer_id as string) || customer?.customer_id || config.customerId || null,
+        created_at: new Date().toISOString(),
+        status: 'active',
+        type: 'card',
+        last4: String(card.last4 || ''),
+        brand: String(card.brand || '')
+      }
+
+      setToken(tokenRecord)
+      setTokenIntentId(null)
+      addLog(`Card saved as token: ${tokenRecord.token_id}`, 'success')
+      addLog(`Token details: ${tokenRecord.brand} ending in ${tokenRecord.last4}`, 'info')
+
+      // Auto-copy token ID to subscription form
+      setSubscriptionForm(prev => ({ ...prev, token_id: tokenRecord.token_id }))
+      addLog('Token ID auto-copied to subscription form', 'info')
+
+      // The token only exists browser-side so far; keep it in the record store for later sessions
+      const recorded = await recordCardToken(tokenRecord, config.profileId, traceId)
+      if (!recorded.success) {
+        addLog(`Card token not recorded: ${recorded.error}`, 'error')
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Card tokenization failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Create subscription from form data
+  const createCustomSubscription = async () => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for subscription creation')
+      return
+    }
+
+    if (!subscriptionForm.customer_id.trim()) {
+      setError('Customer ID is required for subscription creation')
+      return
+    }
+
+    if (!subscriptionForm.product_id.trim()) {
+      setError('Product ID is required for subscription creation')
+      return
+    }
+
+    if (!subscriptionForm.token_id.trim()) {
+      setError('Token ID is required for subscription creation')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    showFieldErrors('subscription', null)
+    
+    try {
+      addLog(`Creating subscription with custom parameters`, 'info')
+
+      const subscriptionData = {
+        customer_id: subscriptionForm.customer_id.trim(),
+        token_id: subscriptionForm.token_id.trim(),
+        products: [
+          {
+            product_id: subscriptionForm.product_id.trim(),
+            quantity: 1
+          }
+        ],
+        total_billing_cycles: subscriptionForm.total_billing_cycles.trim() || undefined,
+        start_time: subscriptionForm.start_time.trim()
+          ? toQFPayDateTime(subscriptionForm.start_time)
+          : new Date().toISOString().replace(/T/, " ").replace(/\..+/, ""),
+        profileId: config.profileId
+      }
+
+      const response = await fetch('/api/qfpay/subscription/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(subscriptionData)
+      })
+
+      const subscription = await readApiResponse<ApiRouteData['POST /api/qfpay/subscription/create']>(response)
+      
+      setSubscriptions(prev => [...prev, subscription])
+      addLog(`Subscription created: ${subscription.subscription_id}`, 'success')
+      addLog(`Subscription state: ${subscription.state}`, 'info')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Subscription creation failed: ${errorMessage}`, 'error')
+      showFieldErrors('subscription', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Create subscription from product card (quick action)
+  const createSubscription = async (productId: string) => {
+    const traceId = beginTrace()
+
+    if (!customer || !token || !config.profileId) {
+      setError('Customer, token, and merchant profile are required for subscription creation')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    
+    try {
+      addLog(`Creating subscription for product: ${productId}`, 'info')
+
+      const subscriptionData = {
+        customer_id: customer.customer_id,
+        token_id: token.token_id,
+        products: [
+          {
+            product_id: productId,
+            quantity: 1
+          }
+        ],
+        total_billing_cycles: 12,
+        start_time: new Date().toISOString().replace(/T/, " ").replace(/\..+/, ""),
+        profileId: config.profileId
+      }
+
+      const response = await fetch('/api/qfpay/subscription/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(subscriptionData)
+      })
+
+      const subscription = await readApiResponse<ApiRouteData['POST /api/qfpay/subscription/create']>(response)
+      
+      setSubscriptions(prev => [...prev, subscription])
+      addLog(`Subscription created: ${subscription.subscription_id}`, 'success')
+      addLog(`Subscription state: ${subscription.state}`, 'info')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Subscription creation failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Query existing subscriptions
+  const querySubscriptions = async () => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for subscription query')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    showFieldErrors('query', null)
+    
+    try {
+      addLog('Querying existing subscriptions', 'info')
+
+      const queryData: Record<string, unknown> = {
+        profileId: config.profileId,
+        page: queryForm.page,
+        page_size: queryForm.page_size
+      }
+
+      // Add optional filters if provided
+      if (queryForm.subscription_id.trim()) {
+        queryData.subscription_id = queryForm.subscription_id.trim()
+      }
+      if (queryForm.customer_id.trim()) {
+        queryData.customer_id = queryForm.customer_id.trim()
+      }
+      if (queryForm.state) {
+        queryData.state = queryForm.state
+      }
+
+      const response = await fetch('/api/qfpay/subscription/query', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(queryData)
+      })
+
+      const result = await readApiResponse<ApiRouteData['POST /api/qfpay/subscription/query']>(response)
+      
+      setQueryResult(result)
+      addLog(`Query successful: Found ${result.total_count} subscriptions`, 'success')
+      addLog(`Showing page ${result.page} of ${Math.ceil(result.total_count / result.page_size)}`, 'info')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Subscription query failed: ${errorMessage}`, 'error')
+      showFieldErrors('query', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Cancel, pause or resume a subscription and update its state in place
+  const changeSubscription = async (subscriptionId: string, action: 'cancel' | 'pause' | 'resume') => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError(`A merchant profile is required to ${action} a subscription`)
+      return
+    }
+
+    if (action === 'cancel' && !window.confirm(`Cancel subscription ${subscriptionId}? It cannot be resumed.`)) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      addLog(`Requesting ${action} for subscription: ${subscriptionId}`, 'info')
+
+      const response = await fetch(`/api/qfpay/subscription/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify({
+          subscription_id: subscriptionId,
+          profileId: config.profileId
+        })
+      })
+
+      const result = await readApiResponse<ApiRouteData['POST /api/qfpay/subscription/cancel']>(response)
+
+      const newState: string = result.state
+      const updateState = (subscription: SubscriptionData) =>
+        subscription.subscription_id === subscriptionId ? { ...subscription, state: newState } : subscription
+
+      setQueryResult(prev => prev && { ...prev, subscriptions: prev.subscriptions.map(updateState) })
+      setSubscriptions(prev => prev.map(updateState))
+      addLog(`Subscription ${subscriptionId} is now ${newState}`, 'success')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Subscription ${action} failed: ${errorMessage}`, 'error')
     } finally {
       setIsLoading(false)
     }
@@ -699,6 +1228,8 @@ export default function QFPayMinimal() {
 
   // Create sample products
   const createSampleProducts = async () => {
+    beginTrace()
+
     const testProducts = [
       {
         name: 'Basic Monthly Plan',
@@ -732,8 +1263,156 @@ export default function QFPayMinimal() {
     await setupPaymentIntent()
   }
   
+  // Query the payment intent's transaction status once
+  const checkTransactionStatus = async (traceId: string) => {
+    const result = await queryTransaction(
+      outTradeNo ? { out_trade_no: outTradeNo } : { payment_intent_id: paymentIntentId },
+      config.profileId,
+      traceId
+    )
+
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+
+    if (!result.transaction) {
+      throw new Error('No transaction data returned')
+    }
+
+    setTransaction(result.transaction)
+
+    // Pre-fill the refund panel with the full amount of a paid transaction
+    if (result.transaction.status === 'paid' && result.transaction.syssn) {
+      setRefundForm({
+        syssn: result.transaction.syssn,
+        amount: fromMinorUnits(result.transaction.txamt || 0, result.transaction.txcurrcd)
+      })
+    }
+
+    return result.transaction
+  }
+
+  // Poll the payment intent until QFPay reports a terminal state
+  const pollTransactionStatus = async () => {
+    const traceId = beginTrace()
+
+    if (!paymentIntentId) {
+      setError('No payment intent to query')
+      return
+    }
+
+    pollingRef.current = true
+    setIsPolling(true)
+
+    try {
+      addLog('Polling transaction status...', 'info')
+
+      for (let attempt = 1; attempt <= POLL_MAX_ATTEMPTS && pollingRef.current; attempt++) {
+        const result = await checkTransactionStatus(traceId)
+
+        if (TERMINAL_TRANSACTION_STATUSES.includes(result.status)) {
+          addLog(
+            `Transaction ${result.status}: ${result.syssn || result.out_trade_no}${result.respmsg ? ` (${result.respmsg})` : ''}`,
+            result.status === 'paid' ? 'success' : 'error',
+            { traceId }
+          )
+          return
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+      }
+
+      if (pollingRef.current) {
+        addLog(`Transaction still pending after ${POLL_MAX_ATTEMPTS} checks`, 'info', { traceId })
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Transaction query failed: ${errorMessage}`, 'error', { traceId })
+    } finally {
+      pollingRef.current = false
+      setIsPolling(false)
+    }
+  }
+
+  // Stop an in-progress status poll
+  const stopPolling = () => {
+    pollingRef.current = false
+    addLog('Stopped polling transaction status', 'info')
+  }
+
+  // Refund all or part of a paid transaction
+  const createRefundRecord = async () => {
+    const traceId = beginTrace()
+
+    if (!config.profileId) {
+      setError('A merchant profile is required for refunds')
+      return
+    }
+
+    if (!refundForm.syssn.trim()) {
+      setError('Original transaction syssn is required for refunds')
+      return
+    }
+
+    // The refund form is filled from the queried transaction, so its currency applies
+    const currency = transaction?.txcurrcd || config.currency
+    const txamt = toMinorUnits(refundForm.amount, currency)
+    if (txamt === null) {
+      setError(`Refund amount ${amountInputHint(currency)}`)
+      return
+    }
+    if (txamt <= 0) {
+      setError('Refund amount must be greater than 0')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      addLog(`Refunding ${formatAmount(txamt, currency)} of transaction ${refundForm.syssn.trim()}`, 'info')
+
+      const refundRequest = { syssn: refundForm.syssn.trim(), txamt }
+      const result = await refundTransaction(
+        refundRequest,
+        config.profileId,
+        idempotencyKeyFor('refund', [config.profileId, refundRequest]),
+        traceId
+      )
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      settleIdempotencyKey('refund')
+      if (result.replayed) {
+        addLog('Returned the refund from an earlier attempt (idempotent replay)', 'info')
+      }
+
+      if (!result.refund) {
+        throw new Error('No refund data returned')
+      }
+
+      const refund = result.refund
+      setRefunds(prev => [...prev, refund])
+      setRefundableRemaining(result.refundable_remaining ?? null)
+      addLog(`Refund created: ${refund.refund_out_trade_no} (${refund.refund_syssn || 'no syssn'})`, 'success')
+      addLog(`Refunded ${formatAmount(result.total_refunded || 0, refund.txcurrcd || currency)} of ${formatAmount(result.original_txamt || 0, refund.txcurrcd || currency)}`, 'info')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Refund failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   // Process payment
   const processPayment = async () => {
+    beginTrace()
+
     if (!qfpay) {
       setError('QFPay not initialized')
       return
@@ -741,6 +1420,7 @@ export default function QFPayMinimal() {
     
     setIsLoading(true)
     setError(null)
+    let confirmed = false
     
     try {
       addLog('Processing payment...', 'info')
@@ -748,7 +1428,8 @@ export default function QFPayMinimal() {
       // Step 5: trigger card form submission and receive payment response (minimal example)      
       const response = await qfpay.confirmPayment()
       
-      addLog(`Payment response: ${JSON.stringify(response)}`, 'success')
+      addLog(`Payment response: ${JSON.stringify(response)}`, 'info')
+      confirmed = true
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -757,6 +1438,352 @@ export default function QFPayMinimal() {
     } finally {
       setIsLoading(false)
     }
+
+    // The SDK response can be lost with the tab, so confirm the outcome with QFPay itself
+    if (confirmed) {
+      await pollTransactionStatus()
+    }
+  }
+
+  // Restore customer, token, subscriptions and products recorded by earlier sessions
+  const rehydrateFromStore = async (activeConfig: Config = config) => {
+    const traceId = beginTrace()
+
+    try {
+      // A profile scopes records to its appcode and environment
+      const params = new URLSearchParams(activeConfig.profileId
+        ? { profileId: activeConfig.profileId }
+        : { environment: activeConfig.environment })
+
+      const response = await fetch(`/api/qfpay/records?${params}`, { headers: { [TRACE_HEADER]: traceId } })
+      const result = await readApiResponse<ApiRouteData['GET /api/qfpay/records']>(response)
+
+      const records = result.records as StoredRecordData[]
+      setStoredRecords(records)
+      if (records.length === 0) return
+
+      const ofKind = (kind: StoredRecordData['kind']) => records.filter(record => record.kind === kind)
+
+      // Prefer the configured customer; otherwise pick up the most recent one
+      const customers = ofKind('customer')
+      const storedCustomer = activeConfig.customerId
+        ? customers.find(record => record.id === activeConfig.customerId)
+        : customers[0]
+      if (storedCustomer) {
+        setCustomer(storedCustomer.data as unknown as CustomerRecord)
+        setConfig(prev => ({ ...prev, customerId: storedCustomer.id }))
+        setSubscriptionForm(prev => ({ ...prev, customer_id: storedCustomer.id }))
+
+        const storedToken = ofKind('token').find(record => record.data.customer_id === storedCustomer.id)
+        if (storedToken) {
+          setToken(storedToken.data as unknown as Token)
+          setSubscriptionForm(prev => ({ ...prev, token_id: storedToken.id }))
+        }
+      }
+
+      setSubscriptions(ofKind('subscription').map(record => ({ products: [], ...record.data }) as unknown as SubscriptionData))
+      // Live catalog from loadProducts() wins if it has already arrived
+      setProducts(prev => prev.length > 0 ? prev : ofKind('product').map(record => record.data as unknown as ProductData))
+
+      addLog(`Restored ${records.length} saved records${storedCustomer ? ` (customer ${storedCustomer.id})` : ''}`, 'success')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to load saved records: ${errorMessage}`, 'error')
+    }
+  }
+
+  // Pick up a stored record where a previous session left off
+  const applyStoredRecord = (record: StoredRecordData) => {
+    switch (record.kind) {
+      case 'customer':
+        selectCustomer(record.data as unknown as CustomerRecord)
+        break
+      case 'token':
+        setToken(record.data as unknown as Token)
+        setSubscriptionForm(prev => ({ ...prev, token_id: record.id }))
+        addLog(`Using saved card token: ${record.id}`, 'info')
+        break
+      case 'subscription':
+        setQueryForm(prev => ({ ...prev, subscription_id: record.id }))
+        addLog(`Subscription ${record.id} copied to the query form`, 'info')
+        break
+      case 'payment_intent':
+        setPaymentIntentId(record.id)
+        setOutTradeNo((record.data.out_trade_no as string) || null)
+        setTransaction(null)
+        addLog(`Resumed payment intent ${record.id}: use Check Status to refresh it`, 'info')
+        break
+      case 'product':
+        setSubscriptionForm(prev => ({ ...prev, product_id: record.id }))
+        addLog(`Product ${record.id} copied to the subscription form`, 'info')
+        break
+      default:
+        copyToClipboard(record.id, 'Record ID')
+    }
+  }
+
+  // Price of one billing cycle from the products loaded on this page; null when a product or its price is unknown
+  const subscriptionCycleAmount = (items: SubscriptionData['products'] | undefined) => {
+    const priced = (items || []).flatMap(item => {
+      const product = products.find(candidate => candidate.product_id === item.product_id)
+      return product ? [{ product, quantity: Number(item.quantity) || 1 }] : []
+    })
+    if (priced.length === 0 || priced.length !== items?.length) return null
+    const currency = priced[0].product.txcurrcd
+    if (priced.some(({ product }) => product.txcurrcd !== currency)) return null
+    return formatAmount(priced.reduce((total, { product, quantity }) => total + product.txamt * quantity, 0), currency)
+  }
+
+  // One-line summary of a stored record for the records panel
+  const describeRecord = (record: StoredRecordData) => {
+    const data = record.data
+    // Missing currencies format as a bare amount instead of "UNDEFINED"
+    const currencyOf = (value: unknown) => typeof value === 'string' ? value : null
+    switch (record.kind) {
+      case 'customer':
+        return [data.name, data.email, data.phone].filter(Boolean).join(' · ')
+      case 'product':
+        return `${data.name} · ${formatAmount(Number(data.txamt), currencyOf(data.txcurrcd))}${data.state === 'archived' ? ' · archived' : ''}`
+      case 'payment_intent':
+        return `${formatAmount(Number(data.amount), currencyOf(data.currency))} · ${data.transaction_status || data.status}`
+      case 'token':
+        return `${data.brand} •••• ${data.last4} · ${data.customer_id}`
+      case 'subscription':
+        return `${data.state} · ${data.customer_id || ''}`
+      case 'refund':
+        return `${formatAmount(Number(data.txamt), currencyOf(data.txcurrcd))} · ${data.status} · ${data.orig_syssn}`
+      default:
+        return String(data.customer_id || '')
+    }
+  }
+
+  // Fetch the QFPay calls the server made for the active profile. Runs after every action, so it logs only failures.
+  const loadOutboundCalls = async (traceFilter = callTraceFilter) => {
+    try {
+      const params = new URLSearchParams({ limit: '50' })
+      if (config.profileId) params.set('profileId', config.profileId)
+      if (traceFilter.trim()) params.set('traceId', traceFilter.trim())
+
+      const response = await fetch(`/api/qfpay/calls?${params}`)
+      const result = await readApiResponse<ApiRouteData['GET /api/qfpay/calls']>(response)
+
+      setOutboundCalls(result.calls)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to load API calls: ${errorMessage}`, 'error')
+    }
+  }
+
+  const clearOutboundCalls = async () => {
+    try {
+      const response = await fetch('/api/qfpay/calls', { method: 'DELETE' })
+      await readApiResponse<ApiRouteData['DELETE /api/qfpay/calls']>(response)
+
+      setOutboundCalls([])
+      setExpandedCallId(null)
+      addLog('Captured API calls cleared', 'info')
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to clear API calls: ${errorMessage}`, 'error')
+    }
+  }
+
+  const loadGatewayHealth = async () => {
+    if (!config.profileId) {
+      setGatewayHealth(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/qfpay/health?profileId=${encodeURIComponent(config.profileId)}`)
+      const result = await readApiResponse<ApiRouteData['GET /api/qfpay/health']>(response)
+
+      setGatewayHealth(result.gateways[0] || null)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to load gateway status: ${errorMessage}`, 'error')
+    }
+  }
+
+  // Close the circuit by hand when the gateway is known to be back
+  const resetGatewayCircuit = async () => {
+    const traceId = beginTrace()
+
+    try {
+      const response = await fetch(`/api/qfpay/health?profileId=${encodeURIComponent(config.profileId)}`, {
+        method: 'DELETE',
+        headers: { [TRACE_HEADER]: traceId }
+      })
+      await readApiResponse<ApiRouteData['DELETE /api/qfpay/health']>(response)
+
+      addLog(`Circuit breaker reset for the ${ENVIRONMENT_LABELS[config.environment]} gateway`, 'info')
+      await loadGatewayHealth()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to reset circuit breaker: ${errorMessage}`, 'error')
+    }
+  }
+
+  // Fetch merchant profiles from the server-side vault (never includes client keys)
+  const loadProfiles = async () => {
+    const traceId = beginTrace()
+
+    try {
+      const response = await fetch('/api/qfpay/profiles', { headers: { [TRACE_HEADER]: traceId } })
+      const result = await readApiResponse<ApiRouteData['GET /api/qfpay/profiles']>(response)
+
+      setProfiles(result.profiles)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      addLog(`Failed to load merchant profiles: ${errorMessage}`, 'error')
+    }
+  }
+
+  // Switch merchant profile; the environment (and therefore the SDK) follows the profile
+  const selectProfile = (profileId: string) => {
+    beginTrace()
+
+    const profile = profiles.find(item => item.id === profileId)
+    if (!profile) {
+      setConfig(prev => ({ ...prev, profileId: '' }))
+      return
+    }
+
+    addLog(`Merchant profile selected: ${profile.name} (${profile.appcode})`, 'info', { profileId })
+
+    // Customers, tokens and catalog belong to the previous merchant
+    setCustomer(null)
+    setCustomerResults([])
+    setEditingCustomer(null)
+    setToken(null)
+    setProducts([])
+    setProductTotal(null)
+    setSubscriptions([])
+    setQueryResult(null)
+    setSubscriptionForm(prev => ({ ...prev, customer_id: '', product_id: '', token_id: '' }))
+    clearPaymentSession()
+
+    const changes = { profileId, customerId: '' }
+    const updatedConfig = profile.environment !== config.environment
+      ? handleEnvironmentChange(profile.environment, changes)
+      : { ...config, ...changes }
+
+    setConfig(updatedConfig)
+    localStorage.setItem('qfpay-demo-config', JSON.stringify(updatedConfig))
+    loadProducts(updatedConfig)
+    rehydrateFromStore(updatedConfig)
+  }
+
+  // Rename a stored profile or change its credentials; a blank client key keeps the stored one
+  const saveProfileEdit = async () => {
+    const traceId = beginTrace()
+
+    if (!editingProfile) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const { id, clientKey, ...changes } = editingProfile
+      const response = await fetch(`/api/qfpay/profiles/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(clientKey.trim() ? { ...changes, clientKey } : changes)
+      })
+
+      const updated = await readApiResponse<ApiRouteData['PATCH /api/qfpay/profiles/{id}']>(response)
+      setProfiles(prev => prev.map(item => item.id === updated.id ? updated : item))
+      setEditingProfile(null)
+      addLog(`Merchant profile updated: ${updated.name} (${updated.id})`, 'success', { profileId: updated.id })
+
+      // Moving the active profile to another environment needs the matching SDK
+      if (config.profileId === updated.id && updated.environment !== config.environment) {
+        const updatedConfig = handleEnvironmentChange(updated.environment)
+        setConfig(updatedConfig)
+        localStorage.setItem('qfpay-demo-config', JSON.stringify(updatedConfig))
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Merchant profile update failed: ${errorMessage}`, 'error')
+    } finally {
+      // Drop the key from browser memory whatever the outcome
+      setEditingProfile(prev => prev && { ...prev, clientKey: '' })
+      setIsLoading(false)
+    }
+  }
+
+  const removeMerchantProfile = async (profile: MerchantProfile) => {
+    const traceId = beginTrace()
+
+    if (!window.confirm(`Delete merchant profile "${profile.name}"? Its encrypted client key is removed from the vault.`)) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/qfpay/profiles/${encodeURIComponent(profile.id)}`, {
+        method: 'DELETE',
+        headers: { [TRACE_HEADER]: traceId }
+      })
+      await readApiResponse<ApiRouteData['DELETE /api/qfpay/profiles/{id}']>(response)
+
+      setProfiles(prev => prev.filter(item => item.id !== profile.id))
+      if (config.profileId === profile.id) {
+        const updatedConfig = { ...config, profileId: '' }
+        setConfig(updatedConfig)
+        localStorage.setItem('qfpay-demo-config', JSON.stringify(updatedConfig))
+      }
+      addLog(`Merchant profile deleted: ${profile.name} (${profile.id})`, 'success', { profileId: '' })
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Merchant profile deletion failed: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Store merchant credentials in the server-side vault
+  const createMerchantProfile = async () => {
+    const traceId = beginTrace()
+
+    if (!profileForm.name.trim() || !profileForm.appcode.trim() || !profileForm.clientKey.trim()) {
+      setError('Profile name, APPCODE and client key are required')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/qfpay/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [TRACE_HEADER]: traceId },
+        body: JSON.stringify(profileForm)
+      })
+
+      // Drop the key from browser memory whatever the outcome
+      setProfileForm(prev => ({ ...prev, clientKey: '' }))
+
+      const profile = await readApiResponse<ApiRouteData['POST /api/qfpay/profiles']>(response)
+
+      setProfiles(prev => [...prev, profile])
+      setProfileForm(prev => ({ ...prev, name: '', appcode: '' }))
+      addLog(`Merchant profile stored in vault: ${profile.name} (${profile.id})`, 'success')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      setError(errorMessage)
+      addLog(`Failed to store merchant profile: ${errorMessage}`, 'error')
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   // Save configuration to localStorage
@@ -773,14 +1800,33 @@ export default function QFPayMinimal() {
 
   // Load configuration from localStorage
   const loadConfiguration = () => {
+    beginTrace()
+
     try {
       const saved = localStorage.getItem('qfpay-demo-config')
       if (saved) {
-        const savedConfig = JSON.parse(saved) as Config
+        const savedConfig = JSON.parse(saved) as Config & { appcode?: string; secretKey?: string }
+
+        // Older versions kept the APPCODE and plaintext secret key here
+        if ('secretKey' in savedConfig || 'appcode' in savedConfig) {
+          delete savedConfig.secretKey
+          delete savedConfig.appcode
+          localStorage.setItem('qfpay-demo-config', JSON.stringify(savedConfig))
+          addLog('Removed APPCODE and secret key from browser storage: store them as a merchant profile instead', 'info')
+        }
+        savedConfig.profileId = savedConfig.profileId || ''
+
         setConfig(savedConfig)
         addLog('Configuration loaded from browser storage', 'success')
+
+        // Products live in QFPay, so the catalog survives reloads
+        if (savedConfig.profileId) {
+          loadProducts(savedConfig)
+        }
+        rehydrateFromStore(savedConfig)
       } else {
         addLog('No saved configuration found', 'info')
+        rehydrateFromStore()
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -788,23 +1834,32 @@ export default function QFPayMinimal() {
     }
   }
 
-  // Handle environment change with save and refresh
-  const handleEnvironmentChange = (newEnvironment: 'qa' | 'test' | 'live') => {
-    const updatedConfig = { ...config, environment: newEnvironment }
-    setConfig(updatedConfig)
-    
-    // Save immediately
-    try {
-      localStorage.setItem('qfpay-demo-config', JSON.stringify(updatedConfig))
-      addLog(`Environment changed to ${newEnvironment}. Refreshing page to load correct SDK...`, 'info')
-      
-      // Refresh page after a short delay to show the log message
-      setTimeout(() => {
-        window.location.reload()
-      }, 1000)
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      addLog(`Failed to save configuration: ${errorMessage}`, 'error')
+  // Handle environment change: have SDKLoader swap in the matching SDK and return the updated config for saving
+  const handleEnvironmentChange = (newEnvironment: Config['environment'], changes: Partial<Config> = {}) => {
+    const updatedConfig = { ...config, ...changes, environment: newEnvironment }
+
+    // The QFPay instance and card form were created by the previous environment's SDK
+    clearPaymentSession()
+    addLog(`Environment changed to ${newEnvironment}. Loading the matching QFPay SDK...`, 'info', { profileId: updatedConfig.profileId })
+    window.dispatchEvent(new CustomEvent(SDK_ENVIRONMENT_EVENT, { detail: newEnvironment }))
+
+    return updatedConfig
+  }
+
+  // Forget the SDK instance and any in-flight payment or token intent
+  const clearPaymentSession = () => {
+    setQfpay(null)
+    setPaymentIntentId(null)
+    setOutTradeNo(null)
+    setTransaction(null)
+    setTokenIntentId(null)
+    pollingRef.current = false
+    setRefunds([])
+    setRefundableRemaining(null)
+    setRefundForm({ syssn: '', amount: '' })
+
+    if (containerRef.current) {
+      containerRef.current.innerHTML = '<div style="text-align: center; color: #666;">QFPay card form will appear here after setup</div>'
     }
   }
 
@@ -812,17 +1867,11 @@ export default function QFPayMinimal() {
   // Reset all state to start over
   const resetDemo = () => {
     // Clear all state
-    setQfpay(null)
+    clearPaymentSession()
     setCustomer(null)
-    setPaymentIntentId(null)
     setIsLoading(false)
-    setError(null)
-    setLogs([])
-    
-    // Clear the payment container
-    if (containerRef.current) {
-      containerRef.current.innerHTML = '<div style="text-align: center; color: #666;">QFPay card form will appear here after setup</div>'
-    }
+    setError(null)
+    setLogs([])
     
     addLog('Demo reset - ready to start over', 'info')
   }
@@ -859,9 +1908,30 @@ export default function QFPayMinimal() {
   // Auto-load configuration on startup
   useEffect(() => {
     loadConfiguration()
+    loadProfiles()
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Pick up the calls an action made, and what they did to the gateway's health, once it has finished
+  useEffect(() => {
+    if (!isLoading && !isPolling) {
+      loadOutboundCalls()
+      loadGatewayHealth()
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, isPolling, config.profileId])
+
+  // SDKLoader reports when the SDK for a newly selected environment is usable
+  useEffect(() => {
+    const handleSdkReady = (event: Event) => {
+      addLog(`QFPay SDK ready for ${(event as CustomEvent<string>).detail} environment`, 'success')
+    }
+
+    window.addEventListener(SDK_READY_EVENT, handleSdkReady)
+    return () => window.removeEventListener(SDK_READY_EVENT, handleSdkReady)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.profileId, profiles])
+
   
   return (
     <div className={styles.nativeDemoContainer}>
@@ -878,25 +1948,85 @@ export default function QFPayMinimal() {
         <div style={{ marginTop: '15px', padding: '10px', background: '#f0f8ff', borderRadius: '4px', fontSize: '14px' }}>
           🔄 <strong>Enhanced:</strong> Now includes recurring payment testing below - create products and subscriptions for recurring billing
         </div>
+        <div style={{ marginTop: '10px', fontSize: '14px' }}>
+          🔏 Signature rejected? Open the <Link href="/tools/signature">signature debugger</Link>
+        </div>
+        <div style={{ marginTop: '6px', fontSize: '14px' }}>
+          📘 Calling these routes from another app? See the <Link href="/tools/api">API reference</Link>
+        </div>
       </div>
 
       {/* Configuration */}
       <div className={styles.configSection}>
         <h4>Configuration</h4>
+        {gatewayHealth && (
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '10px',
+            marginBottom: '12px',
+            padding: '8px 10px',
+            borderRadius: '6px',
+            fontSize: '13px',
+            ...(gatewayHealth.state === 'open'
+              ? { background: '#fef2f2', border: '1px solid #dc2626' }
+              : gatewayHealth.state === 'half_open' || gatewayHealth.consecutive_failures > 0
+                ? { background: '#fffbeb', border: '1px solid #f59e0b' }
+                : { background: '#ecfdf5', border: '1px solid #10b981' })
+          }}>
+            <span>
+              <strong>QFPay {ENVIRONMENT_LABELS[gatewayHealth.environment]} gateway:</strong>{' '}
+              {gatewayHealth.state === 'open'
+                ? `🔴 down, ${gatewayHealth.consecutive_failures} consecutive failures. Calls fail fast until ${gatewayHealth.retry_at ? new Date(gatewayHealth.retry_at).toLocaleTimeString() : 'the next probe'}`
+                : gatewayHealth.state === 'half_open'
+                  ? '🟡 recovering, the next call probes whether it is back'
+                  : gatewayHealth.consecutive_failures > 0
+                    ? `🟡 ${gatewayHealth.consecutive_failures} recent failure${gatewayHealth.consecutive_failures === 1 ? '' : 's'}`
+                    : gatewayHealth.last_success_at ? '🟢 reachable' : '⚪ no calls yet'}
+              {gatewayHealth.last_error && gatewayHealth.consecutive_failures > 0 && (
+                <span style={{ color: '#6b7280' }}> (last error: {gatewayHealth.last_error})</span>
+              )}
+            </span>
+            {gatewayHealth.state !== 'closed' && (
+              <button
+                onClick={resetGatewayCircuit}
+                className={styles.btnSecondary}
+                style={{ fontSize: '12px', padding: '4px 10px' }}
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        )}
         <div className={styles.configControls}>
           <label>
-            Environment:
+            Merchant Profile:
             <select 
-              value={config.environment}
-              onChange={(e) => handleEnvironmentChange(e.target.value as 'qa' | 'test' | 'live')}
+              value={config.profileId}
+              onChange={(e) => selectProfile(e.target.value)}
               disabled={isLoading}
             >
-              <option value="qa">QA/Sandbox (Testing)</option>
-              <option value="test">Live Test Environment</option>
-              <option value="live">Production (Live)</option>
+              <option value="">Select a merchant profile...</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name} ({profile.appcode} · {profile.environment})
+                </option>
+              ))}
             </select>
           </label>
           
+          <label>
+            Environment:
+            <input 
+              type="text"
+              value={ENVIRONMENT_LABELS[config.environment]}
+              readOnly
+              disabled
+              title="Set by the selected merchant profile"
+            />
+          </label>
+          
           <label>
             Demo Mode:
             <select 
@@ -927,11 +2057,15 @@ export default function QFPayMinimal() {
                 <input 
                   type="number"
                   min="2"
-                  step="0.01"
-                  value={(config.amount / 100).toFixed(2)}
+                  step={amountStep(config.currency)}
+                  value={fromMinorUnits(config.amount, config.currency)}
                   onChange={(e) => {
-                    const amount = Math.max(200, Math.round(parseFloat(e.target.value || '0') * 100))
-                    setConfig(prev => ({ ...prev, amount }))
+                    // At least 2 in major units; extra decimals are dropped (not rounded) rather than rejected
+                    const exponent = currencyExponent(config.currency)
+                    const [whole, fraction = ''] = (e.target.value || '0').split('.')
+                    const amount = toMinorUnits(exponent > 0 ? `${whole || '0'}.${fraction.slice(0, exponent)}` : whole || '0', config.currency)
+                    if (amount === null) return
+                    setConfig(prev => ({ ...prev, amount: Math.max(toMinorUnits(2, prev.currency) ?? 0, amount) }))
                   }}
                   disabled={isLoading}
                 />
@@ -941,49 +2075,364 @@ export default function QFPayMinimal() {
                 Currency:
                 <select 
                   value={config.currency}
-                  onChange={(e) => setConfig(prev => ({ ...prev, currency: e.target.value }))}
+                  onChange={(e) => {
+                    const currency = e.target.value
+                    setConfig(prev => ({ ...prev, currency, amount: rescaleMinorUnits(prev.amount, prev.currency, currency) }))
+                  }}
                   disabled={isLoading}
                 >
-                  <option value="HKD">Hong Kong Dollar</option>
-                  <option value="USD">US Dollar</option>
-                  <option value="CNY">Chinese Yuan</option>
+                  {renderCurrencyOptions()}
                 </select>
               </label>
             </>
           )}
           
           <label>
-            QFPay APPCODE:
+            Token Expiry:
             <input 
               type="text"
-              value={config.appcode}
-              onChange={(e) => setConfig(prev => ({ ...prev, appcode: e.target.value }))}
+              value={config.tokenExpiry}
+              onChange={(e) => setConfig(prev => ({ ...prev, tokenExpiry: e.target.value }))}
               disabled={isLoading}
-              placeholder="Enter merchant APPCODE"
+              placeholder="YYYY-MM-DD HH:mm:ss, e.g. 2025-01-31 09:00:00"
             />
           </label>
-          
-          <label>
-            QFPay Secret Key:
-            <input 
+        </div>
+        
+        {/* Merchant Credentials */}
+        <div style={{ marginTop: '15px', paddingTop: '15px', borderTop: '1px solid #ddd' }}>
+          <div style={{ fontWeight: 'bold', fontSize: '14px', marginBottom: '8px' }}>🔐 Merchant Profiles</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '12px' }}>
+            {profiles.map(profile => (
+              <div key={profile.id} style={{
+                border: '1px solid #e2e8f0',
+                borderRadius: '6px',
+                padding: '8px 10px',
+                fontSize: '13px',
+                background: config.profileId === profile.id ? '#ecfdf5' : '#f8fafc'
+              }}>
+                {editingProfile && editingProfile.id === profile.id ? (
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr auto auto auto auto auto', gap: '6px', alignItems: 'center' }}>
+                    <input
+                      type="text"
+                      value={editingProfile.name}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, name: e.target.value })}
+                      disabled={isLoading}
+                      placeholder="Profile name"
+                    />
+                    <input
+                      type="text"
+                      value={editingProfile.appcode}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, appcode: e.target.value })}
+                      disabled={isLoading}
+                      placeholder="APPCODE"
+                    />
+                    <input
+                      type="password"
+                      value={editingProfile.clientKey}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, clientKey: e.target.value })}
+                      disabled={isLoading}
+                      placeholder="New client key (blank keeps current)"
+                      autoComplete="off"
+                    />
+                    <select
+                      value={editingProfile.environment}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, environment: e.target.value as Config['environment'] })}
+                      disabled={isLoading}
+                    >
+                      {Object.entries(ENVIRONMENT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={editingProfile.sign_type}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, sign_type: e.target.value as MerchantProfile['sign_type'] })}
+                      disabled={isLoading}
+                    >
+                      <option value="MD5">MD5</option>
+                      <option value="SHA256">SHA256</option>
+                    </select>
+                    <select
+                      value={editingProfile.response_verification}
+                      onChange={(e) => setEditingProfile(prev => prev && { ...prev, response_verification: e.target.value as MerchantProfile['response_verification'] })}
+                      disabled={isLoading}
+                      title="How to treat responses without an X-QF-SIGN header"
+                    >
+                      <option value="strict">Strict</option>
+                      <option value="permissive">Permissive</option>
+                    </select>
+                    <button
+                      onClick={saveProfileEdit}
+                      disabled={isLoading || !editingProfile.name.trim() || !editingProfile.appcode.trim()}
+                      className={styles.btnSecondary}
+                      style={{ fontSize: '12px', padding: '4px 10px' }}
+                    >
+                      💾 Save
+                    </button>
+                    <button
+                      onClick={() => setEditingProfile(null)}
+                      disabled={isLoading}
+                      className={styles.btnSecondary}
+                      style={{ fontSize: '12px', padding: '4px 10px' }}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                    <div>
+                      <strong>{profile.name}</strong> · {profile.appcode} · {ENVIRONMENT_LABELS[profile.environment]} · {profile.sign_type}
+                      {profile.response_verification === 'permissive' && (
+                        <span
+                          title="Unsigned QFPay responses are accepted for this profile"
+                          style={{ marginLeft: '6px', fontSize: '11px', color: '#92400e', background: '#fef3c7', borderRadius: '3px', padding: '1px 5px' }}
+                        >
+                          unsigned responses allowed
+                        </span>
+                      )}
+                      {profile.builtin && (
+                        <span style={{ marginLeft: '6px', fontSize: '11px', color: '#6b7280', background: '#e5e7eb', borderRadius: '3px', padding: '1px 5px' }}>
+                          built-in
+                        </span>
+                      )}
+                    </div>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <button
+                        onClick={() => selectProfile(profile.id)}
+                        disabled={isLoading || config.profileId === profile.id}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '4px 10px' }}
+                      >
+                        {config.profileId === profile.id ? '✓ Active' : 'Use'}
+                      </button>
+                      {!profile.builtin && (
+                        <>
+                          <button
+                            onClick={() => setEditingProfile({
+                              id: profile.id,
+                              name: profile.name,
+                              appcode: profile.appcode,
+                              clientKey: '',
+                              environment: profile.environment,
+                              sign_type: profile.sign_type,
+                              response_verification: profile.response_verification
+                            })}
+                            disabled={isLoading}
+                            className={styles.btnSecondary}
+                            style={{ fontSize: '12px', padding: '4px 10px' }}
+                          >
+                            ✏️ Edit
+                          </button>
+                          <button
+                            onClick={() => removeMerchantProfile(profile)}
+                            disabled={isLoading}
+                            className={styles.btnSecondary}
+                            style={{ fontSize: '12px', padding: '4px 10px', color: '#dc2626' }}
+                          >
+                            🗑️ Delete
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <div style={{ fontWeight: 'bold', fontSize: '13px', marginBottom: '8px' }}>Add Merchant Profile</div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
+            <input
+              type="text"
+              value={profileForm.name}
+              onChange={(e) => setProfileForm(prev => ({ ...prev, name: e.target.value }))}
+              disabled={isLoading}
+              placeholder="Profile name, e.g. HK sandbox"
+            />
+            <input
+              type="text"
+              value={profileForm.appcode}
+              onChange={(e) => setProfileForm(prev => ({ ...prev, appcode: e.target.value }))}
+              disabled={isLoading}
+              placeholder="Merchant APPCODE"
+            />
+            <input
               type="password"
-              value={config.secretKey}
-              onChange={(e) => setConfig(prev => ({ ...prev, secretKey: e.target.value }))}
+              value={profileForm.clientKey}
+              onChange={(e) => setProfileForm(prev => ({ ...prev, clientKey: e.target.value }))}
               disabled={isLoading}
-              placeholder="Enter merchant secret key"
+              placeholder="Client key (write-only)"
+              autoComplete="off"
             />
-          </label>
-          
-          <label>
-            Token Expiry:
-            <input 
+            <div style={{ display: 'flex', gap: '10px' }}>
+              <select
+                value={profileForm.environment}
+                onChange={(e) => setProfileForm(prev => ({ ...prev, environment: e.target.value as Config['environment'] }))}
+                disabled={isLoading}
+                style={{ flex: 1 }}
+              >
+                {Object.entries(ENVIRONMENT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={profileForm.sign_type}
+                onChange={(e) => setProfileForm(prev => ({ ...prev, sign_type: e.target.value as MerchantProfile['sign_type'] }))}
+                disabled={isLoading}
+              >
+                <option value="MD5">MD5</option>
+                <option value="SHA256">SHA256</option>
+              </select>
+              <select
+                value={profileForm.response_verification}
+                onChange={(e) => setProfileForm(prev => ({ ...prev, response_verification: e.target.value as MerchantProfile['response_verification'] }))}
+                disabled={isLoading}
+                title="Strict rejects QFPay responses without an X-QF-SIGN header; permissive accepts them (some sandboxes don't sign)"
+              >
+                <option value="strict">Strict response signatures</option>
+                <option value="permissive">Allow unsigned responses</option>
+              </select>
+            </div>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '10px' }}>
+            <button
+              onClick={createMerchantProfile}
+              disabled={isLoading || !profileForm.name.trim() || !profileForm.appcode.trim() || !profileForm.clientKey.trim()}
+              className={styles.btnSecondary}
+              style={{ padding: '8px 12px' }}
+            >
+              🔐 Store in Vault
+            </button>
+            <span style={{ fontSize: '12px', color: '#6b7280' }}>
+              The client key is encrypted on the server and never sent back to the browser.
+            </span>
+          </div>
+        </div>
+        
+        {/* Customer Picker */}
+        <div style={{ marginTop: '15px', paddingTop: '15px', borderTop: '1px solid #ddd' }}>
+          <div style={{ fontWeight: 'bold', fontSize: '14px', marginBottom: '8px' }}>Find Existing Customer</div>
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap' }}>
+            <select
+              value={customerLookup.by}
+              onChange={(e) => setCustomerLookup(prev => ({ ...prev, by: e.target.value as 'email' | 'phone' | 'customer_id' }))}
+              disabled={isLoading}
+            >
+              <option value="email">Email</option>
+              <option value="phone">Phone</option>
+              <option value="customer_id">Customer ID</option>
+            </select>
+            <input
               type="text"
-              value={config.tokenExpiry}
-              onChange={(e) => setConfig(prev => ({ ...prev, tokenExpiry: e.target.value }))}
+              value={customerLookup.value}
+              onChange={(e) => setCustomerLookup(prev => ({ ...prev, value: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && searchCustomers()}
               disabled={isLoading}
-              placeholder="e.g., '15 minutes', '2024-12-01 10:30', '1 hour'"
+              placeholder="Leave empty to list recent customers"
+              style={{ flex: 1, minWidth: '200px' }}
             />
-          </label>
+            <button
+              onClick={searchCustomers}
+              disabled={isLoading || !config.profileId}
+              className={styles.btnSecondary}
+              style={{ padding: '8px 12px' }}
+            >
+              🔍 Search
+            </button>
+          </div>
+          
+          {customerResults.length > 0 && (
+            <div style={{ display: 'grid', gap: '8px', marginTop: '10px' }}>
+              {customerResults.map(result => (
+                <div key={result.customer_id} style={{
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '6px',
+                  padding: '10px',
+                  fontSize: '13px',
+                  background: config.customerId === result.customer_id ? '#ecfdf5' : '#f8fafc'
+                }}>
+                  {editingCustomer && editingCustomer.customer_id === result.customer_id ? (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr auto auto', gap: '6px', alignItems: 'center' }}>
+                      <input
+                        type="text"
+                        value={editingCustomer.name}
+                        onChange={(e) => setEditingCustomer(prev => prev && { ...prev, name: e.target.value })}
+                        disabled={isLoading}
+                        placeholder="Name"
+                      />
+                      <input
+                        type="email"
+                        value={editingCustomer.email}
+                        onChange={(e) => setEditingCustomer(prev => prev && { ...prev, email: e.target.value })}
+                        disabled={isLoading}
+                        placeholder="Email"
+                      />
+                      <input
+                        type="text"
+                        value={editingCustomer.phone}
+                        onChange={(e) => setEditingCustomer(prev => prev && { ...prev, phone: e.target.value })}
+                        disabled={isLoading}
+                        placeholder="Phone"
+                      />
+                      <button
+                        onClick={saveCustomerEdit}
+                        disabled={isLoading}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '4px 10px' }}
+                      >
+                        💾 Save
+                      </button>
+                      <button
+                        onClick={() => setEditingCustomer(null)}
+                        disabled={isLoading}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '4px 10px' }}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                      <div>
+                        <div><strong>{result.name || '(no name)'}</strong> · {result.email || 'no email'} · {result.phone || 'no phone'}</div>
+                        <div style={{ color: '#6b7280', fontFamily: 'monospace', fontSize: '12px' }}>{result.customer_id}</div>
+                      </div>
+                      <div style={{ display: 'flex', gap: '6px' }}>
+                        <button
+                          onClick={() => selectCustomer(result)}
+                          disabled={isLoading || config.customerId === result.customer_id}
+                          className={styles.btnSecondary}
+                          style={{ fontSize: '12px', padding: '4px 10px' }}
+                        >
+                          {config.customerId === result.customer_id ? '✓ Selected' : 'Use'}
+                        </button>
+                        <button
+                          onClick={() => setEditingCustomer({
+                            customer_id: result.customer_id,
+                            name: result.name || '',
+                            email: result.email || '',
+                            phone: result.phone || ''
+                          })}
+                          disabled={isLoading}
+                          className={styles.btnSecondary}
+                          style={{ fontSize: '12px', padding: '4px 10px' }}
+                        >
+                          ✏️ Edit
+                        </button>
+                        <button
+                          onClick={() => removeCustomer(result.customer_id)}
+                          disabled={isLoading}
+                          className={styles.btnSecondary}
+                          style={{ fontSize: '12px', padding: '4px 10px', color: '#dc2626' }}
+                        >
+                          🗑️ Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Configuration Management */}
@@ -1059,6 +2508,9 @@ export default function QFPayMinimal() {
           <div className={`${styles.statusItem} ${paymentIntentId ? styles.statusSuccess : styles.statusPending}`}>
             Payment Intent: {paymentIntentId ? '✅ Created' : '⏳ Not Created'}
           </div>
+          <div className={`${styles.statusItem} ${transaction?.status === 'paid' ? styles.statusSuccess : styles.statusPending}`}>
+            Payment: {transaction ? `${transaction.status === 'paid' ? '✅' : transaction.status === 'pending' ? '⏳' : '❌'} ${transaction.status}` : '⏳ Not Paid'}
+          </div>
           <div className={`${styles.statusItem} ${products.length > 0 ? styles.statusSuccess : styles.statusPending}`}>
             Products: {products.length > 0 ? `✅ ${products.length} Created` : '⏳ None Created'}
           </div>
@@ -1323,7 +2775,7 @@ export default function QFPayMinimal() {
           
           <button 
             onClick={setupPayment}
-            disabled={!qfpay || !!paymentIntentId || isLoading}
+            disabled={!qfpay || !!paymentIntentId || !!tokenIntentId || isLoading}
             className={styles.btn}
           >
             {isLoading ? '⏳ Setting up...' : `2. Payment Intent + createEnhance()`}
@@ -1359,7 +2811,7 @@ export default function QFPayMinimal() {
         <div className={styles.actionButtons} style={{ marginBottom: '20px' }}>
           <button 
             onClick={createSampleProducts}
-            disabled={isLoading || !config.appcode}
+            disabled={isLoading || !config.profileId}
             className={styles.btn}
           >
             {isLoading ? '⏳ Creating...' : 'Quick: Create Sample Products'}
@@ -1367,18 +2819,19 @@ export default function QFPayMinimal() {
           
           <button 
             onClick={createCustomerRecord}
-            disabled={isLoading || !config.appcode || !!customer}
+            disabled={isLoading || !config.profileId || !!customer}
             className={styles.btn}
           >
             {isLoading ? '⏳ Creating...' : customer ? '✅ Customer Created' : 'Create Customer'}
           </button>
           
           <button 
-            onClick={createTokenRecord}
-            disabled={isLoading || !customer || !!token}
+            onClick={tokenIntentId ? confirmTokenIntent : setupTokenIntent}
+            disabled={isLoading || !qfpay || !(customer || config.customerId) || !!token || (!!paymentIntentId && !transaction)}
             className={styles.btn}
+            title={!qfpay ? 'Run step 1 (QFpay.config()) first' : undefined}
           >
-            {isLoading ? '⏳ Generating...' : token ? '✅ Token Generated' : 'Generate Mock Token'}
+            {isLoading ? '⏳ Working...' : token ? '✅ Card Saved' : tokenIntentId ? 'Confirm & Save Card' : 'Save Card (Token Intent)'}
           </button>
         </div>
 
@@ -1394,21 +2847,24 @@ export default function QFPayMinimal() {
                 onChange={(e) => setProductForm(prev => ({ ...prev, name: e.target.value }))}
                 disabled={isLoading}
                 placeholder="e.g., Premium Monthly Plan"
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'name') }}
               />
+              {renderFieldError('product', 'name')}
             </label>
             
             <label>
-              Amount (in cents):
+              Price ({productForm.txcurrcd}):
               <input 
                 type="number"
                 value={productForm.txamt}
                 onChange={(e) => setProductForm(prev => ({ ...prev, txamt: e.target.value }))}
                 disabled={isLoading}
-                placeholder="999 = $9.99"
-                min="1"
-                style={{ marginTop: '5px' }}
+                placeholder={currencyExponent(productForm.txcurrcd) === 0 ? 'e.g. 1000' : 'e.g. 9.99'}
+                min="0"
+                step={amountStep(productForm.txcurrcd)}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'txamt') }}
               />
+              {renderFieldError('product', 'txamt')}
             </label>
 
             <label>
@@ -1417,12 +2873,11 @@ export default function QFPayMinimal() {
                 value={productForm.txcurrcd}
                 onChange={(e) => setProductForm(prev => ({ ...prev, txcurrcd: e.target.value }))}
                 disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'txcurrcd') }}
               >
-                <option value="HKD">Hong Kong Dollar</option>
-                <option value="USD">US Dollar</option>
-                <option value="CNY">Chinese Yuan</option>
+                {renderCurrencyOptions()}
               </select>
+              {renderFieldError('product', 'txcurrcd')}
             </label>
 
             <label>
@@ -1430,14 +2885,15 @@ export default function QFPayMinimal() {
               <select 
                 value={productForm.interval}
                 onChange={(e) => setProductForm(prev => ({ ...prev, interval: e.target.value }))}
-                disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                disabled={isLoading || productForm.type !== 'recurring'}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'interval') }}
               >
                 <option value="monthly">Monthly</option>
                 <option value="yearly">Yearly</option>
                 <option value="weekly">Weekly</option>
                 <option value="daily">Daily</option>
               </select>
+              {renderFieldError('product', 'interval')}
             </label>
 
             <label>
@@ -1446,11 +2902,12 @@ export default function QFPayMinimal() {
                 type="number"
                 value={productForm.interval_count}
                 onChange={(e) => setProductForm(prev => ({ ...prev, interval_count: e.target.value }))}
-                disabled={isLoading}
+                disabled={isLoading || productForm.type !== 'recurring'}
                 placeholder="1"
                 min="1"
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'interval_count') }}
               />
+              {renderFieldError('product', 'interval_count')}
             </label>
 
             <label>
@@ -1459,11 +2916,12 @@ export default function QFPayMinimal() {
                 value={productForm.type}
                 onChange={(e) => setProductForm(prev => ({ ...prev, type: e.target.value }))}
                 disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('product', 'type') }}
               >
                 <option value="recurring">Recurring</option>
                 <option value="onetime">One-time</option>
               </select>
+              {renderFieldError('product', 'type')}
             </label>
           </div>
 
@@ -1475,13 +2933,14 @@ export default function QFPayMinimal() {
               disabled={isLoading}
               placeholder="Product description for customers"
               rows={2}
-              style={{ marginTop: '5px', width: '100%', resize: 'vertical' }}
+              style={{ marginTop: '5px', width: '100%', resize: 'vertical', ...invalidInputStyle('product', 'description') }}
             />
+            {renderFieldError('product', 'description')}
           </label>
 
           <button 
             onClick={createCustomProduct}
-            disabled={isLoading || !config.appcode || !productForm.name.trim()}
+            disabled={isLoading || !config.profileId || !productForm.name.trim()}
             className={styles.btn}
             style={{ width: '100%' }}
           >
@@ -1503,7 +2962,7 @@ export default function QFPayMinimal() {
                   onChange={(e) => setSubscriptionForm(prev => ({ ...prev, customer_id: e.target.value }))}
                   disabled={isLoading}
                   placeholder="cust_xxxxxxxx or auto-filled"
-                  style={{ flex: 1 }}
+                  style={{ flex: 1, ...invalidInputStyle('subscription', 'customer_id') }}
                 />
                 <button 
                   onClick={() => copyToClipboard(subscriptionForm.customer_id, 'Customer ID')}
@@ -1521,6 +2980,7 @@ export default function QFPayMinimal() {
                   📋
                 </button>
               </div>
+              {renderFieldError('subscription', 'customer_id')}
             </label>
 
             <label>
@@ -1532,7 +2992,7 @@ export default function QFPayMinimal() {
                   onChange={(e) => setSubscriptionForm(prev => ({ ...prev, product_id: e.target.value }))}
                   disabled={isLoading}
                   placeholder="prod_xxxxxxxx or auto-filled"
-                  style={{ flex: 1 }}
+                  style={{ flex: 1, ...invalidInputStyle('subscription', 'products[0].product_id') }}
                 />
                 <button 
                   onClick={() => copyToClipboard(subscriptionForm.product_id, 'Product ID')}
@@ -1550,6 +3010,7 @@ export default function QFPayMinimal() {
                   📋
                 </button>
               </div>
+              {renderFieldError('subscription', 'products[0].product_id')}
             </label>
 
             <label>
@@ -1561,7 +3022,7 @@ export default function QFPayMinimal() {
                   onChange={(e) => setSubscriptionForm(prev => ({ ...prev, token_id: e.target.value }))}
                   disabled={isLoading}
                   placeholder="tk_xxxxxxxx or auto-filled"
-                  style={{ flex: 1 }}
+                  style={{ flex: 1, ...invalidInputStyle('subscription', 'token_id') }}
                 />
                 <button 
                   onClick={() => copyToClipboard(subscriptionForm.token_id, 'Token ID')}
@@ -1579,6 +3040,7 @@ export default function QFPayMinimal() {
                   📋
                 </button>
               </div>
+              {renderFieldError('subscription', 'token_id')}
             </label>
 
             <label>
@@ -1590,8 +3052,9 @@ export default function QFPayMinimal() {
                 disabled={isLoading}
                 placeholder="12 (leave empty for unlimited)"
                 min="1"
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('subscription', 'total_billing_cycles') }}
               />
+              {renderFieldError('subscription', 'total_billing_cycles')}
             </label>
 
             <label>
@@ -1601,14 +3064,15 @@ export default function QFPayMinimal() {
                 value={subscriptionForm.start_time}
                 onChange={(e) => setSubscriptionForm(prev => ({ ...prev, start_time: e.target.value }))}
                 disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('subscription', 'start_time') }}
               />
+              {renderFieldError('subscription', 'start_time')}
             </label>
           </div>
 
           <button 
             onClick={createCustomSubscription}
-            disabled={isLoading || !config.appcode || !subscriptionForm.customer_id.trim() || !subscriptionForm.product_id.trim() || !subscriptionForm.token_id.trim()}
+            disabled={isLoading || !config.profileId || !subscriptionForm.customer_id.trim() || !subscriptionForm.product_id.trim() || !subscriptionForm.token_id.trim()}
             className={styles.btn}
             style={{ width: '100%' }}
           >
@@ -1640,8 +3104,9 @@ export default function QFPayMinimal() {
                 onChange={(e) => setQueryForm(prev => ({ ...prev, subscription_id: e.target.value }))}
                 disabled={isLoading}
                 placeholder="sub_xxxxxxxx"
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('query', 'subscription_id') }}
               />
+              {renderFieldError('query', 'subscription_id')}
             </label>
 
             <label>
@@ -1652,8 +3117,9 @@ export default function QFPayMinimal() {
                 onChange={(e) => setQueryForm(prev => ({ ...prev, customer_id: e.target.value }))}
                 disabled={isLoading}
                 placeholder="cust_xxxxxxxx"
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('query', 'customer_id') }}
               />
+              {renderFieldError('query', 'customer_id')}
             </label>
 
             <label>
@@ -1662,15 +3128,17 @@ export default function QFPayMinimal() {
                 value={queryForm.state}
                 onChange={(e) => setQueryForm(prev => ({ ...prev, state: e.target.value }))}
                 disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('query', 'state') }}
               >
                 <option value="">All States</option>
                 <option value="incomplete">Incomplete</option>
                 <option value="active">Active</option>
+                <option value="paused">Paused</option>
                 <option value="past_due">Past Due</option>
                 <option value="canceled">Canceled</option>
                 <option value="unpaid">Unpaid</option>
               </select>
+              {renderFieldError('query', 'state')}
             </label>
 
             <label>
@@ -1679,20 +3147,21 @@ export default function QFPayMinimal() {
                 value={queryForm.page_size}
                 onChange={(e) => setQueryForm(prev => ({ ...prev, page_size: e.target.value }))}
                 disabled={isLoading}
-                style={{ marginTop: '5px' }}
+                style={{ marginTop: '5px', ...invalidInputStyle('query', 'page_size') }}
               >
                 <option value="5">5 per page</option>
                 <option value="10">10 per page</option>
                 <option value="20">20 per page</option>
                 <option value="50">50 per page</option>
               </select>
+              {renderFieldError('query', 'page_size')}
             </label>
           </div>
 
           <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '15px' }}>
             <button 
               onClick={querySubscriptions}
-              disabled={isLoading || !config.appcode}
+              disabled={isLoading || !config.profileId}
               className={styles.btn}
               style={{ flex: 1 }}
             >
@@ -1759,7 +3228,8 @@ export default function QFPayMinimal() {
                         <div><strong>State:</strong> <span style={{ 
                           color: subscription.state === 'active' ? '#059669' : 
                                 subscription.state === 'canceled' ? '#dc2626' : 
-                                subscription.state === 'past_due' ? '#d97706' : '#6b7280'
+                                subscription.state === 'past_due' ? '#d97706' :
+                                subscription.state === 'paused' ? '#2563eb' : '#6b7280'
                         }}>{subscription.state}</span></div>
                         <div><strong>Customer:</strong> {subscription.customer_id}</div>
                       </div>
@@ -1778,8 +3248,42 @@ export default function QFPayMinimal() {
                       )}
                       
                       <div style={{ fontSize: '12px', color: '#6b7280' }}>
-                        <strong>Products:</strong> {subscription.products?.length || 0} items | <strong>Token:</strong> {subscription.token_id}
+                        <strong>Products:</strong> {subscription.products?.length || 0} items
+                        {' '}| <strong>Per cycle:</strong> {subscriptionCycleAmount(subscription.products) || 'N/A'}
+                        {' '}| <strong>Token:</strong> {subscription.token_id}
                       </div>
+
+                      {subscription.state !== 'canceled' && (
+                        <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+                          {subscription.state === 'paused' ? (
+                            <button
+                              onClick={() => changeSubscription(subscription.subscription_id, 'resume')}
+                              disabled={isLoading}
+                              className={styles.btnSecondary}
+                              style={{ fontSize: '12px', padding: '4px 10px' }}
+                            >
+                              ▶️ Resume
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => changeSubscription(subscription.subscription_id, 'pause')}
+                              disabled={isLoading || subscription.state !== 'active'}
+                              className={styles.btnSecondary}
+                              style={{ fontSize: '12px', padding: '4px 10px' }}
+                            >
+                              ⏸️ Pause
+                            </button>
+                          )}
+                          <button
+                            onClick={() => changeSubscription(subscription.subscription_id, 'cancel')}
+                            disabled={isLoading}
+                            className={styles.btnSecondary}
+                            style={{ fontSize: '12px', padding: '4px 10px', color: '#dc2626' }}
+                          >
+                            ✖️ Cancel
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -1801,6 +3305,7 @@ export default function QFPayMinimal() {
             <div><strong>Customer ID:</strong> {customer.customer_id}</div>
             <div><strong>Name:</strong> {customer.name}</div>
             <div><strong>Email:</strong> {customer.email}</div>
+            {customer.phone && <div><strong>Phone:</strong> {customer.phone}</div>}
             <div><strong>Created:</strong> {customer.created_at}</div>
           </div>
         </div>
@@ -1810,14 +3315,114 @@ export default function QFPayMinimal() {
         <h4>Payment Intent</h4>
         <div className={styles.intentDetails}>
           <div><strong>Payment Intent ID:</strong> {paymentIntentId}</div>
-          <div><strong>Amount:</strong> {(config.amount / 100).toFixed(2)} {config.currency}</div>
+          <div><strong>Amount:</strong> {formatAmount(config.amount, config.currency)}</div>
+          {outTradeNo && <div><strong>Out Trade No:</strong> {outTradeNo}</div>}
+        </div>
+      </div>
+
+      {/* Payment Result */}
+      {paymentIntentId && (
+        <div className={styles.intentSection}>
+          <h4>Payment Result</h4>
+          {transaction ? (
+            <div className={styles.intentDetails}>
+              <div><strong>Status:</strong> <span style={{
+                fontWeight: 'bold',
+                color: transaction.status === 'paid' ? '#059669' :
+                      transaction.status === 'pending' ? '#d97706' : '#dc2626'
+              }}>{transaction.status.toUpperCase()}</span></div>
+              <div><strong>QFPay Serial No (syssn):</strong> {transaction.syssn || 'N/A'}</div>
+              <div><strong>Amount:</strong> {transaction.txamt !== null ? formatAmount(transaction.txamt, transaction.txcurrcd) : 'N/A'}</div>
+              <div><strong>Card:</strong> {transaction.card_brand ? `${transaction.card_brand} •••• ${transaction.card_last4 || '????'}` : 'N/A'}</div>
+              {transaction.paid_at && <div><strong>Paid At:</strong> {transaction.paid_at}</div>}
+              {transaction.respcd && <div><strong>Response:</strong> {transaction.respcd}{transaction.respmsg ? ` - ${transaction.respmsg}` : ''}</div>}
+              {transaction.respcd !== '0000' && describeRespcd(transaction.respcd) && (
+                <div style={{ color: '#6b7280' }}>{describeRespcd(transaction.respcd)?.explanation}</div>
+              )}
+            </div>
+          ) : (
+            <div style={{ fontSize: '14px', color: '#6b7280' }}>
+              No status yet. It is checked automatically after confirmPayment().
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: '10px', marginTop: '10px' }}>
+            <button
+              onClick={pollTransactionStatus}
+              disabled={isPolling || isLoading}
+              className={styles.btnSecondary}
+              style={{ padding: '6px 12px', fontSize: '12px' }}
+            >
+              {isPolling ? '⏳ Polling...' : '🔍 Check Status'}
+            </button>
+            {isPolling && (
+              <button
+                onClick={stopPolling}
+                className={styles.btnSecondary}
+                style={{ padding: '6px 12px', fontSize: '12px' }}
+              >
+                Stop Polling
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Refunds */}
+      <div className={styles.intentSection}>
+        <h4>↩️ Refunds</h4>
+        <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '10px', alignItems: 'end' }}>
+          <label>
+            Original syssn:
+            <input
+              type="text"
+              value={refundForm.syssn}
+              onChange={(e) => setRefundForm(prev => ({ ...prev, syssn: e.target.value }))}
+              disabled={isLoading}
+              placeholder="Filled from a paid transaction"
+              style={{ marginTop: '5px', width: '100%' }}
+            />
+          </label>
+          <label>
+            Amount{transaction?.txcurrcd ? ` (${transaction.txcurrcd})` : ''}:
+            <input
+              type="number"
+              min="0"
+              step={amountStep(transaction?.txcurrcd || config.currency)}
+              value={refundForm.amount}
+              onChange={(e) => setRefundForm(prev => ({ ...prev, amount: e.target.value }))}
+              disabled={isLoading}
+              placeholder="e.g. 1.50"
+              style={{ marginTop: '5px', width: '100%' }}
+            />
+          </label>
+          <button
+            onClick={createRefundRecord}
+            disabled={isLoading || !config.profileId || !refundForm.syssn.trim() || !refundForm.amount}
+            className={styles.btnSecondary}
+          >
+            {isLoading ? '⏳ Refunding...' : 'Refund'}
+          </button>
         </div>
+        {refundableRemaining !== null && (
+          <div style={{ marginTop: '10px', fontSize: '13px', color: '#374151' }}>
+            <strong>Refundable remaining:</strong> {formatAmount(refundableRemaining, refunds[refunds.length - 1]?.txcurrcd || transaction?.txcurrcd)}
+          </div>
+        )}
+        {refunds.length > 0 && (
+          <div style={{ marginTop: '10px', fontSize: '12px' }}>
+            {refunds.map((refund) => (
+              <div key={refund.refund_out_trade_no} style={{ color: refund.status === 'succeeded' ? '#059669' : '#dc2626' }}>
+                • {refund.refund_out_trade_no}: {formatAmount(refund.txamt, refund.txcurrcd)} ({refund.status}){refund.refund_syssn ? ` - syssn ${refund.refund_syssn}` : ''}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Token Details */}
       {token && (
         <div className={styles.intentSection}>
-          <h4>Mock Token Details</h4>
+          <h4>Saved Card Token</h4>
           <div className={styles.intentDetails}>
             <div><strong>Token ID:</strong> {token.token_id}</div>
             <div><strong>Type:</strong> {token.type}</div>
@@ -1829,69 +3434,192 @@ export default function QFPayMinimal() {
       )}
 
       {/* Products Section */}
-      {products.length > 0 && (
-        <div className={styles.configSection}>
-          <h4>🛍️ Created Products ({products.length})</h4>
-          <div style={{ display: 'grid', gap: '15px' }}>
-            {products.map((product, index) => (
-              <div key={index} style={{ 
-                border: '1px solid #e2e8f0', 
-                borderRadius: '8px', 
-                padding: '15px',
-                background: '#f8fafc'
-              }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '10px' }}>
-                  <div style={{ flex: 1 }}>
-                    <h5 style={{ margin: '0 0 5px 0', color: '#1f2937' }}>{product.name}</h5>
-                    <div style={{ fontSize: '14px', color: '#6b7280', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                      <span>Product ID: {product.product_id}</span>
+      <div className={styles.configSection}>
+        <h4>🛍️ Products ({products.length}{productTotal !== null ? ` of ${productTotal}` : ''})</h4>
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '15px' }}>
+          <select
+            value={productQuery.type}
+            onChange={(e) => changeProductQuery({ type: e.target.value, page: '1' })}
+            disabled={isLoading || !config.profileId}
+          >
+            <option value="">All Types</option>
+            <option value="recurring">Recurring</option>
+            <option value="onetime">One-time</option>
+          </select>
+          <select
+            value={productQuery.txcurrcd}
+            onChange={(e) => changeProductQuery({ txcurrcd: e.target.value, page: '1' })}
+            disabled={isLoading || !config.profileId}
+          >
+            <option value="">All Currencies</option>
+            {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <button
+            onClick={() => loadProducts()}
+            disabled={isLoading || !config.profileId}
+            className={styles.btnSecondary}
+            style={{ padding: '6px 12px', fontSize: '12px' }}
+          >
+            🔄 Load from QFPay
+          </button>
+          {productTotal !== null && productTotal > parseInt(productQuery.page_size) && (
+            <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+              <button
+                onClick={() => changeProductQuery({ page: Math.max(1, parseInt(productQuery.page) - 1).toString() })}
+                disabled={isLoading || parseInt(productQuery.page) <= 1}
+                className={styles.btnSecondary}
+                style={{ padding: '6px 12px', fontSize: '12px' }}
+              >
+                ← Prev
+              </button>
+              <span style={{ fontSize: '12px', color: '#6b7280', padding: '0 8px' }}>
+                Page {productQuery.page} of {Math.ceil(productTotal / parseInt(productQuery.page_size))}
+              </span>
+              <button
+                onClick={() => changeProductQuery({ page: (parseInt(productQuery.page) + 1).toString() })}
+                disabled={isLoading || parseInt(productQuery.page) >= Math.ceil(productTotal / parseInt(productQuery.page_size))}
+                className={styles.btnSecondary}
+                style={{ padding: '6px 12px', fontSize: '12px' }}
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+
+        {products.length === 0 && (
+          <div style={{ textAlign: 'center', color: '#6b7280', padding: '20px', fontStyle: 'italic' }}>
+            No products loaded. Create one above or load the catalog from QFPay.
+          </div>
+        )}
+
+        <div style={{ display: 'grid', gap: '15px' }}>
+          {products.map((product, index) => (
+            <div key={product.product_id || index} style={{ 
+              border: '1px solid #e2e8f0', 
+              borderRadius: '8px', 
+              padding: '15px',
+              background: '#f8fafc',
+              opacity: product.state === 'archived' ? 0.6 : 1
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '10px' }}>
+                <div style={{ flex: 1 }}>
+                  {editingProduct && editingProduct.product_id === product.product_id ? (
+                    <input
+                      type="text"
+                      value={editingProduct.name}
+                      onChange={(e) => setEditingProduct(prev => prev && { ...prev, name: e.target.value })}
+                      disabled={isLoading}
+                      style={{ marginBottom: '5px', width: '100%' }}
+                    />
+                  ) : (
+                    <h5 style={{ margin: '0 0 5px 0', color: '#1f2937' }}>
+                      {product.name}
+                      {product.state === 'archived' && <span style={{ marginLeft: '8px', fontSize: '11px', color: '#6b7280' }}>(archived)</span>}
+                    </h5>
+                  )}
+                  <div style={{ fontSize: '14px', color: '#6b7280', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <span>Product ID: {product.product_id}</span>
+                    <button 
+                      onClick={() => {
+                        if (product.product_id) {
+                          copyToClipboard(product.product_id, 'Product ID')
+                          setSubscriptionForm(prev => ({ ...prev, product_id: product.product_id || '' }))
+                        }
+                      }}
+                      style={{
+                        background: 'none',
+                        border: '1px solid #d1d5db',
+                        borderRadius: '4px',
+                        padding: '2px 6px',
+                        cursor: 'pointer',
+                        fontSize: '11px',
+                        color: '#6b7280'
+                      }}
+                      title="Copy Product ID and auto-fill subscription form"
+                    >
+                      📋
+                    </button>
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  {editingProduct && editingProduct.product_id === product.product_id ? (
+                    <>
+                      <button
+                        onClick={saveProductEdit}
+                        disabled={isLoading}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '6px 12px' }}
+                      >
+                        💾 Save
+                      </button>
+                      <button
+                        onClick={() => setEditingProduct(null)}
+                        disabled={isLoading}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '6px 12px' }}
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
                       <button 
-                        onClick={() => {
-                          if (product.product_id) {
-                            copyToClipboard(product.product_id, 'Product ID')
-                            setSubscriptionForm(prev => ({ ...prev, product_id: product.product_id || '' }))
-                          }
-                        }}
-                        style={{
-                          background: 'none',
-                          border: '1px solid #d1d5db',
-                          borderRadius: '4px',
-                          padding: '2px 6px',
-                          cursor: 'pointer',
-                          fontSize: '11px',
-                          color: '#6b7280'
-                        }}
-                        title="Copy Product ID and auto-fill subscription form"
+                        onClick={() => product.product_id && createSubscription(product.product_id)}
+                        disabled={!customer || !token || isLoading || product.state === 'archived'}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '6px 12px' }}
                       >
-                        📋
+                        Create Subscription
                       </button>
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => product.product_id && createSubscription(product.product_id)}
-                    disabled={!customer || !token || isLoading}
-                    className={styles.btnSecondary}
-                    style={{ fontSize: '12px', padding: '6px 12px' }}
-                  >
-                    Create Subscription
-                  </button>
-                </div>
-                <div style={{ fontSize: '13px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', color: '#4b5563' }}>
-                  <div>Amount: {product.txamt/100} {product.txcurrcd}</div>
-                  <div>Type: {product.type}</div>
-                  <div>Interval: {product.interval || 'N/A'}</div>
-                  <div>Count: {product.interval_count || 'N/A'}</div>
+                      <button
+                        onClick={() => product.product_id && setEditingProduct({
+                          product_id: product.product_id,
+                          name: product.name,
+                          description: product.description || ''
+                        })}
+                        disabled={isLoading || !product.product_id || product.state === 'archived'}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '6px 12px' }}
+                      >
+                        ✏️ Edit
+                      </button>
+                      <button
+                        onClick={() => product.product_id && archiveProduct(product.product_id)}
+                        disabled={isLoading || !product.product_id || product.state === 'archived'}
+                        className={styles.btnSecondary}
+                        style={{ fontSize: '12px', padding: '6px 12px' }}
+                      >
+                        🗄️ Archive
+                      </button>
+                    </>
+                  )}
                 </div>
-                {product.description && (
-                  <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '8px', fontStyle: 'italic' }}>
-                    {product.description}
-                  </div>
-                )}
               </div>
-            ))}
-          </div>
+              <div style={{ fontSize: '13px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', color: '#4b5563' }}>
+                <div>Amount: {formatAmount(product.txamt, product.txcurrcd)}</div>
+                <div>Type: {product.type}</div>
+                <div>Interval: {product.interval || 'N/A'}</div>
+                <div>Count: {product.interval_count || 'N/A'}</div>
+              </div>
+              {editingProduct && editingProduct.product_id === product.product_id ? (
+                <textarea
+                  value={editingProduct.description}
+                  onChange={(e) => setEditingProduct(prev => prev && { ...prev, description: e.target.value })}
+                  disabled={isLoading}
+                  placeholder="Product description for customers"
+                  rows={2}
+                  style={{ marginTop: '8px', width: '100%', resize: 'vertical' }}
+                />
+              ) : product.description && (
+                <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '8px', fontStyle: 'italic' }}>
+                  {product.description}
+                </div>
+              )}
+            </div>
+          ))}
         </div>
-      )}
+      </div>
 
       {/* Subscriptions Section */}
       {subscriptions.length > 0 && (
@@ -1911,16 +3639,20 @@ export default function QFPayMinimal() {
                 <div style={{ fontSize: '13px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', color: '#047857' }}>
                   <div>State: {subscription.state}</div>
                   <div>Products: {subscription.products.length}</div>
+                  <div>Per cycle: {subscriptionCycleAmount(subscription.products) || 'N/A'}</div>
                   <div>Customer: {subscription.customer_id}</div>
                   <div>Created: {subscription.created_at}</div>
                 </div>
                 <div style={{ marginTop: '10px', fontSize: '12px' }}>
                   <strong>Products:</strong>
-                  {subscription.products.map((item, idx) => (
-                    <div key={idx} style={{ marginLeft: '10px', color: '#047857' }}>
-                      • {item.product_id} (qty: {item.quantity})
-                    </div>
-                  ))}
+                  {subscription.products.map((item, idx) => {
+                    const product = products.find(candidate => candidate.product_id === item.product_id)
+                    return (
+                      <div key={idx} style={{ marginLeft: '10px', color: '#047857' }}>
+                        • {item.product_id} (qty: {item.quantity}){product && ` · ${formatAmount(product.txamt, product.txcurrcd)} each`}
+                      </div>
+                    )
+                  })}
                 </div>
               </div>
             ))}
@@ -1928,6 +3660,211 @@ export default function QFPayMinimal() {
         </div>
       )}
 
+      {/* API Call Inspector */}
+      <div className={styles.configSection}>
+        <h4>🔎 API Call Inspector ({outboundCalls.length})</h4>
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px', flexWrap: 'wrap' }}>
+          <input
+            type="text"
+            value={callTraceFilter}
+            onChange={(e) => setCallTraceFilter(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && loadOutboundCalls()}
+            placeholder="Filter by trace id"
+            style={{ fontFamily: 'monospace', width: '200px' }}
+          />
+          <button
+            onClick={() => loadOutboundCalls()}
+            className={styles.btnSecondary}
+            style={{ padding: '6px 12px', fontSize: '12px' }}
+          >
+            🔄 Refresh
+          </button>
+          <button
+            onClick={clearOutboundCalls}
+            disabled={outboundCalls.length === 0}
+            className={styles.btnSecondary}
+            style={{ padding: '6px 12px', fontSize: '12px' }}
+          >
+            Clear
+          </button>
+          <span style={{ fontSize: '12px', color: '#6b7280' }}>
+            Requests the server sent to QFPay for {profiles.find(profile => profile.id === config.profileId)?.name || 'all profiles'}, newest first. Client keys are never shown.
+          </span>
+        </div>
+        {outboundCalls.length === 0 ? (
+          <div style={{ textAlign: 'center', color: '#6b7280', padding: '20px', fontStyle: 'italic' }}>
+            No QFPay calls captured yet.
+          </div>
+        ) : (
+          <div style={{ maxHeight: '400px', overflowY: 'auto', display: 'grid', gap: '6px' }}>
+            {outboundCalls.map(call => (
+              <div key={call.id} style={{ border: '1px solid #e2e8f0', borderRadius: '6px', background: '#f8fafc', fontSize: '12px' }}>
+                <div
+                  onClick={() => setExpandedCallId(prev => prev === call.id ? null : call.id)}
+                  style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '8px 10px', cursor: 'pointer' }}
+                >
+                  <span style={{ color: '#9ca3af' }}>{new Date(call.started_at).toLocaleTimeString()}</span>
+                  <span style={{ minWidth: '140px', fontWeight: 'bold', color: '#374151' }}>{call.label}</span>
+                  <span style={{ flex: 1, fontFamily: 'monospace', color: '#1f2937' }}>{call.endpoint}</span>
+                  {call.attempt > 1 && (
+                    <span style={{ fontSize: '11px', color: '#92400e', background: '#fef3c7', borderRadius: '3px', padding: '1px 5px' }}>
+                      retry #{call.attempt - 1}
+                    </span>
+                  )}
+                  <span style={{
+                    fontFamily: 'monospace',
+                    padding: '1px 6px',
+                    borderRadius: '3px',
+                    color: 'white',
+                    background: call.respcd === '0000' ? '#10b981' : '#dc2626'
+                  }}>
+                    {call.error ? 'network error' : `${call.http_status} · ${call.respcd ?? 'no respcd'}`}
+                  </span>
+                  <span style={{ minWidth: '60px', textAlign: 'right', color: '#6b7280' }}>{call.latency_ms} ms</span>
+                  {call.trace_id && (
+                    <span style={{ fontFamily: 'monospace', color: '#6b7280', background: '#f3f4f6', borderRadius: '3px', padding: '0 4px' }}>
+                      {call.trace_id}
+                    </span>
+                  )}
+                </div>
+                {expandedCallId === call.id && (
+                  <div style={{ borderTop: '1px solid #e2e8f0', padding: '10px', display: 'grid', gap: '8px' }}>
+                    <div>
+                      <strong>POST</strong> <span style={{ fontFamily: 'monospace' }}>{call.url}</span> · {call.environment} · {call.appcode}
+                    </div>
+                    {(call.respmsg || call.error) && (
+                      <div style={{ color: call.respcd === '0000' ? '#374151' : '#dc2626' }}>
+                        {call.error || call.respmsg}
+                      </div>
+                    )}
+                    {call.respcd_info && (
+                      <div style={{ background: '#fef2f2', borderRadius: '4px', padding: '6px 8px' }}>
+                        <strong>{RESPCD_CATEGORY_LABELS[call.respcd_info.category]}:</strong> {call.respcd_info.explanation}
+                        <div>Suggested fix: {call.respcd_info.remediation}</div>
+                      </div>
+                    )}
+                    <div>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <strong>Parameter string (signed, sorted)</strong>
+                        <button
+                          onClick={() => copyToClipboard(call.param_string, 'Parameter string')}
+                          className={styles.btnSecondary}
+                          style={{ fontSize: '11px', padding: '2px 8px' }}
+                        >
+                          Copy
+                        </button>
+                      </div>
+                      <pre style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all', background: '#fff', padding: '6px', borderRadius: '4px' }}>
+                        {call.param_string || '(no parameters)'}
+                      </pre>
+                    </div>
+                    <div>
+                      <strong>Signature ({call.sign_type})</strong>
+                      <pre style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all', background: '#fff', padding: '6px', borderRadius: '4px' }}>
+                        {call.signature}
+                      </pre>
+                    </div>
+                    <div>
+                      <strong>Request headers</strong>
+                      <pre style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all', background: '#fff', padding: '6px', borderRadius: '4px' }}>
+                        {Object.entries(call.headers).map(([name, value]) => `${name}: ${value}`).join('\n')}
+                      </pre>
+                    </div>
+                    <div>
+                      <strong>Response body</strong>
+                      {call.response_signature && (
+                        <span style={{
+                          marginLeft: '8px',
+                          fontSize: '11px',
+                          borderRadius: '3px',
+                          padding: '1px 5px',
+                          ...(call.response_signature === 'valid'
+                            ? { color: '#065f46', background: '#d1fae5' }
+                            : call.response_signature === 'invalid'
+                              ? { color: '#991b1b', background: '#fee2e2' }
+                              : { color: '#92400e', background: '#fef3c7' })
+                        }}>
+                          X-QF-SIGN {call.response_signature}
+                        </span>
+                      )}
+                      <pre style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all', background: '#fff', padding: '6px', borderRadius: '4px', maxHeight: '240px', overflowY: 'auto' }}>
+                        {typeof call.response_body === 'string' ? call.response_body : JSON.stringify(call.response_body, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Saved Records */}
+      <div className={styles.configSection}>
+        <h4>🗄️ Saved Records ({storedRecords.length})</h4>
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px' }}>
+          <select
+            value={recordKindFilter}
+            onChange={(e) => setRecordKindFilter(e.target.value as '' | StoredRecordData['kind'])}
+          >
+            <option value="">All Kinds</option>
+            <option value="customer">Customers</option>
+            <option value="product">Products</option>
+            <option value="payment_intent">Payment Intents</option>
+            <option value="token_intent">Token Intents</option>
+            <option value="token">Card Tokens</option>
+            <option value="subscription">Subscriptions</option>
+            <option value="refund">Refunds</option>
+          </select>
+          <button
+            onClick={() => rehydrateFromStore()}
+            disabled={isLoading}
+            className={styles.btnSecondary}
+            style={{ padding: '6px 12px', fontSize: '12px' }}
+          >
+            🔄 Reload
+          </button>
+          <span style={{ fontSize: '12px', color: '#6b7280' }}>
+            Records for {profiles.find(profile => profile.id === config.profileId)?.name || config.environment}, kept across reloads and resets
+          </span>
+        </div>
+        {storedRecords.length === 0 ? (
+          <div style={{ textAlign: 'center', color: '#6b7280', padding: '20px', fontStyle: 'italic' }}>
+            Nothing recorded yet for this environment.
+          </div>
+        ) : (
+          <div style={{ maxHeight: '300px', overflowY: 'auto', display: 'grid', gap: '6px' }}>
+            {storedRecords
+              .filter(record => !recordKindFilter || record.kind === recordKindFilter)
+              .map(record => (
+                <div key={`${record.kind}:${record.id}`} style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '10px',
+                  fontSize: '12px',
+                  padding: '8px 10px',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '6px',
+                  background: '#f8fafc'
+                }}>
+                  <span style={{ minWidth: '100px', fontWeight: 'bold', color: '#374151' }}>{record.kind}</span>
+                  <span style={{ fontFamily: 'monospace', color: '#1f2937' }}>{record.id}</span>
+                  <span style={{ flex: 1, color: '#6b7280' }}>{describeRecord(record)}</span>
+                  <span style={{ color: '#9ca3af' }}>{new Date(record.created_at).toLocaleString()}</span>
+                  <button
+                    onClick={() => applyStoredRecord(record)}
+                    disabled={isLoading}
+                    className={styles.btnSecondary}
+                    style={{ fontSize: '11px', padding: '3px 8px' }}
+                  >
+                    Use
+                  </button>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
       {/* Logs */}
       <div className={styles.section}>
         <h4>Execution Log</h4>
@@ -1941,7 +3878,22 @@ export default function QFPayMinimal() {
                 color: log.type === 'error' ? '#dc2626' : log.type === 'success' ? '#10b981' : '#666'
               }}
             >
-              <span style={{ color: '#999' }}>[{log.timestamp.split('T')[1].split('.')[0]}]</span> {log.message}
+              <span style={{ color: '#999' }}>[{log.timestamp.split('T')[1].split('.')[0]}]</span>{' '}
+              {log.profile && (
+                <span style={{ background: '#eef2ff', color: '#4338ca', borderRadius: '3px', padding: '0 4px', marginRight: '4px' }}>
+                  {log.profile}
+                </span>
+              )}
+              {log.traceId && (
+                <span
+                  onClick={() => copyToClipboard(log.traceId as string, `Trace id ${log.traceId}`)}
+                  title="Trace id: matches the server log lines for this action. Click to copy."
+                  style={{ fontFamily: 'monospace', color: '#6b7280', background: '#f3f4f6', borderRadius: '3px', padding: '0 4px', marginRight: '4px', cursor: 'pointer' }}
+                >
+                  {log.traceId}
+                </span>
+              )}
+              {log.message}
             </div>
           ))}
         </div>
@@ -0,0 +1,376 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ApiRouteData, readApiResponse } from '@/lib/qfpay/api'
+import type { HttpMethod, JsonSchema, OpenAPIDocument, OpenAPIOperation, OpenAPIParameter } from '@/lib/qfpay/openapi'
+import styles from '../../styles.module.css'
+
+const SPEC_URL = '/api/qfpay/openapi.json'
+
+interface MerchantProfile {
+  id: string
+  name: string
+  appcode: string
+}
+
+interface Endpoint {
+  key: string
+  method: HttpMethod
+  path: string
+  operation: OpenAPIOperation
+}
+
+interface TryResult {
+  status: number
+  latencyMs: number
+  body: unknown
+}
+
+const METHOD_COLORS: Record<HttpMethod, string> = {
+  get: '#2563eb',
+  post: '#059669',
+  patch: '#d97706',
+  delete: '#dc2626'
+}
+
+const preStyle = {
+  margin: '4px 0 0',
+  padding: '8px',
+  background: '#fff',
+  border: '1px solid #e2e8f0',
+  borderRadius: '4px',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+  maxHeight: '400px',
+  overflow: 'auto'
+}
+
+const cellStyle = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0', verticalAlign: 'top' as const, textAlign: 'left' as const }
+
+function MethodBadge({ method }: { method: HttpMethod }) {
+  return (
+    <span style={{ display: 'inline-block', minWidth: '52px', padding: '1px 6px', borderRadius: '4px', background: METHOD_COLORS[method], color: '#fff', fontSize: '11px', fontWeight: 600, textAlign: 'center' }}>
+      {method.toUpperCase()}
+    </span>
+  )
+}
+
+// One-line type of a schema, e.g. "integer (1–100)" or "Product[]"
+function describeType(schema: JsonSchema | undefined): string {
+  if (!schema) return 'any'
+  if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop() || 'object'
+  if (Array.isArray(schema.allOf)) return (schema.allOf as JsonSchema[]).map(describeType).filter(type => type !== 'object').join(' & ') || 'object'
+  if (Array.isArray(schema.enum)) return (schema.enum as unknown[]).map(value => JSON.stringify(value)).join(' | ')
+  if (schema.type === 'array') return `${describeType(schema.items as JsonSchema)}[]`
+
+  const limits = [
+    schema.minimum !== undefined && schema.maximum !== undefined ? `${schema.minimum}–${schema.maximum}` : null,
+    schema.minimum !== undefined && schema.maximum === undefined ? `≥ ${schema.minimum}` : null,
+    schema.maxLength !== undefined ? `max ${schema.maxLength} chars` : null,
+    schema.pattern ? `pattern ${schema.pattern}` : null
+  ].filter(Boolean)
+  return `${schema.type || 'any'}${limits.length > 0 ? ` (${limits.join(', ')})` : ''}`
+}
+
+function bodyFields(operation: OpenAPIOperation) {
+  const schema = operation.requestBody?.content['application/json'].schema
+  if (!schema) return []
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>
+  const required = (schema.required || []) as string[]
+  const groups = ((schema.anyOf || []) as Array<{ required: string[] }>).map(option => option.required[0])
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    property,
+    required: required.includes(name) ? 'yes' : groups.includes(name) ? `one of ${groups.join(', ')}` : ''
+  }))
+}
+
+// Start every try-it form from the spec's example, pointed at the selected profile
+function initialValues(endpoint: Endpoint, profileId: string) {
+  const params: Record<string, string> = {}
+  endpoint.operation.parameters.forEach(parameter => {
+    params[parameter.name] = parameter.name === 'profileId' || (parameter.in === 'path' && endpoint.path.startsWith('/api/qfpay/profiles/'))
+      ? profileId
+      : parameter.schema.example !== undefined ? String(parameter.schema.example) : ''
+  })
+  const example = endpoint.operation.requestBody?.content['application/json'].example
+  const body = example
+    ? JSON.stringify('profileId' in example ? { ...example, profileId } : example, null, 2)
+    : ''
+  return { params, body }
+}
+
+function buildUrl(endpoint: Endpoint, params: Record<string, string>) {
+  const path = endpoint.path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(params[name] || ''))
+  const query = new URLSearchParams(
+    endpoint.operation.parameters
+      .filter(parameter => parameter.in === 'query' && params[parameter.name])
+      .map(parameter => [parameter.name, params[parameter.name]])
+  ).toString()
+  return query ? `${path}?${query}` : path
+}
+
+export default function ApiReference() {
+  const [spec, setSpec] = useState<OpenAPIDocument | null>(null)
+  const [specError, setSpecError] = useState<string | null>(null)
+  const [profiles, setProfiles] = useState<MerchantProfile[]>([])
+  const [profileId, setProfileId] = useState('mock')
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [params, setParams] = useState<Record<string, string>>({})
+  const [body, setBody] = useState('')
+  const [result, setResult] = useState<TryResult | null>(null)
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+
+  useEffect(() => {
+    fetch(SPEC_URL)
+      .then(response => response.json() as Promise<OpenAPIDocument>)
+      .then(setSpec)
+      .catch(error => setSpecError(error instanceof Error ? error.message : 'Could not load the OpenAPI document'))
+
+    fetch('/api/qfpay/profiles')
+      .then(response => readApiResponse<ApiRouteData['GET /api/qfpay/profiles']>(response))
+      .then(data => setProfiles(data.profiles))
+      .catch(() => setProfiles([]))
+  }, [])
+
+  const endpoints: Endpoint[] = spec
+    ? Object.entries(spec.paths).flatMap(([path, operations]) =>
+      (Object.entries(operations) as Array<[HttpMethod, OpenAPIOperation]>).map(([method, operation]) => ({
+        key: `${method.toUpperCase()} ${path}`,
+        method,
+        path,
+        operation
+      })))
+    : []
+  const selected = endpoints.find(endpoint => endpoint.key === selectedKey) || null
+
+  const selectEndpoint = (endpoint: Endpoint) => {
+    const values = initialValues(endpoint, profileId)
+    setSelectedKey(endpoint.key)
+    setParams(values.params)
+    setBody(values.body)
+    setResult(null)
+    setSendError(null)
+  }
+
+  const changeProfile = (id: string) => {
+    setProfileId(id)
+    if (selected) {
+      const values = initialValues(selected, id)
+      setParams(values.params)
+      setBody(values.body)
+    }
+  }
+
+  const send = async () => {
+    if (!selected) return
+    setIsSending(true)
+    setSendError(null)
+
+    try {
+      const hasBody = Boolean(selected.operation.requestBody)
+      if (hasBody) JSON.parse(body)
+
+      const headers: Record<string, string> = hasBody ? { 'Content-Type': 'application/json' } : {}
+      selected.operation.parameters
+        .filter(parameter => parameter.in === 'header' && params[parameter.name])
+        .forEach(parameter => { headers[parameter.name] = params[parameter.name] })
+
+      const startedAt = performance.now()
+      const response = await fetch(buildUrl(selected, params), {
+        method: selected.method.toUpperCase(),
+        headers,
+        body: hasBody ? body : undefined
+      })
+      const text = await response.text()
+      let parsed: unknown = text
+      try {
+        parsed = JSON.parse(text)
+      } catch {
+        // Not JSON; show the text as-is
+      }
+      setResult({ status: response.status, latencyMs: Math.round(performance.now() - startedAt), body: parsed })
+    } catch (error) {
+      setSendError(error instanceof SyntaxError ? `Request body is not valid JSON: ${error.message}` : error instanceof Error ? error.message : 'Unknown error')
+      setResult(null)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const renderParameterInput = (parameter: OpenAPIParameter) => {
+    const values = Array.isArray(parameter.schema.enum) ? parameter.schema.enum as string[] : null
+    const value = params[parameter.name] || ''
+    const onChange = (next: string) => setParams(prev => ({ ...prev, [parameter.name]: next }))
+
+    return (
+      <label key={`${parameter.in}:${parameter.name}`}>
+        {parameter.name}{parameter.required && ' *'} <span style={{ fontSize: '11px', color: '#6b7280' }}>({parameter.in})</span>
+        {values ? (
+          <select value={value} onChange={(e) => onChange(e.target.value)}>
+            <option value="">(not set)</option>
+            {values.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        ) : (
+          <input type="text" value={value} onChange={(e) => onChange(e.target.value)} placeholder={parameter.description} />
+        )}
+      </label>
+    )
+  }
+
+  const successSchema = ((selected?.operation.responses['200']?.content as Record<string, { schema: JsonSchema }> | undefined)?.['application/json']?.schema)
+  const dataSchema = (successSchema?.properties as Record<string, JsonSchema> | undefined)?.data
+  const fields = selected ? bodyFields(selected.operation) : []
+  const envelope = result?.body && typeof result.body === 'object' ? result.body as { success?: boolean; trace_id?: string | null } : null
+
+  return (
+    <div className={styles.nativeDemoContainer}>
+      <div className={styles.demoHeader}>
+        <h1>QFPay API Reference</h1>
+        <p className={styles.subtitle}>
+          Every <code>/api/qfpay/*</code> route, generated from the request schemas the server validates with. Pick one and send it.
+        </p>
+        <div style={{ fontSize: '14px', display: 'flex', gap: '16px', justifyContent: 'center' }}>
+          <Link href="/">← Back to the demo</Link>
+          <a href={SPEC_URL} target="_blank" rel="noreferrer">OpenAPI 3 document (JSON)</a>
+        </div>
+      </div>
+
+      {specError && (
+        <div className={styles.errorDisplay}>
+          <strong>Error:</strong> {specError}
+        </div>
+      )}
+
+      {spec && (
+        <div className={styles.configSection}>
+          <h4>Endpoints</h4>
+          {spec.tags.map(tag => (
+            <div key={tag.name} style={{ marginBottom: '10px' }}>
+              <div style={{ fontWeight: 600, fontSize: '13px' }}>
+                {tag.name} <span style={{ fontWeight: 400, color: '#6b7280' }}>— {tag.description}</span>
+              </div>
+              {endpoints.filter(endpoint => endpoint.operation.tags.includes(tag.name)).map(endpoint => (
+                <button
+                  key={endpoint.key}
+                  onClick={() => selectEndpoint(endpoint)}
+                  style={{
+                    display: 'flex',
+                    gap: '8px',
+                    alignItems: 'center',
+                    width: '100%',
+                    padding: '4px 6px',
+                    marginTop: '2px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    background: endpoint.key === selectedKey ? '#e0e7ff' : 'transparent',
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    fontSize: '13px'
+                  }}
+                >
+                  <MethodBadge method={endpoint.method} />
+                  <code>{endpoint.path}</code>
+                  <span style={{ color: '#6b7280' }}>{endpoint.operation.summary}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className={styles.configSection}>
+          <h4><MethodBadge method={selected.method} /> <code>{selected.path}</code></h4>
+          <p style={{ margin: '0 0 6px' }}>{selected.operation.summary}</p>
+          {selected.operation.description && <p style={{ margin: '0 0 6px', fontSize: '13px', color: '#4b5563' }}>{selected.operation.description}</p>}
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>
+            operationId <code>{selected.operation.operationId}</code> • returns <code>{describeType(dataSchema)}</code> in <code>data</code>
+          </div>
+
+          {fields.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', marginTop: '12px' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Body field</th>
+                  <th style={cellStyle}>Type</th>
+                  <th style={cellStyle}>Required</th>
+                  <th style={cellStyle}>Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field.name}>
+                    <td style={cellStyle}><code>{field.name}</code></td>
+                    <td style={cellStyle}>
+                      {field.property.type === 'array'
+                        ? `list of { ${Object.keys(((field.property.items as JsonSchema).properties || {}) as object).join(', ')} }`
+                        : describeType(field.property)}
+                    </td>
+                    <td style={cellStyle}>{field.required}</td>
+                    <td style={cellStyle}>{field.property.description as string | undefined}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <div className={styles.configSection}>
+          <h4>Try It</h4>
+          <div className={styles.configControls}>
+            <label>
+              Merchant Profile:
+              <select value={profileId} onChange={(e) => changeProfile(e.target.value)}>
+                {profiles.length === 0 && <option value={profileId}>{profileId}</option>}
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name} ({profile.appcode})</option>
+                ))}
+              </select>
+            </label>
+            {selected.operation.parameters.map(renderParameterInput)}
+          </div>
+
+          {selected.operation.requestBody && (
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={Math.min(16, body.split('\n').length + 1)}
+              spellCheck={false}
+              style={{ width: '100%', marginTop: '10px', fontFamily: 'monospace', fontSize: '12px', padding: '8px', boxSizing: 'border-box' }}
+            />
+          )}
+
+          <div className={styles.actionButtons} style={{ marginTop: '10px' }}>
+            <button onClick={send} disabled={isSending} className={styles.btn}>
+              {isSending ? 'Sending...' : `▶ Send ${selected.method.toUpperCase()} ${buildUrl(selected, params)}`}
+            </button>
+          </div>
+
+          {sendError && (
+            <div className={styles.errorDisplay}>
+              <strong>Error:</strong> {sendError}
+            </div>
+          )}
+
+          {result && (
+            <div style={{ marginTop: '10px' }}>
+              <div style={{ fontSize: '13px' }}>
+                <strong style={{ color: envelope?.success ? '#059669' : '#dc2626' }}>HTTP {result.status}</strong>
+                {' '}• {result.latencyMs} ms
+                {envelope?.trace_id && <> • trace <code>{envelope.trace_id}</code></>}
+              </div>
+              <pre style={preStyle}>{typeof result.body === 'string' ? result.body : JSON.stringify(result.body, null, 2)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ApiRouteData, readApiResponse } from '@/lib/qfpay/api'
+import { explainQFPaySignature } from '../../actions'
+import styles from '../../styles.module.css'
+
+type Explanation = Awaited<ReturnType<typeof explainQFPaySignature>>
+
+interface MerchantProfile {
+  id: string
+  name: string
+  appcode: string
+  sign_type: 'MD5' | 'SHA256'
+}
+
+const EXAMPLE_PARAMS = 'customer_id=cus_123&products=[{"product_id":"prod_1","quantity":1}]&token_id=tk_456&total_billing_cycles=12'
+
+const preStyle = {
+  margin: '4px 0 0',
+  padding: '8px',
+  background: '#fff',
+  border: '1px solid #e2e8f0',
+  borderRadius: '4px',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const
+}
+
+// Make leading/trailing whitespace visible, since it is signed as-is
+function showWhitespace(value: string) {
+  return value.replace(/^\s+|\s+$/g, match => match.replace(/ /g, '␣').replace(/\t/g, '⇥').replace(/\r?\n/g, '↵'))
+}
+
+// Split two strings into common prefix, differing middles and common suffix
+function diffStrings(ours: string, theirs: string) {
+  let start = 0
+  while (start < ours.length && start < theirs.length && ours[start] === theirs[start]) start++
+  let end = 0
+  while (
+    end < ours.length - start &&
+    end < theirs.length - start &&
+    ours[ours.length - 1 - end] === theirs[theirs.length - 1 - end]
+  ) end++
+  return {
+    prefix: ours.slice(0, start),
+    ours: ours.slice(start, ours.length - end),
+    theirs: theirs.slice(start, theirs.length - end),
+    suffix: ours.slice(ours.length - end)
+  }
+}
+
+export default function SignatureDebugger() {
+  const [form, setForm] = useState({
+    params: EXAMPLE_PARAMS,
+    format: 'auto' as 'auto' | 'form' | 'json',
+    algorithm: 'MD5' as 'MD5' | 'SHA256',
+    keySource: 'input' as 'input' | 'profile',
+    clientKey: '',
+    profileId: '',
+    expectedSignature: ''
+  })
+  const [profiles, setProfiles] = useState<MerchantProfile[]>([])
+  const [result, setResult] = useState<Explanation | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Vault profiles let you check a signature without pasting the key; the key stays on the server
+  useEffect(() => {
+    fetch('/api/qfpay/profiles')
+      .then(response => readApiResponse<ApiRouteData['GET /api/qfpay/profiles']>(response))
+      .then(data => setProfiles(data.profiles))
+      .catch(() => setProfiles([]))
+  }, [])
+
+  const explain = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const explanation = await explainQFPaySignature({
+        params: form.params,
+        format: form.format,
+        algorithm: form.algorithm,
+        clientKey: form.keySource === 'input' ? form.clientKey : undefined,
+        profileId: form.keySource === 'profile' ? form.profileId : undefined,
+        expectedSignature: form.expectedSignature
+      })
+
+      if (!explanation.success) {
+        throw new Error(explanation.error)
+      }
+
+      setResult(explanation)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error')
+      setResult(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const steps = result?.steps
+  const issues = result?.issues || []
+  const flaggedParams = new Set(issues.map(issue => issue.param).filter(Boolean))
+  const matchingVariants = (result?.variants || []).filter(variant => variant.matches)
+  const otherVariants = (result?.variants || []).filter(variant => !variant.matches)
+
+  return (
+    <div className={styles.nativeDemoContainer}>
+      <div className={styles.demoHeader}>
+        <h1>QFPay Signature Debugger</h1>
+        <p className={styles.subtitle}>
+          Paste request parameters, see every signing step, and find out why a signature doesn&apos;t match
+        </p>
+        <Link href="/" style={{ fontSize: '14px' }}>← Back to the demo</Link>
+      </div>
+
+      {/* Input */}
+      <div className={styles.configSection}>
+        <h4>Parameters</h4>
+        <textarea
+          value={form.params}
+          onChange={(e) => setForm(prev => ({ ...prev, params: e.target.value }))}
+          rows={6}
+          spellCheck={false}
+          placeholder="k=v&k=v (one pair per line also works) or a JSON object"
+          style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px', padding: '8px', boxSizing: 'border-box' }}
+        />
+        <div className={styles.configControls} style={{ marginTop: '10px' }}>
+          <label>
+            Input Format:
+            <select
+              value={form.format}
+              onChange={(e) => setForm(prev => ({ ...prev, format: e.target.value as typeof form.format }))}
+            >
+              <option value="auto">Detect</option>
+              <option value="form">Form-encoded (k=v&amp;k=v)</option>
+              <option value="json">JSON object</option>
+            </select>
+          </label>
+
+          <label>
+            Algorithm:
+            <select
+              value={form.algorithm}
+              onChange={(e) => setForm(prev => ({ ...prev, algorithm: e.target.value as 'MD5' | 'SHA256' }))}
+            >
+              <option value="MD5">MD5</option>
+              <option value="SHA256">SHA256</option>
+            </select>
+          </label>
+
+          <label>
+            Client Key From:
+            <select
+              value={form.keySource}
+              onChange={(e) => setForm(prev => ({ ...prev, keySource: e.target.value as 'input' | 'profile' }))}
+            >
+              <option value="input">Entered key</option>
+              <option value="profile">Merchant profile (vault)</option>
+            </select>
+          </label>
+
+          {form.keySource === 'input' ? (
+            <label>
+              Client Key:
+              <input
+                type="password"
+                value={form.clientKey}
+                onChange={(e) => setForm(prev => ({ ...prev, clientKey: e.target.value }))}
+                placeholder="Used for this computation only, never stored or logged"
+                autoComplete="off"
+              />
+            </label>
+          ) : (
+            <label>
+              Merchant Profile:
+              <select
+                value={form.profileId}
+                onChange={(e) => {
+                  const profile = profiles.find(item => item.id === e.target.value)
+                  setForm(prev => ({ ...prev, profileId: e.target.value, algorithm: profile?.sign_type || prev.algorithm }))
+                }}
+              >
+                <option value="">Select a merchant profile...</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name} ({profile.appcode})</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label>
+            Expected Signature (optional):
+            <input
+              type="text"
+              value={form.expectedSignature}
+              onChange={(e) => setForm(prev => ({ ...prev, expectedSignature: e.target.value }))}
+              placeholder="The X-QF-SIGN value QFPay expects"
+              style={{ fontFamily: 'monospace' }}
+            />
+          </label>
+        </div>
+        <div className={styles.actionButtons} style={{ marginTop: '15px' }}>
+          <button
+            onClick={explain}
+            disabled={isLoading || !form.params.trim() || (form.keySource === 'input' ? !form.clientKey : !form.profileId)}
+            className={styles.btn}
+          >
+            {isLoading ? 'Computing...' : '🔏 Compute Signature'}
+          </button>
+        </div>
+        {error && (
+          <div className={styles.errorDisplay}>
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+      </div>
+
+      {steps && (
+        <div className={styles.configSection}>
+          <h4>Signing Steps</h4>
+
+          <div style={{ marginBottom: '12px' }}>
+            <strong>1. Sort keys ascending</strong> <span style={{ fontSize: '12px', color: '#6b7280' }}>(parsed as {steps.format === 'json' ? 'JSON' : 'form-encoded'})</span>
+            <div style={preStyle}>{steps.sorted_keys.join(', ') || '(no parameters)'}</div>
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <strong>2. Join as k=v with &amp;</strong> <span style={{ fontSize: '12px', color: '#6b7280' }}>(highlighted parameters have issues listed below)</span>
+            <div style={preStyle}>
+              {steps.sorted_keys.map((key, index) => {
+                const value = steps.params[key]
+                return (
+                  <span key={key}>
+                    {index > 0 && '&'}
+                    <span
+                      title={issues.filter(issue => issue.param === key).map(issue => issue.message).join('\n') || undefined}
+                      style={flaggedParams.has(key) ? { background: '#fef3c7', outline: '1px solid #f59e0b', borderRadius: '2px' } : undefined}
+                    >
+                      {showWhitespace(key)}={value === '' ? <em style={{ color: '#dc2626' }}>(empty)</em> : showWhitespace(value)}
+                    </span>
+                  </span>
+                )
+              })}
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <strong>3. Append the client key</strong>
+            <div style={preStyle}>
+              {steps.param_string}
+              <span style={{ background: '#e0e7ff' }}>{steps.sign_string.slice(steps.param_string.length)}</span>
+            </div>
+          </div>
+
+          <div>
+            <strong>4. {form.algorithm} digest (hex)</strong>
+            <div style={preStyle}>{steps.signature}</div>
+          </div>
+        </div>
+      )}
+
+      {result && result.expected_signature && (
+        <div className={styles.configSection}>
+          <h4>Comparison</h4>
+          {result.matches ? (
+            <div style={{ padding: '10px', background: '#ecfdf5', border: '1px solid #10b981', borderRadius: '6px' }}>
+              ✅ Signatures match{result.case_differs && ' (only the hex letter case differs, which QFPay ignores)'}.
+            </div>
+          ) : (
+            <>
+              <div style={{ padding: '10px', background: '#fef2f2', border: '1px solid #dc2626', borderRadius: '6px', marginBottom: '12px' }}>
+                ❌ Mismatch: computed <code>{steps?.signature}</code>, expected <code>{result.expected_signature}</code>
+              </div>
+
+              {matchingVariants.length > 0 ? (
+                matchingVariants.map(variant => {
+                  const diff = diffStrings(steps?.param_string || '', variant.param_string)
+                  return (
+                    <div key={variant.id} style={{ marginBottom: '12px' }}>
+                      <strong>Likely cause: {variant.description}</strong>
+                      <div style={{ fontSize: '12px', color: '#6b7280' }}>Signing it this way reproduces the expected signature.</div>
+                      {diff.ours || diff.theirs ? (
+                        <>
+                          <div style={preStyle}>
+                            <span style={{ color: '#6b7280' }}>ours:   </span>
+                            {diff.prefix}<span style={{ background: '#fecaca' }}>{diff.ours}</span>{diff.suffix}
+                          </div>
+                          <div style={preStyle}>
+                            <span style={{ color: '#6b7280' }}>theirs: </span>
+                            {diff.prefix}<span style={{ background: '#bbf7d0' }}>{diff.theirs}</span>{diff.suffix}
+                          </div>
+                        </>
+                      ) : (
+                        <div style={preStyle}>Same parameter string; the difference is in the key or algorithm.</div>
+                      )}
+                    </div>
+                  )
+                })
+              ) : (
+                <div style={{ fontSize: '13px', marginBottom: '12px' }}>
+                  None of the common mistakes reproduce the expected signature. Check the client key, and that both sides sign exactly the same parameters.
+                </div>
+              )}
+
+              {otherVariants.length > 0 && (
+                <details>
+                  <summary style={{ cursor: 'pointer', fontSize: '13px' }}>Also tried ({otherVariants.length})</summary>
+                  <div style={{ display: 'grid', gap: '4px', marginTop: '6px', fontSize: '12px' }}>
+                    {otherVariants.map(variant => (
+                      <div key={variant.id}>
+                        {variant.description}: <code>{variant.signature}</code>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {result && issues.length > 0 && (
+        <div className={styles.configSection}>
+          <h4>⚠️ Things to Check ({issues.length})</h4>
+          <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px' }}>
+            {issues.map((issue, index) => (
+              <li key={`${issue.kind}:${issue.param || ''}:${index}`}>
+                {issue.param && <code style={{ background: '#fef3c7' }}>{issue.param}</code>} {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
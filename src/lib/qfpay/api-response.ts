@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ApiErrorBody, ApiErrorCode, ApiFailure, ApiSuccess } from './api'
+import { QFPayError, QFPaySignatureError, QFPayTimeoutError, QFPayUnavailableError } from './client'
+import { IdempotencyError } from './idempotency'
+import { RefundValidationError } from './refunds'
+import { getTraceId } from './trace'
+import { ValidationError } from './validation'
+import { VaultError } from './vault'
+
+/**
+ * Server side of the `/api/qfpay/*` envelope (types live in ./api)
+ */
+
+// Stack traces and upstream bodies help locally but must never reach a production browser
+function isDevelopment() {
+  return process.env.NODE_ENV === 'development'
+}
+
+/**
+ * Whether the caller asked for untouched QFPay data with ?include_raw=true
+ */
+export function includeRawResponse(request: NextRequest) {
+  return request.nextUrl.searchParams.get('include_raw') === 'true'
+}
+
+// Untouched QFPay data: whole responses (`raw_response`) and single trade records (`raw_transaction`)
+const RAW_FIELDS = ['raw_response', 'raw_transaction']
+
+/**
+ * Drop raw QFPay data at any depth: created objects, query results and stored records all carry some.
+ * Server actions apply it to every result, since the browser can't ask for ?include_raw=true.
+ */
+export function stripRawResponse(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripRawResponse)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !RAW_FIELDS.includes(key))
+      .map(([key, item]) => [key, stripRawResponse(item)])
+  )
+}
+
+export function apiSuccess<T>(
+  data: T,
+  options: { status?: number; includeRaw?: boolean; replayed?: boolean } = {}
+) {
+  const body: ApiSuccess<T> = {
+    success: true,
+    data: (options.includeRaw ? data : stripRawResponse(data)) as T,
+    trace_id: getTraceId() ?? null,
+    ...(options.replayed !== undefined ? { replayed: options.replayed } : {})
+  }
+  return NextResponse.json(body, { status: options.status ?? 200 })
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  status: number,
+  extra: Omit<ApiErrorBody, 'code' | 'message'> = {}
+) {
+  const body: ApiFailure = {
+    success: false,
+    error: { code, message, ...extra },
+    trace_id: getTraceId() ?? null
+  }
+  return NextResponse.json(body, { status })
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 409 || status === 422) return 'conflict'
+  if (status >= 500) return 'internal_error'
+  return 'validation_error'
+}
+
+/**
+ * Map anything a route handler can throw to the envelope and an HTTP status
+ */
+export function apiErrorFromException(error: unknown) {
+  if (error instanceof ValidationError) {
+    return apiError('validation_error', error.message, error.httpStatus, { fields: error.fields })
+  }
+
+  if (error instanceof VaultError || error instanceof RefundValidationError || error instanceof IdempotencyError) {
+    return apiError(codeForStatus(error.httpStatus), error.message, error.httpStatus)
+  }
+
+  if (error instanceof QFPayError) {
+    const upstream = {
+      respcd: error.respcd,
+      respmsg: error.respmsg,
+      ...(error.respcdInfo ? {
+        category: error.respcdInfo.category,
+        explanation: error.respcdInfo.explanation,
+        remediation: error.respcdInfo.remediation
+      } : {}),
+      ...(isDevelopment() && error.response !== undefined ? { upstream_response: error.response } : {})
+    }
+
+    if (error instanceof QFPaySignatureError) {
+      return apiError('signature_error', error.message, error.httpStatus)
+    }
+    if (error instanceof QFPayTimeoutError) {
+      return apiError('timeout', error.message, error.httpStatus)
+    }
+    if (error instanceof QFPayUnavailableError) {
+      return apiError('upstream_unavailable', error.message, error.httpStatus)
+    }
+    // A 2xx carrying a respcd is QFPay rejecting the request; anything else is an HTTP-level failure
+    const respcdError = Boolean(error.respcd) && error.upstreamStatus !== undefined && error.upstreamStatus < 300
+    return apiError(respcdError ? 'upstream_respcd_error' : 'upstream_http_error', error.message, error.httpStatus, upstream)
+  }
+
+  // Request bodies that aren't JSON
+  if (error instanceof SyntaxError) {
+    return apiError('validation_error', `Invalid JSON body: ${error.message}`, 400)
+  }
+
+  return apiError(
+    'internal_error',
+    isDevelopment() && error instanceof Error ? error.message : 'Internal server error',
+    500,
+    isDevelopment() && error instanceof Error ? { stack: error.stack } : {}
+  )
+}
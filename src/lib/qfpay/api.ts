@@ -0,0 +1,206 @@
+import type { CircuitStatus } from './circuit-breaker'
+import type { OutboundCall } from './inspector'
+import type { ProductRecord } from './products'
+import type { RefundRecord } from './refunds'
+import type { RespcdCategory } from './respcd'
+import type { RecordKind } from './store'
+import type { TransactionResult } from './transactions'
+import type { FieldErrors } from './validation'
+import type { MerchantProfile, ProfileEnvironment } from './vault'
+
+/**
+ * Response envelope of every `/api/qfpay/*` route, and the data each route returns.
+ * Type-only imports plus the trace header name and a small fetch helper, so it is safe to use from the browser
+ * and from other services calling these routes.
+ */
+
+/**
+ * Header carrying the trace id from the browser to API routes and from the QFPay client to the gateway
+ */
+export const TRACE_HEADER = 'X-Trace-Id'
+
+export type ApiErrorCode =
+  // The request itself is invalid: missing or malformed fields, unknown record kind, bad idempotency key
+  | 'validation_error'
+  | 'not_found'
+  // The request is valid but can't be carried out in the current state (e.g. refund exceeds the original)
+  | 'conflict'
+  | 'forbidden'
+  // QFPay's response failed X-QF-SIGN verification and was discarded
+  | 'signature_error'
+  // QFPay answered with a non-2xx status or a body that isn't JSON
+  | 'upstream_http_error'
+  // QFPay answered with a respcd other than 0000; see `respcd`/`respmsg`
+  | 'upstream_respcd_error'
+  | 'timeout'
+  // Circuit breaker open: QFPay has been failing and isn't being called
+  | 'upstream_unavailable'
+  | 'internal_error'
+
+export interface ApiErrorBody {
+  code: ApiErrorCode
+  message: string
+  // validation_error only: message per invalid field, e.g. { txamt: 'must be a positive whole amount ...' }
+  fields?: FieldErrors
+  // Upstream errors only
+  respcd?: string
+  respmsg?: string
+  // From the respcd catalog, when `respcd` is a known code
+  category?: RespcdCategory
+  explanation?: string
+  remediation?: string
+  // Development builds only
+  stack?: string
+  upstream_response?: unknown
+}
+
+export interface ApiSuccess<T> {
+  success: true
+  data: T
+  trace_id: string | null
+  // True when an Idempotency-Key repeat was answered from the first call's result
+  replayed?: boolean
+}
+
+export interface ApiFailure {
+  success: false
+  error: ApiErrorBody
+  trace_id: string | null
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure
+
+// `raw_response` (the untouched QFPay body) is only included when the request has ?include_raw=true
+interface WithRawResponse {
+  raw_response?: Record<string, unknown>
+}
+
+export interface ProductData extends ProductRecord, WithRawResponse {}
+
+export interface ProductChangeData extends Partial<ProductRecord>, WithRawResponse {
+  product_id: string
+  updated_at?: string
+}
+
+export interface ProductQueryData extends WithRawResponse {
+  products: ProductRecord[]
+  total_count: number
+  page: number
+  page_size: number
+  query_params: Record<string, string>
+}
+
+export interface SubscriptionData extends WithRawResponse {
+  subscription_id: string
+  customer_id: string
+  token_id: string
+  products: Array<{ product_id: string; quantity: number }>
+  state: string
+  total_billing_cycles?: number | null
+  start_time?: string | null
+  created_at?: string
+  next_billing_time?: string
+  last_billing_time?: string
+  completed_billing_iteration?: number
+}
+
+// cancel/pause/resume only report the new state
+export interface SubscriptionChangeData extends WithRawResponse {
+  subscription_id: string
+  state: string
+  updated_at?: string
+}
+
+export interface SubscriptionQueryData extends WithRawResponse {
+  subscriptions: SubscriptionData[]
+  total_count: number
+  page: number
+  page_size: number
+  query_params: Record<string, string>
+}
+
+export interface TransactionData extends TransactionResult, WithRawResponse {}
+
+export interface RefundData extends WithRawResponse {
+  refund: RefundRecord
+  original_txamt: number
+  total_refunded: number
+  refundable_remaining: number
+}
+
+export interface StoredRecordData extends WithRawResponse {
+  kind: RecordKind
+  id: string
+  environment: string
+  appcode: string
+  data: Record<string, unknown>
+  deleted: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface GatewayHealthData extends CircuitStatus {
+  environment: ProfileEnvironment
+}
+
+/**
+ * Data returned by each route, keyed by `METHOD path`
+ */
+export interface ApiRouteData {
+  'GET /api/qfpay/profiles': { profiles: MerchantProfile[] }
+  'POST /api/qfpay/profiles': MerchantProfile
+  'GET /api/qfpay/profiles/{id}': MerchantProfile
+  'PATCH /api/qfpay/profiles/{id}': MerchantProfile
+  'DELETE /api/qfpay/profiles/{id}': { profile_id: string }
+  'POST /api/qfpay/product/create': ProductData
+  'POST /api/qfpay/product/query': ProductQueryData
+  'POST /api/qfpay/product/update': ProductChangeData
+  'POST /api/qfpay/product/archive': ProductChangeData
+  'POST /api/qfpay/subscription/create': SubscriptionData
+  'POST /api/qfpay/subscription/query': SubscriptionQueryData
+  'POST /api/qfpay/subscription/cancel': SubscriptionChangeData
+  'POST /api/qfpay/subscription/pause': SubscriptionChangeData
+  'POST /api/qfpay/subscription/resume': SubscriptionChangeData
+  'POST /api/qfpay/transaction/query': TransactionData
+  'POST /api/qfpay/refund/create': RefundData
+  'GET /api/qfpay/records': { records: StoredRecordData[]; total_count: number }
+  'GET /api/qfpay/records/{kind}/{id}': StoredRecordData
+  'GET /api/qfpay/calls': { calls: OutboundCall[]; total_count: number }
+  'DELETE /api/qfpay/calls': null
+  'GET /api/qfpay/health': { gateways: GatewayHealthData[] }
+  'DELETE /api/qfpay/health': { environments: ProfileEnvironment[] }
+}
+
+/**
+ * Thrown by readApiResponse for a `success: false` envelope
+ */
+export class ApiRequestError extends Error {
+  code: ApiErrorCode
+  status: number
+  respcd?: string
+  respmsg?: string
+  fields?: FieldErrors
+  traceId: string | null
+
+  constructor(status: number, failure: ApiFailure) {
+    super(failure.error.message)
+    this.name = 'ApiRequestError'
+    this.code = failure.error.code
+    this.status = status
+    this.respcd = failure.error.respcd
+    this.respmsg = failure.error.respmsg
+    this.fields = failure.error.fields
+    this.traceId = failure.trace_id
+  }
+}
+
+/**
+ * Unwrap an envelope: resolves to `data` or throws an ApiRequestError
+ */
+export async function readApiResponse<T>(response: Response): Promise<T> {
+  const result = await response.json() as ApiResponse<T>
+  if (!result.success) {
+    throw new ApiRequestError(response.status, result)
+  }
+  return result.data
+}
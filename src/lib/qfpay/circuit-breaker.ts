@@ -0,0 +1,130 @@
+/**
+ * Circuit breaker per QFPay base URL. After repeated outage-type failures (timeouts,
+ * network errors, 5xx, gateway busy) calls fail fast instead of waiting on a dead
+ * gateway; after a cooldown one probe request is let through to test recovery.
+ * Business errors (bad parameters, declined cards) say nothing about availability and don't count.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitStatus {
+  base_url: string
+  state: CircuitState
+  consecutive_failures: number
+  // Set while open: when the next probe is allowed
+  retry_at: string | null
+  last_error: string | null
+  last_failure_at: string | null
+  last_success_at: string | null
+}
+
+export const CIRCUIT_FAILURE_THRESHOLD = 5
+export const CIRCUIT_COOLDOWN_MS = 30_000
+
+interface Circuit {
+  state: CircuitState
+  failures: number
+  opened_at: number | null
+  probe_in_flight: boolean
+  last_error: string | null
+  last_failure_at: number | null
+  last_success_at: number | null
+}
+
+// Kept on globalThis so dev-server hot reloads and separate route bundles share breaker state
+const globalState = globalThis as typeof globalThis & { __qfpayCircuits?: Map<string, Circuit> }
+const circuits: Map<string, Circuit> = globalState.__qfpayCircuits ??= new Map()
+
+function getCircuit(baseURL: string): Circuit {
+  let circuit = circuits.get(baseURL)
+  if (!circuit) {
+    circuit = {
+      state: 'closed',
+      failures: 0,
+      opened_at: null,
+      probe_in_flight: false,
+      last_error: null,
+      last_failure_at: null,
+      last_success_at: null
+    }
+    circuits.set(baseURL, circuit)
+  }
+  return circuit
+}
+
+/**
+ * Whether a request to `baseURL` may go out now. An open circuit past its cooldown
+ * moves to half-open and admits exactly one probe.
+ */
+export function acquireCircuit(baseURL: string): boolean {
+  const circuit = getCircuit(baseURL)
+
+  if (circuit.state === 'open' && circuit.opened_at !== null && Date.now() - circuit.opened_at >= CIRCUIT_COOLDOWN_MS) {
+    circuit.state = 'half_open'
+    circuit.probe_in_flight = false
+  }
+
+  if (circuit.state === 'closed') return true
+  if (circuit.state === 'half_open' && !circuit.probe_in_flight) {
+    circuit.probe_in_flight = true
+    return true
+  }
+  return false
+}
+
+export function recordCircuitSuccess(baseURL: string) {
+  const circuit = getCircuit(baseURL)
+  circuit.state = 'closed'
+  circuit.failures = 0
+  circuit.opened_at = null
+  circuit.probe_in_flight = false
+  circuit.last_success_at = Date.now()
+}
+
+/**
+ * Count an outage-type failure. Returns true when this failure opened the circuit.
+ */
+export function recordCircuitFailure(baseURL: string, error: string): boolean {
+  const circuit = getCircuit(baseURL)
+  circuit.failures++
+  circuit.last_error = error
+  circuit.last_failure_at = Date.now()
+  circuit.probe_in_flight = false
+
+  // A failed probe reopens immediately; otherwise open once the threshold is reached
+  if (circuit.state === 'half_open' || (circuit.state === 'closed' && circuit.failures >= CIRCUIT_FAILURE_THRESHOLD)) {
+    circuit.state = 'open'
+    circuit.opened_at = Date.now()
+    return true
+  }
+  return false
+}
+
+/**
+ * A request that ended without saying anything about availability (e.g. a business
+ * error). Frees a half-open probe slot without changing the state.
+ */
+export function releaseCircuit(baseURL: string) {
+  getCircuit(baseURL).probe_in_flight = false
+}
+
+export function getCircuitStatus(baseURL: string): CircuitStatus {
+  const circuit = getCircuit(baseURL)
+  const iso = (time: number | null) => time === null ? null : new Date(time).toISOString()
+  return {
+    base_url: baseURL,
+    state: circuit.state,
+    consecutive_failures: circuit.failures,
+    retry_at: circuit.state === 'open' && circuit.opened_at !== null ? iso(circuit.opened_at + CIRCUIT_COOLDOWN_MS) : null,
+    last_error: circuit.last_error,
+    last_failure_at: iso(circuit.last_failure_at),
+    last_success_at: iso(circuit.last_success_at)
+  }
+}
+
+/**
+ * Close a circuit by hand, e.g. once the gateway is known to be back
+ */
+export function resetCircuit(baseURL: string) {
+  circuits.delete(baseURL)
+}
@@ -0,0 +1,653 @@
+import {
+  QFPayParamValue,
+  QFPaySignType,
+  buildParamString,
+  buildQFPayHeaders,
+  normalizeParams,
+  signQFPayParams,
+  verifyQFPaySignature
+} from './signature'
+import { recordOutboundCall } from './inspector'
+import {
+  CIRCUIT_FAILURE_THRESHOLD,
+  acquireCircuit,
+  getCircuitStatus,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+  releaseCircuit
+} from './circuit-breaker'
+import { RespcdInfo, describeRespcd, isDuplicateRespcd, isRetryableRespcd, summarizeRespcd } from './respcd'
+import { createLogger } from './logger'
+import { TRACE_HEADER, getTraceId } from './trace'
+
+const log = createLogger('QFPay')
+
+export type QFPayEnvironment = 'qa' | 'sandbox' | 'test' | 'live' | 'production' | 'mock'
+
+/**
+ * Get QFPay base URL based on environment
+ * @param environment - 'qa', 'test', 'live' or 'mock' (aliases: 'sandbox', 'production')
+ */
+export function getQFPayBaseURL(environment: string = 'qa'): string {
+  switch (environment) {
+    case 'mock':
+      // Local stand-in served by this app under /api/qfpay-mock
+      return process.env.QFPAY_MOCK_BASE_URL || `http://localhost:${process.env.PORT || 3000}/api/qfpay-mock`
+    case 'live':
+    case 'production':
+      return 'https://openapi-hk.qfapi.com'
+    case 'test':
+      return 'https://openapi-hk.qfapi.com'
+    case 'qa':
+    case 'sandbox':
+    default:
+      return 'https://openapi-int.qfapi.com'
+  }
+}
+
+/**
+ * Raw QFPay OpenAPI response envelope
+ */
+export interface QFPayResponse<T = Record<string, unknown>> {
+  respcd: string
+  respmsg?: string
+  resperr?: string
+  sysdtm?: string
+  data?: T
+  [key: string]: unknown
+}
+
+/**
+ * Error raised for any failed QFPay call: transport, HTTP status or non-`0000` respcd.
+ * `httpStatus` is the status our own routes should answer with.
+ */
+export class QFPayError extends Error {
+  endpoint: string
+  httpStatus: number
+  respcd?: string
+  respmsg?: string
+  response?: unknown
+  // HTTP status QFPay answered with; absent when there was no usable answer
+  upstreamStatus?: number
+  // Catalog entry for `respcd`, when it is a known code
+  respcdInfo?: RespcdInfo
+
+  constructor(
+    message: string,
+    options: { endpoint: string; httpStatus: number; respcd?: string; respmsg?: string; response?: unknown; upstreamStatus?: number }
+  ) {
+    super(message)
+    this.name = 'QFPayError'
+    this.endpoint = options.endpoint
+    this.httpStatus = options.httpStatus
+    this.respcd = options.respcd
+    this.respmsg = options.respmsg
+    this.response = options.response
+    this.upstreamStatus = options.upstreamStatus
+    this.respcdInfo = describeRespcd(options.respcd) ?? undefined
+  }
+}
+
+/**
+ * Raised when a QFPay response fails signature verification. The body can't be
+ * trusted, so it is neither returned nor attached to the error.
+ */
+export class QFPaySignatureError extends QFPayError {
+  reason: 'missing' | 'invalid'
+
+  constructor(message: string, options: { endpoint: string; reason: 'missing' | 'invalid' }) {
+    super(message, { endpoint: options.endpoint, httpStatus: 502 })
+    this.name = 'QFPaySignatureError'
+    this.reason = options.reason
+  }
+}
+
+/**
+ * Raised when QFPay doesn't answer (or finish answering) within the endpoint's timeout
+ */
+export class QFPayTimeoutError extends QFPayError {
+  timeoutMs: number
+
+  constructor(message: string, options: { endpoint: string; timeoutMs: number }) {
+    super(message, { endpoint: options.endpoint, httpStatus: 504 })
+    this.name = 'QFPayTimeoutError'
+    this.timeoutMs = options.timeoutMs
+  }
+}
+
+/**
+ * Raised without calling QFPay while the circuit breaker for the base URL is open,
+ * i.e. the gateway has been failing and we are waiting before probing it again
+ */
+export class QFPayUnavailableError extends QFPayError {
+  baseURL: string
+  retryAt: string | null
+
+  constructor(message: string, options: { endpoint: string; baseURL: string; retryAt: string | null }) {
+    super(message, { endpoint: options.endpoint, httpStatus: 503 })
+    this.name = 'QFPayUnavailableError'
+    this.baseURL = options.baseURL
+    this.retryAt = options.retryAt
+  }
+}
+
+/**
+ * How to treat the X-QF-SIGN header on responses. `strict` rejects unsigned and
+ * wrongly signed responses; `permissive` lets unsigned ones through (some sandboxes
+ * don't sign) but still rejects a signature that doesn't verify.
+ */
+export type ResponseVerificationMode = 'strict' | 'permissive'
+
+export type ResponseSignatureStatus = 'valid' | 'invalid' | 'missing'
+
+/**
+ * Automatic retries for transient failures. The delay before attempt n+1 is a
+ * random value up to `baseDelayMs * 2^(n-1)` (full jitter), capped at `maxDelayMs`.
+ */
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 4000
+}
+
+export const DEFAULT_TIMEOUT_MS = 15_000
+// Reads should answer quickly; payments and refunds may wait on the bank
+const QUERY_TIMEOUT_MS = 10_000
+const PAYMENT_TIMEOUT_MS = 30_000
+
+export interface QFPayClientOptions {
+  appcode: string
+  // Always the profile's own key; there is no fallback, so a wrong profile can't sign with another merchant's key
+  clientKey: string
+  environment?: string
+  signType?: QFPaySignType
+  responseVerification?: ResponseVerificationMode
+  // `false` disables retries
+  retry?: Partial<RetryPolicy> | false
+  // Overrides every endpoint's timeout
+  timeoutMs?: number
+}
+
+interface RequestOptions {
+  // Safe to resend after an ambiguous failure (timeout, network error, 5xx): queries,
+  // and creates carrying an out_trade_no that QFPay rejects as a duplicate
+  idempotent?: boolean
+  timeoutMs?: number
+}
+
+/**
+ * Whether a failed attempt may be sent again. Network errors, timeouts and 5xx responses
+ * leave it unknown whether QFPay acted on the request, so only idempotent calls retry them.
+ */
+function isRetryable(error: unknown, idempotent: boolean) {
+  if (error instanceof QFPaySignatureError || error instanceof QFPayUnavailableError) return false
+  if (error instanceof QFPayError) {
+    if (isRetryableRespcd(error.respcd)) return true
+    return idempotent && error.httpStatus >= 500
+  }
+  // Not a QFPay failure at all (a bug on our side); never resend
+  return false
+}
+
+/**
+ * Failures that say the gateway is unreachable or unhealthy, as opposed to it rejecting our request
+ */
+function isOutage(error: unknown) {
+  if (error instanceof QFPaySignatureError || error instanceof QFPayUnavailableError) return false
+  if (error instanceof QFPayError) {
+    return error.httpStatus >= 500 || isRetryableRespcd(error.respcd)
+  }
+  return false
+}
+
+// Lead with what the catalog says to do; keep QFPay's own code and message for logs and support
+function respcdErrorMessage(label: string, respcd: string, respmsg?: string) {
+  const upstream = `QFPay ${label} error: ${respcd} - ${respmsg || 'Unknown error'}`
+  return describeRespcd(respcd) ? `${summarizeRespcd(respcd)} (${upstream})` : upstream
+}
+
+function backoffDelay(attempt: number, policy: RetryPolicy) {
+  return Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)))
+}
+
+export interface CreateCustomerParams {
+  name: string
+  email: string
+  phone: string
+}
+
+export interface QueryCustomersParams {
+  page?: string
+  page_size?: string
+  customer_id?: string
+  email?: string
+  phone?: string
+}
+
+export interface UpdateCustomerParams {
+  customer_id: string
+  name?: string
+  email?: string
+  phone?: string
+}
+
+export interface CustomerIdParams {
+  customer_id: string
+}
+
+export interface CreateTokenIntentParams {
+  customer_id: string
+  token_reason: string
+}
+
+export interface CreatePaymentIntentParams {
+  txamt: string
+  txcurrcd: string
+  pay_type: string
+  out_trade_no: string
+  txdtm: string
+  customer_id?: string
+  intent_expiry?: string
+}
+
+export interface CreateProductParams {
+  name: string
+  txamt: string
+  txcurrcd: string
+  type?: string
+  description?: string
+  interval?: string
+  interval_count?: string
+  usage_type?: string
+}
+
+export interface QueryProductsParams {
+  page?: string
+  page_size?: string
+  product_id?: string
+  type?: string
+  txcurrcd?: string
+  state?: string
+}
+
+export interface UpdateProductParams {
+  product_id: string
+  name?: string
+  description?: string
+}
+
+export interface ProductIdParams {
+  product_id: string
+}
+
+export interface SubscriptionProductItem {
+  product_id: string
+  quantity: number
+}
+
+export interface CreateSubscriptionParams {
+  customer_id: string
+  token_id: string
+  products: SubscriptionProductItem[]
+  total_billing_cycles?: number
+  start_time?: string
+}
+
+export interface QuerySubscriptionsParams {
+  page?: string
+  page_size?: string
+  subscription_id?: string
+  customer_id?: string
+  state?: string
+}
+
+export interface SubscriptionIdParams {
+  subscription_id: string
+}
+
+export interface QueryTransactionsParams {
+  syssn?: string
+  out_trade_no?: string
+  payment_intent?: string
+  start_time?: string
+  end_time?: string
+  page?: string
+  page_size?: string
+}
+
+export interface RefundParams {
+  syssn: string
+  out_trade_no: string
+  txamt: string
+  txdtm: string
+}
+
+/**
+ * Create a typed QFPay OpenAPI client bound to one merchant and environment.
+ * Handles signing, form encoding, the HTTP call and `respcd` checking for every endpoint.
+ */
+export function createQFPayClient(options: QFPayClientOptions) {
+  const environment = options.environment || 'qa'
+  const baseURL = getQFPayBaseURL(environment)
+  const signType = options.signType || 'MD5'
+  const clientKey = options.clientKey
+  if (!clientKey) {
+    throw new Error(`No client key for APPCODE ${options.appcode}: every QFPay client needs its profile's key`)
+  }
+  const responseVerification = options.responseVerification || 'strict'
+  const retryPolicy: RetryPolicy = options.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+    : { ...DEFAULT_RETRY_POLICY, ...options.retry }
+
+  async function request<T = Record<string, unknown>>(
+    endpoint: string,
+    label: string,
+    params: object,
+    requestOptions: RequestOptions = {}
+  ): Promise<QFPayResponse<T>> {
+    const requestParams = normalizeParams(params as Record<string, QFPayParamValue>)
+
+    const timeoutMs = options.timeoutMs || requestOptions.timeoutMs || DEFAULT_TIMEOUT_MS
+
+    for (let attempt = 1; ; attempt++) {
+      if (!acquireCircuit(baseURL)) {
+        const status = getCircuitStatus(baseURL)
+        log.warn(`${label} skipped: circuit open for ${baseURL}`, { endpoint, retry_at: status.retry_at })
+        throw new QFPayUnavailableError(
+          `QFPay ${environment} gateway is unavailable (${status.consecutive_failures} consecutive failures, last: ${status.last_error}). ` +
+          `Calls fail fast until ${status.retry_at ? new Date(status.retry_at).toLocaleTimeString() : 'the next probe'}`,
+          { endpoint, baseURL, retryAt: status.retry_at }
+        )
+      }
+
+      try {
+        const response = await send<T>(endpoint, label, requestParams, attempt, timeoutMs)
+        recordCircuitSuccess(baseURL)
+        return response
+      } catch (error) {
+        if (isOutage(error)) {
+          if (recordCircuitFailure(baseURL, error instanceof Error ? error.message : String(error))) {
+            log.error(`Circuit opened for ${baseURL} after repeated failures`, { environment, threshold: CIRCUIT_FAILURE_THRESHOLD })
+          }
+        } else if (error instanceof QFPayError && !(error instanceof QFPaySignatureError)) {
+          // The gateway answered, it just rejected the request
+          recordCircuitSuccess(baseURL)
+        } else {
+          releaseCircuit(baseURL)
+        }
+
+        if (attempt >= retryPolicy.maxAttempts || !isRetryable(error, Boolean(requestOptions.idempotent))) {
+          throw error
+        }
+        const delay = backoffDelay(attempt, retryPolicy)
+        log.warn(`${label} attempt ${attempt} failed; retrying in ${delay}ms`, {
+          endpoint,
+          attempt,
+          max_attempts: retryPolicy.maxAttempts,
+          error: error instanceof Error ? error.message : String(error)
+        })
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  async function send<T>(
+    endpoint: string,
+    label: string,
+    requestParams: Record<string, string>,
+    attempt: number,
+    timeoutMs: number
+  ): Promise<QFPayResponse<T>> {
+    const signature = signQFPayParams(requestParams, clientKey, signType)
+    const body = new URLSearchParams(requestParams).toString()
+
+    log.info(`${label} request`, { environment, url: `${baseURL}${endpoint}`, ...(attempt > 1 ? { attempt } : {}) })
+    log.debug(`${label} request parameters`, { params: requestParams })
+
+    const traceId = getTraceId()
+    const headers: Record<string, string> = {
+      ...buildQFPayHeaders(options.appcode, signature, signType),
+      'Accept': 'application/json',
+      // Not part of the signature; lets the gateway side (or the mock) be matched to our logs
+      ...(traceId ? { [TRACE_HEADER]: traceId } : {})
+    }
+
+    // Captured for the call inspector. The key never goes on the wire, but scrub it in case a caller passed it as a parameter.
+    const scrubKey = (text: string) => text.split(clientKey).join('[REDACTED]')
+    const call = {
+      trace_id: traceId || null,
+      label,
+      endpoint,
+      url: `${baseURL}${endpoint}`,
+      environment,
+      appcode: options.appcode,
+      param_string: scrubKey(buildParamString(requestParams)),
+      params: Object.fromEntries(Object.entries(requestParams).map(([key, value]) => [key, scrubKey(value)])),
+      sign_type: signType,
+      signature,
+      attempt,
+      headers: Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, scrubKey(value)])),
+      started_at: new Date().toISOString()
+    }
+    const startedAt = Date.now()
+
+    // Covers reading the body too, so a gateway that stalls mid-response can't hang the caller
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    let response: Response | null = null
+    let responseText: string
+    try {
+      response = await fetch(`${baseURL}${endpoint}`, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal
+      })
+      responseText = await response.text()
+    } catch (error) {
+      const timedOut = controller.signal.aborted
+      const message = timedOut ? `Timed out after ${timeoutMs}ms` : error instanceof Error ? error.message : String(error)
+      recordOutboundCall({
+        ...call,
+        http_status: response?.status ?? null,
+        respcd: null,
+        respmsg: null,
+        respcd_info: null,
+        response_body: null,
+        response_signature: null,
+        error: message,
+        latency_ms: Date.now() - startedAt
+      })
+      if (timedOut) {
+        throw new QFPayTimeoutError(`QFPay ${label} request timed out after ${timeoutMs}ms`, { endpoint, timeoutMs })
+      }
+      // DNS failure, refused or reset connection: there is no upstream status
+      throw new QFPayError(`Could not reach QFPay for ${label}: ${message}`, { endpoint, httpStatus: 502 })
+    } finally {
+      clearTimeout(timer)
+    }
+
+    // Signed over the raw body with the same key and algorithm as the request
+    const responseSignature = response.headers.get('X-QF-SIGN')
+    const signatureStatus: ResponseSignatureStatus = !responseSignature
+      ? 'missing'
+      : verifyQFPaySignature(responseText, responseSignature, clientKey, signType) ? 'valid' : 'invalid'
+
+    let responseData: QFPayResponse<T> | null = null
+    try {
+      responseData = JSON.parse(responseText)
+    } catch {
+      // Recorded below with the raw text, then reported as a QFPayError
+    }
+
+    recordOutboundCall({
+      ...call,
+      http_status: response.status,
+      respcd: responseData?.respcd ?? null,
+      respmsg: responseData?.respmsg ?? null,
+      respcd_info: responseData?.respcd && responseData.respcd !== '0000' ? describeRespcd(responseData.respcd) : null,
+      response_body: responseData ?? responseText,
+      response_signature: signatureStatus,
+      error: null,
+      latency_ms: Date.now() - startedAt
+    })
+
+    // An unsigned HTTP error (e.g. from a proxy in front of the gateway) is reported as the HTTP error it is
+    const rejectUnsigned = responseVerification === 'strict' && response.ok
+    if (signatureStatus === 'invalid' || (signatureStatus === 'missing' && rejectUnsigned)) {
+      log.error(`${label} response REJECTED: ${signatureStatus} X-QF-SIGN`, {
+        endpoint,
+        environment,
+        appcode: options.appcode,
+        sign_type: signType,
+        http_status: response.status,
+        response_verification: responseVerification
+      })
+      throw new QFPaySignatureError(
+        signatureStatus === 'missing'
+          ? `QFPay ${label} response is not signed (X-QF-SIGN missing); rejected because response verification is strict`
+          : `QFPay ${label} response failed signature verification (X-QF-SIGN mismatch)`,
+        { endpoint, reason: signatureStatus }
+      )
+    }
+
+    if (signatureStatus === 'missing' && response.ok) {
+      log.warn(`${label} response is not signed; accepted because response verification is permissive`, { endpoint, environment })
+    }
+
+    if (!responseData) {
+      throw new QFPayError(`QFPay ${label} API error: ${response.status} ${response.statusText} (non-JSON response)`, {
+        endpoint,
+        httpStatus: response.ok ? 502 : response.status,
+        response: responseText,
+        upstreamStatus: response.status
+      })
+    }
+
+    log.debug(`${label} API response`, { response: responseData })
+
+    // Check if API call was successful
+    if (!response.ok) {
+      throw new QFPayError(`QFPay ${label} API error: ${response.status} ${response.statusText}`, {
+        endpoint,
+        httpStatus: response.status,
+        upstreamStatus: response.status,
+        respcd: responseData.respcd,
+        respmsg: responseData.respmsg,
+        response: responseData
+      })
+    }
+
+    // Check QFPay response code
+    if (responseData.respcd !== '0000') {
+      throw new QFPayError(respcdErrorMessage(label, responseData.respcd, responseData.respmsg), {
+        endpoint,
+        httpStatus: 400,
+        upstreamStatus: response.status,
+        respcd: responseData.respcd,
+        respmsg: responseData.respmsg,
+        response: responseData
+      })
+    }
+
+    return responseData
+  }
+
+  /**
+   * A retry of an intent QFPay already created (e.g. the first attempt timed out) is refused
+   * as a duplicate out_trade_no. Answer with the existing intent instead, provided it is for
+   * the same amount and currency.
+   */
+  async function createPaymentIntent(params: CreatePaymentIntentParams): Promise<QFPayResponse> {
+    try {
+      return await request('/payment_element/v1/create_payment_intent', 'Payment Intent', params, { idempotent: true, timeoutMs: PAYMENT_TIMEOUT_MS })
+    } catch (error) {
+      if (!(error instanceof QFPayError) || !isDuplicateRespcd(error.respcd)) throw error
+
+      const existing = await request<Record<string, unknown>[]>('/trade/v1/query', 'Transaction Query', { out_trade_no: params.out_trade_no }, { idempotent: true, timeoutMs: QUERY_TIMEOUT_MS })
+      const trade = (Array.isArray(existing.data) ? existing.data : []).find(record =>
+        record.out_trade_no === params.out_trade_no &&
+        record.payment_intent &&
+        String(record.txamt) === params.txamt &&
+        record.txcurrcd === params.txcurrcd
+      )
+      if (!trade) throw error
+
+      log.info('Payment intent already exists for out_trade_no; returning it', { out_trade_no: params.out_trade_no, payment_intent: trade.payment_intent })
+      return {
+        respcd: '0000',
+        respmsg: 'Existing payment intent',
+        sysdtm: existing.sysdtm,
+        payment_intent: trade.payment_intent,
+        out_trade_no: params.out_trade_no,
+        txamt: String(trade.txamt),
+        txcurrcd: trade.txcurrcd,
+        pay_type: trade.pay_type
+      }
+    }
+  }
+
+  return {
+    environment,
+    baseURL,
+
+    createCustomer: (params: CreateCustomerParams) =>
+      request<{ customer_id: string }>('/customer/v1/create', 'Customer', params),
+
+    queryCustomers: (params: QueryCustomersParams) =>
+      request<Record<string, unknown>[]>('/customer/v1/query', 'Customer Query', params, { idempotent: true, timeoutMs: QUERY_TIMEOUT_MS }),
+
+    updateCustomer: (params: UpdateCustomerParams) =>
+      request<Record<string, unknown>>('/customer/v1/update', 'Customer Update', params),
+
+    deleteCustomer: (params: CustomerIdParams) =>
+      request<{ customer_id?: string; deleted?: boolean }>('/customer/v1/delete', 'Customer Delete', params),
+
+    createTokenIntent: (params: CreateTokenIntentParams) =>
+      request('/payment_element/v1/create_token_intent', 'Token Intent', params),
+
+    createPaymentIntent,
+
+    createProduct: (params: CreateProductParams) =>
+      request<{ product_id: string }>('/product/v1/create', 'Product', params),
+
+    queryProducts: (params: QueryProductsParams) =>
+      request<Record<string, unknown>[]>('/product/v1/query', 'Product Query', params, { idempotent: true, timeoutMs: QUERY_TIMEOUT_MS }),
+
+    updateProduct: (params: UpdateProductParams) =>
+      request<Record<string, unknown>>('/product/v1/update', 'Product Update', params),
+
+    archiveProduct: (params: ProductIdParams) =>
+      request<Record<string, unknown>>('/product/v1/archive', 'Product Archive', params),
+
+    createSubscription: (params: CreateSubscriptionParams) =>
+      request<{ subscription_id?: string; state?: string }>('/subscription/v1/create', 'Subscription', params),
+
+    querySubscriptions: (params: QuerySubscriptionsParams) =>
+      request<Record<string, unknown>[]>('/subscription/v1/query', 'Subscription Query', params, { idempotent: true, timeoutMs: QUERY_TIMEOUT_MS }),
+
+    cancelSubscription: (params: SubscriptionIdParams) =>
+      request<{ subscription_id?: string; state?: string }>('/subscription/v1/cancel', 'Subscription Cancel', params),
+
+    pauseSubscription: (params: SubscriptionIdParams) =>
+      request<{ subscription_id?: string; state?: string }>('/subscription/v1/pause', 'Subscription Pause', params),
+
+    resumeSubscription: (params: SubscriptionIdParams) =>
+      request<{ subscription_id?: string; state?: string }>('/subscription/v1/resume', 'Subscription Resume', params),
+
+    queryTransactions: (params: QueryTransactionsParams) =>
+      request<Record<string, unknown>[]>('/trade/v1/query', 'Transaction Query', params, { idempotent: true, timeoutMs: QUERY_TIMEOUT_MS }),
+
+    refund: (params: RefundParams) =>
+      request('/trade/v1/refund', 'Refund', params, { idempotent: true, timeoutMs: PAYMENT_TIMEOUT_MS })
+  }
+}
+
+export type QFPayClient = ReturnType<typeof createQFPayClient>
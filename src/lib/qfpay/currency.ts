@@ -0,0 +1,91 @@
+/**
+ * Currencies QFPay settles and how their amounts are written. QFPay always takes `txamt`
+ * in minor units, which is 1/100 of the major unit for most currencies but the major unit
+ * itself for zero-decimal currencies such as JPY and KRW. No server imports, so the page
+ * can use it too.
+ */
+
+export interface CurrencyInfo {
+  code: string
+  name: string
+  // Decimal places of the minor unit: 2 for HKD (100 = HK$1.00), 0 for JPY (100 = ¥100)
+  exponent: number
+}
+
+const CURRENCIES: Record<string, CurrencyInfo> = {
+  HKD: { code: 'HKD', name: 'Hong Kong Dollar', exponent: 2 },
+  USD: { code: 'USD', name: 'US Dollar', exponent: 2 },
+  CNY: { code: 'CNY', name: 'Chinese Yuan', exponent: 2 },
+  EUR: { code: 'EUR', name: 'Euro', exponent: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', exponent: 2 },
+  SGD: { code: 'SGD', name: 'Singapore Dollar', exponent: 2 },
+  MYR: { code: 'MYR', name: 'Malaysian Ringgit', exponent: 2 },
+  THB: { code: 'THB', name: 'Thai Baht', exponent: 2 },
+  AUD: { code: 'AUD', name: 'Australian Dollar', exponent: 2 },
+  JPY: { code: 'JPY', name: 'Japanese Yen', exponent: 0 },
+  KRW: { code: 'KRW', name: 'South Korean Won', exponent: 0 }
+}
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES)
+
+export function describeCurrency(currency: string | null | undefined): CurrencyInfo | null {
+  return currency ? CURRENCIES[currency.toUpperCase()] || null : null
+}
+
+// Unknown or missing currencies are treated like most ISO 4217 currencies: two decimals
+export function currencyExponent(currency: string | null | undefined) {
+  return describeCurrency(currency)?.exponent ?? 2
+}
+
+/**
+ * Minor units for an amount typed in major units ("9.99" HKD → 999, "1000" JPY → 1000).
+ * Null when the input isn't a plain non-negative number or has more decimals than the
+ * currency allows (e.g. "1.5" JPY).
+ */
+export function toMinorUnits(amount: string | number, currency: string | null | undefined): number | null {
+  const exponent = currencyExponent(currency)
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(String(amount).trim())
+  if (!match) return null
+
+  const [, whole, fraction = ''] = match
+  if (fraction.length > exponent) return null
+
+  const minor = Number(whole + fraction.padEnd(exponent, '0'))
+  return Number.isSafeInteger(minor) ? minor : null
+}
+
+/**
+ * Major-unit string for an input field: 999 HKD → "9.99", 1000 JPY → "1000"
+ */
+export function fromMinorUnits(amount: number, currency: string | null | undefined) {
+  const exponent = currencyExponent(currency)
+  return (amount / 10 ** exponent).toFixed(exponent)
+}
+
+/**
+ * Amount for people, with grouping and the currency's own number of decimals: "1,000 JPY", "9.99 HKD"
+ */
+export function formatAmount(amount: number, currency: string | null | undefined) {
+  const exponent = currencyExponent(currency)
+  // Fixed locale so server and browser render the same text
+  const major = (amount / 10 ** exponent).toLocaleString('en-US', {
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent
+  })
+  return currency ? `${major} ${currency.toUpperCase()}` : major
+}
+
+/**
+ * `step` for an amount input: the currency's smallest unit in major units ("0.01", or "1" for JPY)
+ */
+export function amountStep(currency: string | null | undefined) {
+  const exponent = currencyExponent(currency)
+  return exponent === 0 ? '1' : (1 / 10 ** exponent).toFixed(exponent)
+}
+
+/**
+ * Keep the same major amount when the currency changes: 500 HKD (5.00) → 5 JPY
+ */
+export function rescaleMinorUnits(amount: number, from: string | null | undefined, to: string | null | undefined) {
+  return Math.round(amount * 10 ** (currencyExponent(to) - currencyExponent(from)))
+}
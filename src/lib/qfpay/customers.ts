@@ -0,0 +1,23 @@
+/**
+ * Internal customer shape shared by the customer server actions
+ */
+export interface CustomerRecord {
+  customer_id: string
+  name: string
+  email: string
+  phone: string
+  created_at: string | null
+}
+
+/**
+ * Map a QFPay customer record to our internal format
+ */
+export function normalizeCustomer(record: Record<string, unknown>): CustomerRecord {
+  return {
+    customer_id: String(record.customer_id || ''),
+    name: String(record.name || ''),
+    email: String(record.email || ''),
+    phone: String(record.phone || ''),
+    created_at: record.created_at ? String(record.created_at) : (record.sysdtm ? String(record.sysdtm) : null)
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest'
+import { IdempotencyError, stableTradeNo, withIdempotency } from './idempotency'
+
+// Entries live for the whole process, so every test uses its own scope
+let scopeCounter = 0
+const nextScope = () => `test:APPCODE:op${++scopeCounter}`
+
+describe('withIdempotency', () => {
+  it('runs once per key and replays the first result', async () => {
+    const scope = nextScope()
+    const fn = vi.fn(async () => ({ id: 'pi_1' }))
+
+    const first = await withIdempotency(scope, 'key-1', { txamt: 100 }, fn)
+    const second = await withIdempotency(scope, 'key-1', { txamt: 100 }, fn)
+
+    expect(first).toEqual({ result: { id: 'pi_1' }, replayed: false })
+    expect(second).toEqual({ result: { id: 'pi_1' }, replayed: true })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('makes a concurrent duplicate wait for the call in flight', async () => {
+    const scope = nextScope()
+    let resolve!: (value: string) => void
+    const fn = vi.fn(() => new Promise<string>(done => { resolve = done }))
+
+    const first = withIdempotency(scope, 'key-1', {}, fn)
+    const second = withIdempotency(scope, 'key-1', {}, fn)
+    resolve('done')
+
+    expect(await first).toEqual({ result: 'done', replayed: false })
+    expect(await second).toEqual({ result: 'done', replayed: true })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects a key reused with different parameters', async () => {
+    const scope = nextScope()
+    await withIdempotency(scope, 'key-1', { txamt: 100 }, async () => 'ok')
+
+    await expect(withIdempotency(scope, 'key-1', { txamt: 200 }, async () => 'ok'))
+      .rejects.toMatchObject({ name: 'IdempotencyError', httpStatus: 422 })
+  })
+
+  it('does not cache failures, so the same key can be retried', async () => {
+    const scope = nextScope()
+    await expect(withIdempotency(scope, 'key-1', {}, async () => { throw new Error('timeout') })).rejects.toThrow('timeout')
+
+    expect(await withIdempotency(scope, 'key-1', {}, async () => 'ok')).toEqual({ result: 'ok', replayed: false })
+  })
+
+  it('keeps scopes apart and always runs without a key', async () => {
+    const fn = vi.fn(async () => 'ok')
+    await withIdempotency(nextScope(), 'key-1', {}, fn)
+    await withIdempotency(nextScope(), 'key-1', {}, fn)
+    await withIdempotency(nextScope(), null, {}, fn)
+    await withIdempotency(nextScope(), null, {}, fn)
+
+    expect(fn).toHaveBeenCalledTimes(4)
+  })
+
+  it('rejects malformed keys', async () => {
+    await expect(withIdempotency(nextScope(), 'has space', {}, async () => 'ok')).rejects.toBeInstanceOf(IdempotencyError)
+  })
+})
+
+describe('stableTradeNo', () => {
+  it('derives the same trade number for the same scope and key', () => {
+    const tradeNo = stableTradeNo('PI', 'qa:APPCODE:payment_intent', 'key-1')
+
+    expect(tradeNo).toMatch(/^PI_[0-9A-F]{24}$/)
+    expect(stableTradeNo('PI', 'qa:APPCODE:payment_intent', 'key-1')).toBe(tradeNo)
+    expect(stableTradeNo('PI', 'qa:APPCODE:payment_intent', 'key-2')).not.toBe(tradeNo)
+    expect(stableTradeNo('PI', 'prod:APPCODE:payment_intent', 'key-1')).not.toBe(tradeNo)
+  })
+})
@@ -0,0 +1,116 @@
+import crypto from 'crypto'
+import { createLogger } from './logger'
+
+const log = createLogger('Idempotency')
+
+/**
+ * Header API callers use to pass an idempotency key
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+/**
+ * Raised for a malformed key, or a key reused with different parameters
+ */
+export class IdempotencyError extends Error {
+  httpStatus: number
+
+  constructor(message: string, httpStatus = 400) {
+    super(message)
+    this.name = 'IdempotencyError'
+    this.httpStatus = httpStatus
+  }
+}
+
+interface IdempotencyEntry {
+  fingerprint: string
+  // Set while the first call is in flight, so concurrent duplicates wait for it instead of calling QFPay
+  pending?: Promise<unknown>
+  result?: unknown
+  expires_at: number
+}
+
+const TTL_MS = 24 * 60 * 60 * 1000
+
+// Kept on globalThis so dev-server hot reloads keep cached results
+const globalState = globalThis as typeof globalThis & { __qfpayIdempotency?: Map<string, IdempotencyEntry> }
+const entries: Map<string, IdempotencyEntry> = globalState.__qfpayIdempotency ??= new Map()
+
+function validateKey(key: string) {
+  if (!/^[\x21-\x7e]{1,255}$/.test(key)) {
+    throw new IdempotencyError('Idempotency key must be 1-255 printable ASCII characters without spaces')
+  }
+}
+
+function fingerprintOf(params: unknown) {
+  return crypto.createHash('sha256').update(JSON.stringify(params ?? null)).digest('hex')
+}
+
+/**
+ * Merchant trade number derived from an idempotency key, so every retry of the
+ * same call sends QFPay the same `out_trade_no`. `scope` separates merchants and operations.
+ */
+export function stableTradeNo(prefix: string, scope: string, key: string) {
+  validateKey(key)
+  const digest = crypto.createHash('sha256').update(`${scope}:${key}`).digest('hex')
+  return `${prefix}_${digest.slice(0, 24).toUpperCase()}`
+}
+
+/**
+ * Run `fn` at most once per `scope` + `key`. A repeat with the same key gets the
+ * first call's result (or waits for it while it is still running); a repeat with
+ * different `params` is rejected. Failures aren't cached, so a failed call can be
+ * retried with the same key. Without a key, `fn` simply runs.
+ */
+export async function withIdempotency<T>(
+  scope: string,
+  key: string | null | undefined,
+  params: unknown,
+  fn: () => Promise<T>
+): Promise<{ result: T; replayed: boolean }> {
+  if (!key) {
+    return { result: await fn(), replayed: false }
+  }
+  validateKey(key)
+
+  const now = Date.now()
+  entries.forEach((entry, id) => {
+    if (!entry.pending && entry.expires_at <= now) entries.delete(id)
+  })
+
+  const id = `${scope}:${key}`
+  const fingerprint = fingerprintOf(params)
+  const existing = entries.get(id)
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyError(`Idempotency key ${key} was already used with different parameters`, 422)
+    }
+    log.info('Idempotent replay', { scope, idempotency_key: key, in_flight: Boolean(existing.pending) })
+    const result = (existing.pending ? await existing.pending : existing.result) as T
+    return { result, replayed: true }
+  }
+
+  const entry: IdempotencyEntry = { fingerprint, expires_at: now + TTL_MS }
+  const pending = fn()
+  entry.pending = pending
+  entries.set(id, entry)
+
+  try {
+    const result = await pending
+    entry.result = result
+    entry.expires_at = Date.now() + TTL_MS
+    return { result, replayed: false }
+  } catch (error) {
+    entries.delete(id)
+    throw error
+  } finally {
+    delete entry.pending
+  }
+}
+
+/**
+ * Scope for a merchant's operation, e.g. `qa:APPCODE:payment_intent`
+ */
+export function idempotencyScope(profile: { environment: string; appcode: string }, operation: string) {
+  return `${profile.environment}:${profile.appcode}:${operation}`
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto'
+import type { ResponseSignatureStatus } from './client'
+import type { RespcdInfo } from './respcd'
+import { QFPaySignType } from './signature'
+
+/**
+ * In-memory capture of outbound QFPay calls for the page's API call inspector.
+ * Each entry is what actually went over the wire (minus the client key) and what came back.
+ */
+export interface OutboundCall {
+  id: string
+  trace_id: string | null
+  label: string
+  endpoint: string
+  url: string
+  environment: string
+  appcode: string
+  // Sorted `k=v&k=v` string that was signed, before the client key is appended
+  param_string: string
+  params: Record<string, string>
+  sign_type: QFPaySignType
+  signature: string
+  // 1 for the first try; higher for automatic retries of the same call
+  attempt: number
+  headers: Record<string, string>
+  http_status: number | null
+  respcd: string | null
+  respmsg: string | null
+  // Catalog entry for a known non-0000 respcd
+  respcd_info: RespcdInfo | null
+  // Parsed JSON, or the raw text when the gateway didn't return JSON
+  response_body: unknown
+  // Outcome of the X-QF-SIGN check on the response; null when there was no response
+  response_signature: ResponseSignatureStatus | null
+  // Set when the request never got a response (network failure, DNS, ...)
+  error: string | null
+  started_at: string
+  latency_ms: number
+}
+
+export interface OutboundCallFilter {
+  appcode?: string
+  environment?: string
+  traceId?: string
+  limit?: number
+}
+
+const MAX_CALLS = 200
+
+// Kept on globalThis so dev-server hot reloads don't drop captured calls
+const globalState = globalThis as typeof globalThis & { __qfpayOutboundCalls?: OutboundCall[] }
+const calls: OutboundCall[] = globalState.__qfpayOutboundCalls ??= []
+
+/**
+ * Capture is on outside production; set QFPAY_INSPECTOR_ENABLED=true to keep it in production builds.
+ * Captured calls include customer data, so they are only kept in memory.
+ */
+export function isInspectorEnabled() {
+  return process.env.NODE_ENV !== 'production' || process.env.QFPAY_INSPECTOR_ENABLED === 'true'
+}
+
+export function recordOutboundCall(call: Omit<OutboundCall, 'id'>): OutboundCall | null {
+  if (!isInspectorEnabled()) return null
+
+  const entry: OutboundCall = { id: `call_${crypto.randomBytes(6).toString('hex')}`, ...call }
+  calls.push(entry)
+  if (calls.length > MAX_CALLS) {
+    calls.splice(0, calls.length - MAX_CALLS)
+  }
+  return entry
+}
+
+/**
+ * Captured calls matching the filter, newest first
+ */
+export function listOutboundCalls(filter: OutboundCallFilter = {}): OutboundCall[] {
+  return calls
+    .filter(call =>
+      (!filter.appcode || call.appcode === filter.appcode) &&
+      (!filter.environment || call.environment === filter.environment) &&
+      (!filter.traceId || call.trace_id === filter.traceId)
+    )
+    .reverse()
+    .slice(0, filter.limit || MAX_CALLS)
+}
+
+export function clearOutboundCalls() {
+  calls.splice(0, calls.length)
+}
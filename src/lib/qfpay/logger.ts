@@ -0,0 +1,145 @@
+import { getTraceId } from './trace'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+const REDACTED = '[REDACTED]'
+const MAX_DEPTH = 8
+
+/**
+ * Field names (lowercased, without `_`/`-`) whose values never reach the logs
+ */
+const SECRET_FIELDS = new Set([
+  'clientkey', 'secretkey', 'key', 'vaultkey', 'clientkeyencrypted', 'password', 'authorization',
+  'sign', 'signature', 'xqfsign', 'signstring',
+  'cardnumber', 'cvv', 'cvc'
+])
+
+// Saved card tokens can charge the card, so only enough is kept to tell them apart
+const TOKEN_FIELDS = new Set(['token', 'tokenid', 'cardtoken'])
+
+function normalizeFieldName(name: string) {
+  return name.toLowerCase().replace(/[-_]/g, '')
+}
+
+function maskTail(value: string, visible: number) {
+  if (value.length <= visible * 2) return '*'.repeat(value.length)
+  return '*'.repeat(value.length - visible) + value.slice(-visible)
+}
+
+function maskToken(value: string) {
+  const separator = value.indexOf('_')
+  const prefix = separator > 0 ? value.slice(0, separator + 1) : ''
+  return `${prefix}****${value.slice(-4)}`
+}
+
+function maskEmail(value: string) {
+  const at = value.indexOf('@')
+  if (at < 1) return maskTail(value, 2)
+  return `${value[0]}***${value.slice(at)}`
+}
+
+function redactField(name: string, value: unknown, depth: number): unknown {
+  const field = normalizeFieldName(name)
+
+  if (SECRET_FIELDS.has(field)) {
+    return value === undefined || value === null || value === '' ? value : REDACTED
+  }
+  if (typeof value === 'string' && value) {
+    if (TOKEN_FIELDS.has(field)) return maskToken(value)
+    if (field.endsWith('email')) return maskEmail(value)
+    if (field.endsWith('phone') || field.endsWith('mobile')) return maskTail(value, 2)
+  }
+  return redact(value, depth)
+}
+
+/**
+ * Copy of `value` with client keys, signatures, card tokens, email addresses and
+ * phone numbers masked, matched by field name at any depth. Errors keep their
+ * message and stack plus any extra fields (e.g. a QFPay response), also redacted.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]'
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1))
+  }
+
+  const source: Record<string, unknown> = value instanceof Error
+    ? { ...value, name: value.name, message: value.message, stack: value.stack }
+    : value as Record<string, unknown>
+
+  const result: Record<string, unknown> = {}
+  for (const [name, fieldValue] of Object.entries(source)) {
+    result[name] = redactField(name, fieldValue, depth + 1)
+  }
+  return result
+}
+
+/**
+ * Minimum level written, from QFPAY_LOG_LEVEL (default `info`)
+ */
+export function getLogLevel(): LogLevel {
+  const configured = process.env.QFPAY_LOG_LEVEL?.toLowerCase() as LogLevel | undefined
+  return configured && LOG_LEVELS.includes(configured) ? configured : 'info'
+}
+
+// One JSON object per line for log aggregators; QFPAY_LOG_FORMAT=pretty keeps the old `[Scope] message` lines
+function isPrettyFormat() {
+  const format = process.env.QFPAY_LOG_FORMAT
+  return format ? format === 'pretty' : process.env.NODE_ENV !== 'production'
+}
+
+function write(scope: string, level: LogLevel, message: string, fields?: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel())) {
+    return
+  }
+
+  const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log
+  const safeFields = fields ? redact(fields) as LogFields : undefined
+  const traceId = getTraceId()
+
+  if (isPrettyFormat()) {
+    const trace = traceId ? ` (trace ${traceId})` : ''
+    const details = safeFields && Object.keys(safeFields).length > 0 ? ` ${JSON.stringify(safeFields)}` : ''
+    output(`[${scope}] ${level.toUpperCase()}${trace} ${message}${details}`)
+    return
+  }
+
+  output(JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    scope,
+    trace_id: traceId,
+    msg: message,
+    ...safeFields
+  }))
+}
+
+/**
+ * Structured logger for server code. `scope` replaces the old `[API]`/`[Server]`
+ * prefixes; fields are always passed through `redact()` before they are written,
+ * and the current trace id (see `runWithTrace()`) is added to every line.
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => write(scope, 'debug', message, fields),
+    info: (message, fields) => write(scope, 'info', message, fields),
+    warn: (message, fields) => write(scope, 'warn', message, fields),
+    error: (message, fields) => write(scope, 'error', message, fields)
+  }
+}
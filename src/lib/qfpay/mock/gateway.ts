@@ -0,0 +1,669 @@
+import crypto from 'crypto'
+import { QFPaySignType, digestSignString, signQFPayParams } from '../signature'
+
+/**
+ * In-memory stand-in for the QFPay OpenAPI gateway.
+ * Authenticates requests the same way the real gateway does (X-QF-APPCODE +
+ * X-QF-SIGN over the sorted form parameters) and keeps every created object in
+ * memory so flows like product -> subscription -> query work offline.
+ */
+
+export const MOCK_APPCODE = process.env.QFPAY_MOCK_APPCODE || 'MOCK_APPCODE'
+export const MOCK_CLIENT_KEY = process.env.QFPAY_MOCK_CLIENT_KEY || 'mock_client_key'
+
+type MockRecord = Record<string, unknown>
+
+interface MockGatewayState {
+  customers: Map<string, MockRecord>
+  paymentIntents: Map<string, MockRecord>
+  tokenIntents: Map<string, MockRecord>
+  tokens: Map<string, MockRecord>
+  products: Map<string, MockRecord>
+  subscriptions: Map<string, MockRecord>
+  refunds: Map<string, MockRecord>
+}
+
+export interface MockGatewayResult {
+  status: number
+  body: MockRecord
+}
+
+type MockHandler = (params: Record<string, string>) => MockRecord
+
+type MockCardOutcome = 'success' | 'success_3ds' | 'fail_verification' | 'fail_3ds'
+
+/**
+ * Test cards listed on the demo page and the outcome the sandbox produces for each
+ */
+export const MOCK_TEST_CARDS: Record<string, { brand: string; outcome: MockCardOutcome }> = {
+  '5200000000001096': { brand: 'mastercard', outcome: 'success' },
+  '4000000000001091': { brand: 'visa', outcome: 'success' },
+  '5200000000001005': { brand: 'mastercard', outcome: 'success_3ds' },
+  '4000000000001000': { brand: 'visa', outcome: 'success_3ds' },
+  '5200000000001120': { brand: 'mastercard', outcome: 'fail_verification' },
+  '4000000000001125': { brand: 'visa', outcome: 'fail_verification' },
+  '5200000000001013': { brand: 'mastercard', outcome: 'fail_3ds' },
+  '4000000000001018': { brand: 'visa', outcome: 'fail_3ds' }
+}
+
+// Kept on globalThis so dev-server hot reloads don't wipe created objects
+// (merged with a fresh state so collections added since the last reload exist)
+const globalState = globalThis as typeof globalThis & { __qfpayMockGateway?: MockGatewayState }
+const state: MockGatewayState = globalState.__qfpayMockGateway = {
+  ...createEmptyState(),
+  ...globalState.__qfpayMockGateway
+}
+
+function createEmptyState(): MockGatewayState {
+  return {
+    customers: new Map(),
+    paymentIntents: new Map(),
+    tokenIntents: new Map(),
+    tokens: new Map(),
+    products: new Map(),
+    subscriptions: new Map(),
+    refunds: new Map()
+  }
+}
+
+/**
+ * Drop every object the mock gateway has created
+ */
+export function resetMockGateway() {
+  Object.assign(state, createEmptyState())
+}
+
+/**
+ * Object counts per collection, for the mock route's GET diagnostics
+ */
+export function describeMockGateway() {
+  return {
+    customers: state.customers.size,
+    payment_intents: state.paymentIntents.size,
+    token_intents: state.tokenIntents.size,
+    tokens: state.tokens.size,
+    products: state.products.size,
+    subscriptions: state.subscriptions.size,
+    refunds: state.refunds.size
+  }
+}
+
+/**
+ * Thrown by handlers to answer with a non-`0000` respcd
+ */
+class MockGatewayError extends Error {
+  respcd: string
+
+  constructor(respcd: string, message: string) {
+    super(message)
+    this.respcd = respcd
+  }
+}
+
+function generateId(prefix: string) {
+  return `${prefix}_${crypto.randomBytes(16).toString('hex')}`
+}
+
+function sysdtm(date: Date = new Date()) {
+  return date.toISOString().replace(/T/, ' ').replace(/\..+/, '')
+}
+
+function generateSyssn() {
+  return `${Date.now()}${crypto.randomInt(100000, 999999)}`
+}
+
+function requireParams(params: Record<string, string>, names: string[]) {
+  const missing = names.filter(name => !params[name])
+  if (missing.length > 0) {
+    throw new MockGatewayError('1104', `Missing parameter: ${missing.join(', ')}`)
+  }
+}
+
+function requireAmount(value: string) {
+  if (!/^\d+$/.test(value) || parseInt(value) <= 0) {
+    throw new MockGatewayError('1104', `Invalid txamt: ${value}`)
+  }
+  return parseInt(value)
+}
+
+function parseJSONParam<T>(name: string, value: string): T {
+  try {
+    return JSON.parse(value)
+  } catch {
+    throw new MockGatewayError('1104', `Parameter ${name} must be valid JSON`)
+  }
+}
+
+/**
+ * Project a payment intent into a `/trade/v1/query` record
+ */
+function tradeRecord(intent: MockRecord): MockRecord {
+  if (intent.status !== 'succeeded' && new Date(`${intent.intent_expiry}Z`).getTime() < Date.now()) {
+    intent.status = 'expired'
+  }
+  const tradeRespcd: Record<string, [string, string]> = {
+    succeeded: ['0000', 'Payment succeeded'],
+    failed: ['1205', String(intent.failure_reason || 'Transaction failed')],
+    expired: ['1181', 'Order expired'],
+    requires_payment_method: ['1143', 'Waiting for customer payment']
+  }
+  const [respcd, errmsg] = tradeRespcd[String(intent.status)] || tradeRespcd.requires_payment_method
+  return {
+    syssn: intent.syssn || null,
+    out_trade_no: intent.out_trade_no,
+    payment_intent: intent.payment_intent,
+    txamt: intent.txamt,
+    txcurrcd: intent.txcurrcd,
+    pay_type: intent.pay_type,
+    respcd,
+    errmsg,
+    card_brand: intent.card_brand || null,
+    card_last4: intent.card_last4 || null,
+    sysdtm: intent.paid_at || null
+  }
+}
+
+function requireCustomer(params: Record<string, string>): MockRecord {
+  requireParams(params, ['customer_id'])
+  const customer = state.customers.get(params.customer_id)
+  if (!customer) {
+    throw new MockGatewayError('1104', `Customer does not exist: ${params.customer_id}`)
+  }
+  return customer
+}
+
+function requireProduct(params: Record<string, string>): MockRecord {
+  requireParams(params, ['product_id'])
+  const product = state.products.get(params.product_id)
+  if (!product) {
+    throw new MockGatewayError('1104', `Product does not exist: ${params.product_id}`)
+  }
+  return product
+}
+
+/**
+ * Move a subscription between lifecycle states, rejecting transitions the gateway doesn't allow
+ */
+function transitionSubscription(params: Record<string, string>, from: string[], to: string): MockRecord {
+  requireParams(params, ['subscription_id'])
+  const subscription = state.subscriptions.get(params.subscription_id)
+  if (!subscription) {
+    throw new MockGatewayError('1104', `Subscription does not exist: ${params.subscription_id}`)
+  }
+  if (!from.includes(String(subscription.state))) {
+    throw new MockGatewayError('1250', `Subscription in state ${subscription.state} cannot become ${to}`)
+  }
+  subscription.state = to
+  subscription.next_billing_time = to === 'active' ? sysdtm() : null
+  return { data: { subscription_id: subscription.subscription_id, state: subscription.state } }
+}
+
+const handlers: Record<string, MockHandler> = {
+  '/customer/v1/create': params => {
+    const customer = {
+      customer_id: generateId('cust'),
+      name: params.name || '',
+      email: params.email || '',
+      phone: params.phone || '',
+      created_at: sysdtm()
+    }
+    state.customers.set(customer.customer_id, customer)
+    return { data: { customer_id: customer.customer_id } }
+  },
+
+  '/customer/v1/query': params => {
+    const page = Math.max(1, parseInt(params.page || '1') || 1)
+    const pageSize = Math.max(1, parseInt(params.page_size || '10') || 10)
+    const matches = [...state.customers.values()].filter(customer =>
+      (!params.customer_id || customer.customer_id === params.customer_id) &&
+      (!params.email || String(customer.email).toLowerCase() === params.email.toLowerCase()) &&
+      (!params.phone || customer.phone === params.phone)
+    )
+    return {
+      data: matches.slice((page - 1) * pageSize, page * pageSize),
+      total_count: matches.length,
+      page,
+      page_size: pageSize
+    }
+  },
+
+  '/customer/v1/update': params => {
+    const customer = requireCustomer(params)
+    if (params.name !== undefined) customer.name = params.name
+    if (params.email !== undefined) customer.email = params.email
+    if (params.phone !== undefined) customer.phone = params.phone
+    return { data: { ...customer } }
+  },
+
+  '/customer/v1/delete': params => {
+    requireCustomer(params)
+    const live = [...state.subscriptions.values()].some(subscription =>
+      subscription.customer_id === params.customer_id && subscription.state !== 'canceled'
+    )
+    if (live) {
+      throw new MockGatewayError('1250', `Customer has subscriptions that are not canceled: ${params.customer_id}`)
+    }
+    state.customers.delete(params.customer_id)
+    return { data: { customer_id: params.customer_id, deleted: true } }
+  },
+
+  '/payment_element/v1/create_payment_intent': params => {
+    requireParams(params, ['txamt', 'txcurrcd', 'pay_type', 'out_trade_no', 'txdtm'])
+    requireAmount(params.txamt)
+    if ([...state.paymentIntents.values()].some(intent => intent.out_trade_no === params.out_trade_no)) {
+      throw new MockGatewayError('1102', `Duplicate out_trade_no: ${params.out_trade_no}`)
+    }
+    const intent = {
+      payment_intent: generateId('pi'),
+      out_trade_no: params.out_trade_no,
+      txamt: params.txamt,
+      txcurrcd: params.txcurrcd,
+      pay_type: params.pay_type,
+      customer_id: params.customer_id || null,
+      intent_expiry: params.intent_expiry || sysdtm(new Date(Date.now() + 30 * 60 * 1000)),
+      status: 'requires_payment_method'
+    }
+    state.paymentIntents.set(intent.payment_intent, intent)
+    return { ...intent }
+  },
+
+  '/payment_element/v1/create_token_intent': params => {
+    requireParams(params, ['customer_id'])
+    const intent = {
+      token_intent: generateId('ti'),
+      customer_id: params.customer_id,
+      token_reason: params.token_reason || '',
+      intent_expiry: sysdtm(new Date(Date.now() + 30 * 60 * 1000)),
+      status: 'requires_payment_method'
+    }
+    state.tokenIntents.set(intent.token_intent, intent)
+    return { ...intent }
+  },
+
+  '/product/v1/create': params => {
+    requireParams(params, ['name', 'txamt', 'txcurrcd'])
+    const product = {
+      product_id: generateId('prod'),
+      name: params.name,
+      type: params.type || 'onetime',
+      txamt: requireAmount(params.txamt),
+      txcurrcd: params.txcurrcd,
+      description: params.description || null,
+      interval: params.interval || null,
+      interval_count: params.interval_count ? parseInt(params.interval_count) : null,
+      usage_type: params.usage_type || 'licensed',
+      state: 'active',
+      created_at: sysdtm()
+    }
+    state.products.set(product.product_id, product)
+    return { data: { product_id: product.product_id } }
+  },
+
+  '/product/v1/query': params => {
+    const page = Math.max(1, parseInt(params.page || '1') || 1)
+    const pageSize = Math.max(1, parseInt(params.page_size || '10') || 10)
+    const matches = [...state.products.values()].filter(product =>
+      (!params.product_id || product.product_id === params.product_id) &&
+      (!params.type || product.type === params.type) &&
+      (!params.txcurrcd || product.txcurrcd === params.txcurrcd) &&
+      (!params.state || product.state === params.state)
+    )
+    return {
+      data: matches.slice((page - 1) * pageSize, page * pageSize),
+      total_count: matches.length,
+      page,
+      page_size: pageSize
+    }
+  },
+
+  '/product/v1/update': params => {
+    const product = requireProduct(params)
+    if (params.name !== undefined) product.name = params.name
+    if (params.description !== undefined) product.description = params.description
+    return { data: { ...product } }
+  },
+
+  '/product/v1/archive': params => {
+    const product = requireProduct(params)
+    product.state = 'archived'
+    return { data: { product_id: product.product_id, state: product.state } }
+  },
+
+  '/subscription/v1/create': params => {
+    requireParams(params, ['customer_id', 'token_id', 'products'])
+    const products = parseJSONParam<Array<{ product_id: string; quantity: number }>>('products', params.products)
+    if (!Array.isArray(products) || products.length === 0) {
+      throw new MockGatewayError('1104', 'Parameter products must be a non-empty array')
+    }
+    const unknown = products.filter(item => !state.products.has(item.product_id))
+    if (unknown.length > 0) {
+      throw new MockGatewayError('1104', `Unknown product_id: ${unknown.map(item => item.product_id).join(', ')}`)
+    }
+    const token = state.tokens.get(params.token_id)
+    if (!token || token.status !== 'active') {
+      throw new MockGatewayError('1104', `Token does not exist: ${params.token_id}`)
+    }
+    if (token.customer_id !== params.customer_id) {
+      throw new MockGatewayError('1104', `Token ${params.token_id} does not belong to customer ${params.customer_id}`)
+    }
+    const archived = products.filter(item => state.products.get(item.product_id)?.state === 'archived')
+    if (archived.length > 0) {
+      throw new MockGatewayError('1250', `Product is archived: ${archived.map(item => item.product_id).join(', ')}`)
+    }
+    const subscription = {
+      subscription_id: generateId('sub'),
+      customer_id: params.customer_id,
+      token_id: params.token_id,
+      products,
+      state: 'active',
+      total_billing_cycles: params.total_billing_cycles ? parseInt(params.total_billing_cycles) : null,
+      completed_billing_iteration: 0,
+      start_time: params.start_time || sysdtm(),
+      next_billing_time: params.start_time || sysdtm(),
+      created_at: sysdtm()
+    }
+    state.subscriptions.set(subscription.subscription_id, subscription)
+    return { data: { subscription_id: subscription.subscription_id, state: subscription.state } }
+  },
+
+  '/subscription/v1/query': params => {
+    const page = Math.max(1, parseInt(params.page || '1') || 1)
+    const pageSize = Math.max(1, parseInt(params.page_size || '10') || 10)
+    const matches = [...state.subscriptions.values()].filter(subscription =>
+      (!params.subscription_id || subscription.subscription_id === params.subscription_id) &&
+      (!params.customer_id || subscription.customer_id === params.customer_id) &&
+      (!params.state || subscription.state === params.state)
+    )
+    return {
+      data: matches.slice((page - 1) * pageSize, page * pageSize),
+      total_count: matches.length,
+      page,
+      page_size: pageSize
+    }
+  },
+
+  '/subscription/v1/cancel': params => transitionSubscription(params, ['active', 'paused', 'past_due', 'unpaid', 'incomplete'], 'canceled'),
+
+  '/subscription/v1/pause': params => transitionSubscription(params, ['active'], 'paused'),
+
+  '/subscription/v1/resume': params => transitionSubscription(params, ['paused'], 'active'),
+
+  '/trade/v1/query': params => {
+    if (!params.syssn && !params.out_trade_no && !params.payment_intent && !params.start_time) {
+      throw new MockGatewayError('1104', 'Missing parameter: syssn, out_trade_no or start_time')
+    }
+    const matches = [...state.paymentIntents.values()].filter(intent =>
+      (!params.syssn || intent.syssn === params.syssn) &&
+      (!params.out_trade_no || intent.out_trade_no === params.out_trade_no) &&
+      (!params.payment_intent || intent.payment_intent === params.payment_intent)
+    )
+    const refunds = [...state.refunds.values()].filter(refund =>
+      (!params.syssn || refund.syssn === params.syssn) &&
+      (!params.out_trade_no || refund.out_trade_no === params.out_trade_no) &&
+      !params.payment_intent
+    )
+    return { data: [...matches.map(tradeRecord), ...refunds] }
+  },
+
+  '/trade/v1/refund': params => {
+    requireParams(params, ['syssn', 'out_trade_no', 'txamt', 'txdtm'])
+    const amount = requireAmount(params.txamt)
+    const intent = [...state.paymentIntents.values()].find(intent => intent.syssn === params.syssn)
+    if (!intent || intent.status !== 'succeeded') {
+      throw new MockGatewayError('1268', `Order does not exist or is not paid: ${params.syssn}`)
+    }
+    const allTrades = [...state.paymentIntents.values(), ...state.refunds.values()]
+    if (allTrades.some(trade => trade.out_trade_no === params.out_trade_no)) {
+      throw new MockGatewayError('1102', `Duplicate out_trade_no: ${params.out_trade_no}`)
+    }
+    const refunded = [...state.refunds.values()]
+      .filter(refund => refund.orig_syssn === params.syssn)
+      .reduce((sum, refund) => sum + parseInt(String(refund.txamt)), 0)
+    if (refunded + amount > parseInt(String(intent.txamt))) {
+      throw new MockGatewayError('1272', 'Refund amount exceeds maximum amount that can be refunded')
+    }
+    const refund = {
+      syssn: generateSyssn(),
+      orig_syssn: params.syssn,
+      out_trade_no: params.out_trade_no,
+      txamt: params.txamt,
+      txcurrcd: intent.txcurrcd,
+      respcd: '0000',
+      errmsg: 'Refund succeeded',
+      sysdtm: sysdtm()
+    }
+    state.refunds.set(refund.syssn, refund)
+    return { ...refund }
+  }
+}
+
+/**
+ * Parse an `MM/YY` expiry and reject past dates
+ */
+function requireExpiry(value: string) {
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(value || '')
+  const month = match ? parseInt(match[1]) : 0
+  const year = match ? 2000 + parseInt(match[2]) : 0
+  const now = new Date()
+  if (month < 1 || month > 12 || year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1)) {
+    throw new MockGatewayError('1104', 'Invalid card expiry date')
+  }
+  return { exp_month: month, exp_year: year }
+}
+
+/**
+ * Validate the card fields posted by the fake SDK and look up its test-card outcome
+ */
+function requireTestCard(params: Record<string, string>) {
+  requireParams(params, ['card_number', 'expiry', 'cvv'])
+  const cardNumber = params.card_number.replace(/\s/g, '')
+  const card = MOCK_TEST_CARDS[cardNumber]
+  if (!card) {
+    throw new MockGatewayError('1205', 'Card declined: use one of the listed test cards')
+  }
+  if (!/^\d{3,4}$/.test(params.cvv)) {
+    throw new MockGatewayError('1104', 'Invalid card CVV')
+  }
+  return {
+    ...card,
+    last4: cardNumber.slice(-4),
+    ...requireExpiry(params.expiry),
+    three_ds: card.outcome === 'success_3ds' || card.outcome === 'fail_3ds',
+    succeeded: card.outcome === 'success' || card.outcome === 'success_3ds',
+    failure_reason: card.outcome === 'fail_3ds' ? '3DS authentication failed' : 'Card verification failed'
+  }
+}
+
+/**
+ * Save a card against a token intent. On success the customer gets a reusable
+ * `tk_…` token that `/subscription/v1/create` accepts.
+ */
+function confirmTokenIntent(params: Record<string, string>): MockRecord {
+  const intent = state.tokenIntents.get(params.token_intent)
+  if (!intent) {
+    throw new MockGatewayError('1268', `Token intent does not exist: ${params.token_intent}`)
+  }
+  if (intent.status === 'succeeded') {
+    throw new MockGatewayError('1250', 'Token intent already confirmed')
+  }
+  if (new Date(`${intent.intent_expiry}Z`).getTime() < Date.now()) {
+    intent.status = 'expired'
+    throw new MockGatewayError('1181', 'Token intent expired')
+  }
+
+  const card = requireTestCard(params)
+  if (!card.succeeded) {
+    intent.status = 'failed'
+    return {
+      respcd: '1205',
+      respmsg: card.failure_reason,
+      status: intent.status,
+      token_intent: intent.token_intent
+    }
+  }
+
+  const token = {
+    token_id: generateId('tk'),
+    customer_id: intent.customer_id,
+    token_intent: intent.token_intent,
+    type: 'card',
+    brand: card.brand,
+    last4: card.last4,
+    exp_month: card.exp_month,
+    exp_year: card.exp_year,
+    status: 'active',
+    created_at: sysdtm()
+  }
+  state.tokens.set(token.token_id, token)
+  Object.assign(intent, { status: 'succeeded', token_id: token.token_id })
+
+  return {
+    status: intent.status,
+    token_intent: intent.token_intent,
+    token_id: token.token_id,
+    customer_id: token.customer_id,
+    card: {
+      brand: token.brand,
+      last4: token.last4,
+      exp_month: token.exp_month,
+      exp_year: token.exp_year
+    },
+    three_ds: card.three_ds ? { version: '2.2.0', flow: 'frictionless', authenticated: true, eci: '05' } : null
+  }
+}
+
+/**
+ * Browser-facing calls made by the fake `window.QFpay` SDK. Like the real SDK
+ * these are authorized by the intent id alone, not by merchant signature.
+ */
+const sdkHandlers: Record<string, MockHandler> = {
+  '/sdk/confirm_payment': params => {
+    // The Element confirms either a payment intent or, in tokenization mode, a token intent
+    if (params.token_intent) {
+      return confirmTokenIntent(params)
+    }
+    requireParams(params, ['payment_intent'])
+    const intent = state.paymentIntents.get(params.payment_intent)
+    if (!intent) {
+      throw new MockGatewayError('1268', `Payment intent does not exist: ${params.payment_intent}`)
+    }
+    if (intent.status === 'succeeded') {
+      throw new MockGatewayError('1260', 'Order already paid')
+    }
+    if (new Date(`${intent.intent_expiry}Z`).getTime() < Date.now()) {
+      intent.status = 'expired'
+      throw new MockGatewayError('1181', 'Payment intent expired')
+    }
+
+    const card = requireTestCard(params)
+    const { succeeded, three_ds: threeDS } = card
+    Object.assign(intent, {
+      status: succeeded ? 'succeeded' : 'failed',
+      syssn: generateSyssn(),
+      card_brand: card.brand,
+      card_last4: card.last4,
+      exp_month: card.exp_month,
+      exp_year: card.exp_year,
+      paid_at: succeeded ? sysdtm() : null,
+      failure_reason: succeeded ? null : card.failure_reason
+    })
+
+    return {
+      ...(succeeded ? {} : { respcd: '1205', respmsg: intent.failure_reason }),
+      status: intent.status,
+      payment_intent: intent.payment_intent,
+      out_trade_no: intent.out_trade_no,
+      syssn: intent.syssn,
+      txamt: intent.txamt,
+      txcurrcd: intent.txcurrcd,
+      pay_type: intent.pay_type,
+      card: {
+        brand: intent.card_brand,
+        last4: intent.card_last4,
+        exp_month: intent.exp_month,
+        exp_year: intent.exp_year
+      },
+      three_ds: threeDS
+        ? { version: '2.2.0', flow: 'frictionless', authenticated: succeeded, eci: succeeded ? '05' : '07' }
+        : null
+    }
+  },
+
+  '/sdk/retrieve_payment_intent': params => {
+    requireParams(params, ['payment_intent'])
+    const intent = state.paymentIntents.get(params.payment_intent)
+    if (!intent) {
+      throw new MockGatewayError('1268', `Payment intent does not exist: ${params.payment_intent}`)
+    }
+    return { ...intent }
+  }
+}
+
+/**
+ * Serialize a mock response and sign it the way the gateway does: X-QF-SIGN over
+ * the raw body + client key, with the algorithm the request was signed with
+ */
+export function serializeMockResponse(result: MockGatewayResult, signType: string | null) {
+  const algorithm = (signType || 'MD5').toUpperCase() as QFPaySignType
+  const body = JSON.stringify(result.body)
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-QF-SIGN': digestSignString(body + MOCK_CLIENT_KEY, algorithm),
+      'X-QF-SIGNTYPE': algorithm
+    }
+  }
+}
+
+/**
+ * Handle one mock OpenAPI call. `endpoint` is the QFPay path, e.g. `/customer/v1/create`.
+ */
+export function handleMockGatewayRequest(
+  endpoint: string,
+  headers: Headers,
+  rawBody: string
+): MockGatewayResult {
+  const respond = (respcd: string, respmsg: string, extra: MockRecord = {}, status = 200): MockGatewayResult => ({
+    status,
+    body: { respcd, respmsg, sysdtm: sysdtm(), ...extra }
+  })
+
+  const run = (handler: MockHandler, params: Record<string, string>) => {
+    try {
+      return respond('0000', 'OK', handler(params))
+    } catch (error) {
+      if (error instanceof MockGatewayError) {
+        return respond(error.respcd, error.message)
+      }
+      throw error
+    }
+  }
+
+  const params = Object.fromEntries(new URLSearchParams(rawBody))
+
+  if (sdkHandlers[endpoint]) {
+    return run(sdkHandlers[endpoint], params)
+  }
+
+  const handler = handlers[endpoint]
+  if (!handler) {
+    return respond('1104', `Unknown endpoint: ${endpoint}`, {}, 404)
+  }
+
+  // Authenticate exactly like the gateway: known appcode, signature over sorted params + key
+  const appcode = headers.get('X-QF-APPCODE')
+  const signature = headers.get('X-QF-SIGN')
+  const signType = (headers.get('X-QF-SIGNTYPE') || 'MD5').toUpperCase() as QFPaySignType
+
+  if (!appcode || appcode !== MOCK_APPCODE) {
+    return respond('1108', 'Invalid X-QF-APPCODE')
+  }
+
+  const expected = signQFPayParams(params, MOCK_CLIENT_KEY, signType)
+  if (!signature || signature.toLowerCase() !== expected) {
+    return respond('1108', 'Signature verification failed')
+  }
+
+  return run(handler, params)
+}
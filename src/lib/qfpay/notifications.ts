@@ -0,0 +1,113 @@
+/**
+ * QFPay asynchronous notification types and handler registry.
+ * Handlers are registered per `notify_type` (or `*` for every event) and run
+ * once per unique notification after the route has verified and de-duplicated it.
+ */
+
+export type QFPayNotifyType = 'payment' | 'refund' | 'subscription' | 'close' | (string & {})
+
+export interface QFPayNotification {
+  notify_type: QFPayNotifyType
+  syssn?: string
+  out_trade_no?: string
+  txamt?: string
+  txcurrcd?: string
+  respcd?: string
+  status?: string
+  pay_type?: string
+  txdtm?: string
+  sysdtm?: string
+  subscription_id?: string
+  customer_id?: string
+  [key: string]: unknown
+}
+
+export type QFPayNotificationHandler = (event: QFPayNotification) => void | Promise<void>
+
+interface NotificationState {
+  handlers: Map<string, QFPayNotificationHandler[]>
+  seen: Map<string, number>
+}
+
+const MAX_SEEN_NOTIFICATIONS = 5000
+
+// Kept on globalThis so dev-server hot reloads don't drop registrations or the dedupe window
+const globalState = globalThis as typeof globalThis & { __qfpayNotifications?: NotificationState }
+const state: NotificationState = globalState.__qfpayNotifications ??= {
+  handlers: new Map(),
+  seen: new Map()
+}
+
+/**
+ * Register a handler for a notification type. Use `*` to receive every event.
+ * Returns a function that removes the handler again.
+ */
+export function onQFPayNotification(type: QFPayNotifyType | '*', handler: QFPayNotificationHandler) {
+  const handlers = state.handlers.get(type) || []
+  state.handlers.set(type, [...handlers, handler])
+  return () => {
+    state.handlers.set(type, (state.handlers.get(type) || []).filter(h => h !== handler))
+  }
+}
+
+/**
+ * Normalize a parsed notification body into a typed event
+ */
+export function parseQFPayNotification(body: Record<string, unknown>): QFPayNotification {
+  const fields: Record<string, unknown> = {}
+  Object.keys(body).forEach(key => {
+    const value = body[key]
+    fields[key] = typeof value === 'number' ? value.toString() : value
+  })
+  return {
+    ...fields,
+    notify_type: (body.notify_type as string) || (body.subscription_id ? 'subscription' : 'payment')
+  }
+}
+
+/**
+ * Dedupe key for a notification: the same `syssn`/`out_trade_no` pair
+ * for the same notification type is only processed once
+ */
+export function notificationKey(event: QFPayNotification): string | null {
+  if (!event.syssn && !event.out_trade_no) return null
+  return `${event.notify_type}:${event.syssn || ''}:${event.out_trade_no || ''}`
+}
+
+/**
+ * Record a notification as seen. Returns false if it was already processed.
+ */
+export function markNotificationSeen(event: QFPayNotification): boolean {
+  const key = notificationKey(event)
+  if (!key) return true
+  if (state.seen.has(key)) return false
+
+  state.seen.set(key, Date.now())
+  if (state.seen.size > MAX_SEEN_NOTIFICATIONS) {
+    const oldest = state.seen.keys().next().value
+    if (oldest) state.seen.delete(oldest)
+  }
+  return true
+}
+
+/**
+ * Forget a notification so a redelivery is processed again (used when handlers fail)
+ */
+export function unmarkNotificationSeen(event: QFPayNotification) {
+  const key = notificationKey(event)
+  if (key) state.seen.delete(key)
+}
+
+/**
+ * Run every handler registered for the event's type, then the `*` handlers
+ */
+export async function dispatchQFPayNotification(event: QFPayNotification) {
+  const handlers = [
+    ...(state.handlers.get(event.notify_type) || []),
+    ...(state.handlers.get('*') || [])
+  ]
+  for (const handler of handlers) {
+    await handler(event)
+  }
+  return handlers.length
+}
@@ -0,0 +1,694 @@
+import type { ApiErrorCode, ApiRouteData } from './api'
+import { IDEMPOTENCY_HEADER } from './idempotency'
+import { RESPCD_CATEGORY_LABELS } from './respcd'
+import {
+  CREATE_PRODUCT_SCHEMA,
+  CREATE_PROFILE_SCHEMA,
+  CREATE_REFUND_SCHEMA,
+  CREATE_SUBSCRIPTION_SCHEMA,
+  GATEWAY_HEALTH_SCHEMA,
+  LIST_CALLS_SCHEMA,
+  LIST_RECORDS_SCHEMA,
+  PRODUCT_ID_SCHEMA,
+  PROFILE_PATH_SCHEMA,
+  QUERY_PRODUCTS_SCHEMA,
+  QUERY_SUBSCRIPTIONS_SCHEMA,
+  QUERY_TRANSACTION_SCHEMA,
+  RECORD_PATH_SCHEMA,
+  SUBSCRIPTION_ID_SCHEMA,
+  UPDATE_PRODUCT_SCHEMA,
+  UPDATE_PROFILE_SCHEMA
+} from './schemas'
+import { RECORD_KINDS } from './store'
+import { TRACE_HEADER } from './trace'
+import type { FieldRule, Schema } from './validation'
+import { PROFILE_ENVIRONMENTS } from './vault'
+
+/**
+ * OpenAPI 3 document for the `/api/qfpay/*` routes. Request bodies and query strings are
+ * generated from the same schemas the routes validate with, so the spec can't drift from
+ * what the server accepts. Served at /api/qfpay/openapi.json and rendered by /tools/api.
+ */
+
+export type JsonSchema = { [key: string]: unknown }
+
+type OperationKey = keyof ApiRouteData
+
+export type HttpMethod = 'get' | 'post' | 'patch' | 'delete'
+
+export interface OpenAPIParameter {
+  name: string
+  in: 'path' | 'query' | 'header'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export interface OpenAPIOperation {
+  operationId: string
+  tags: string[]
+  summary: string
+  description?: string
+  parameters: OpenAPIParameter[]
+  requestBody?: {
+    required: true
+    content: { 'application/json': { schema: JsonSchema; example: Record<string, unknown> } }
+  }
+  responses: Record<string, JsonSchema>
+}
+
+export interface OpenAPIDocument {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  servers: Array<{ url: string }>
+  tags: Array<{ name: string; description: string }>
+  paths: Record<string, Partial<Record<HttpMethod, OpenAPIOperation>>>
+  components: { schemas: Record<string, JsonSchema>; responses: Record<string, JsonSchema> }
+}
+
+interface OperationSpec {
+  operationId: string
+  tag: string
+  summary: string
+  description?: string
+  params?: Schema
+  query?: Schema
+  body?: Schema
+  // Accepts an Idempotency-Key header and may answer with `replayed: true`
+  idempotent?: boolean
+  // Supports ?include_raw=true
+  includeRaw?: boolean
+  // Schema of `data` in the success envelope
+  data: JsonSchema
+}
+
+const RESPCD_CATEGORIES = Object.keys(RESPCD_CATEGORY_LABELS)
+
+const DATETIME_PATTERN = '^\\d{4}-\\d{2}-\\d{2} \\d{2}:\\d{2}:\\d{2}$'
+const DATETIME_EXAMPLE = '2025-01-31 09:00:00'
+
+const ERROR_CODES: Record<ApiErrorCode, string> = {
+  validation_error: 'Missing or malformed fields; see `fields`',
+  not_found: 'Unknown profile, record, or a disabled feature',
+  conflict: 'Valid request that cannot be carried out in the current state',
+  forbidden: 'The operation is not allowed for this object',
+  signature_error: "QFPay's response failed X-QF-SIGN verification",
+  upstream_http_error: 'QFPay answered with a non-2xx status or a body that is not JSON',
+  upstream_respcd_error: 'QFPay answered with a respcd other than 0000; see `respcd` and `remediation`',
+  timeout: 'QFPay did not answer in time',
+  upstream_unavailable: 'Circuit breaker open: QFPay has been failing and is not being called',
+  internal_error: 'Unexpected server error'
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+function nullable(type: string, extra: JsonSchema = {}): JsonSchema {
+  return { type, nullable: true, ...extra }
+}
+
+// Every property is required unless listed in `optional`
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  return { type: 'object', properties, required: Object.keys(properties).filter(key => !optional.includes(key)) }
+}
+
+const RAW_RESPONSE: JsonSchema = {
+  type: 'object',
+  additionalProperties: true,
+  description: 'Untouched QFPay response; only included with ?include_raw=true'
+}
+
+function withRawResponse(schema: JsonSchema): JsonSchema {
+  return { allOf: [schema, { type: 'object', properties: { raw_response: RAW_RESPONSE } }] }
+}
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  MerchantProfile: object({
+    id: { type: 'string' },
+    name: { type: 'string' },
+    appcode: { type: 'string' },
+    environment: { type: 'string', enum: PROFILE_ENVIRONMENTS },
+    sign_type: { type: 'string', enum: ['MD5', 'SHA256'] },
+    response_verification: { type: 'string', enum: ['strict', 'permissive'] },
+    builtin: { type: 'boolean', description: 'Profiles from environment variables; they cannot be edited or deleted' },
+    created_at: nullable('string'),
+    updated_at: nullable('string')
+  }),
+  Product: object({
+    product_id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string' },
+    txamt: { type: 'integer', description: 'Price in minor units' },
+    txcurrcd: { type: 'string' },
+    description: nullable('string'),
+    interval: nullable('string'),
+    interval_count: nullable('integer'),
+    usage_type: { type: 'string' },
+    state: { type: 'string' },
+    created_at: nullable('string')
+  }),
+  ProductChange: object({
+    product_id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    state: { type: 'string' },
+    updated_at: { type: 'string' }
+  }, ['name', 'description', 'state', 'updated_at']),
+  ProductQuery: object({
+    products: { type: 'array', items: ref('Product') },
+    total_count: { type: 'integer' },
+    page: { type: 'integer' },
+    page_size: { type: 'integer' },
+    query_params: { type: 'object', additionalProperties: { type: 'string' } }
+  }),
+  Subscription: object({
+    subscription_id: { type: 'string' },
+    customer_id: { type: 'string' },
+    token_id: { type: 'string' },
+    products: { type: 'array', items: object({ product_id: { type: 'string' }, quantity: { type: 'integer' } }) },
+    state: { type: 'string' },
+    total_billing_cycles: nullable('integer'),
+    start_time: nullable('string'),
+    created_at: { type: 'string' },
+    next_billing_time: { type: 'string' },
+    last_billing_time: { type: 'string' },
+    completed_billing_iteration: { type: 'integer' }
+  }, ['total_billing_cycles', 'start_time', 'created_at', 'next_billing_time', 'last_billing_time', 'completed_billing_iteration']),
+  SubscriptionChange: object({
+    subscription_id: { type: 'string' },
+    state: { type: 'string' },
+    updated_at: { type: 'string' }
+  }, ['updated_at']),
+  SubscriptionQuery: object({
+    subscriptions: { type: 'array', items: ref('Subscription') },
+    total_count: { type: 'integer' },
+    page: { type: 'integer' },
+    page_size: { type: 'integer' },
+    query_params: { type: 'object', additionalProperties: { type: 'string' } }
+  }),
+  Transaction: object({
+    status: { type: 'string', enum: ['paid', 'failed', 'pending', 'expired'] },
+    syssn: nullable('string'),
+    out_trade_no: nullable('string'),
+    payment_intent_id: nullable('string'),
+    txamt: nullable('integer'),
+    txcurrcd: nullable('string'),
+    card_brand: nullable('string'),
+    card_last4: nullable('string'),
+    respcd: nullable('string'),
+    respmsg: nullable('string'),
+    paid_at: nullable('string'),
+    raw_transaction: nullable('object', {
+      additionalProperties: true,
+      description: 'Untouched QFPay trade record; only included with ?include_raw=true'
+    })
+  }, ['raw_transaction']),
+  RefundRecord: object({
+    refund_syssn: nullable('string'),
+    refund_out_trade_no: { type: 'string' },
+    orig_syssn: { type: 'string' },
+    orig_out_trade_no: nullable('string'),
+    txamt: { type: 'integer' },
+    txcurrcd: nullable('string'),
+    status: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+    created_at: { type: 'string' }
+  }),
+  Refund: object({
+    refund: ref('RefundRecord'),
+    original_txamt: { type: 'integer' },
+    total_refunded: { type: 'integer' },
+    refundable_remaining: { type: 'integer' }
+  }),
+  StoredRecord: object({
+    kind: { type: 'string', enum: RECORD_KINDS },
+    id: { type: 'string' },
+    environment: { type: 'string' },
+    appcode: { type: 'string' },
+    data: { type: 'object', additionalProperties: true },
+    deleted: { type: 'boolean' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }),
+  RespcdInfo: object({
+    respcd: { type: 'string' },
+    category: { type: 'string', enum: RESPCD_CATEGORIES },
+    title: { type: 'string' },
+    explanation: { type: 'string' },
+    remediation: { type: 'string' }
+  }),
+  OutboundCall: object({
+    id: { type: 'string' },
+    trace_id: nullable('string'),
+    label: { type: 'string' },
+    endpoint: { type: 'string' },
+    url: { type: 'string' },
+    environment: { type: 'string' },
+    appcode: { type: 'string' },
+    param_string: { type: 'string', description: 'Sorted k=v&k=v string that was signed' },
+    params: { type: 'object', additionalProperties: { type: 'string' } },
+    sign_type: { type: 'string', enum: ['MD5', 'SHA256'] },
+    signature: { type: 'string' },
+    attempt: { type: 'integer' },
+    headers: { type: 'object', additionalProperties: { type: 'string' } },
+    http_status: nullable('integer'),
+    respcd: nullable('string'),
+    respmsg: nullable('string'),
+    respcd_info: { allOf: [ref('RespcdInfo')], nullable: true },
+    response_body: { description: 'Parsed JSON, or the raw text when the gateway did not return JSON' },
+    response_signature: nullable('string', { enum: ['valid', 'invalid', 'missing', null] }),
+    error: nullable('string'),
+    started_at: { type: 'string' },
+    latency_ms: { type: 'integer' }
+  }),
+  GatewayHealth: object({
+    environment: { type: 'string', enum: PROFILE_ENVIRONMENTS },
+    base_url: { type: 'string' },
+    state: { type: 'string', enum: ['closed', 'open', 'half_open'] },
+    consecutive_failures: { type: 'integer' },
+    retry_at: nullable('string'),
+    last_error: nullable('string'),
+    last_failure_at: nullable('string'),
+    last_success_at: nullable('string')
+  }),
+  ApiError: object({
+    code: { type: 'string', enum: Object.keys(ERROR_CODES) },
+    message: { type: 'string' },
+    fields: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'validation_error only: message per invalid field, e.g. products[0].quantity'
+    },
+    respcd: { type: 'string' },
+    respmsg: { type: 'string' },
+    category: { type: 'string', enum: RESPCD_CATEGORIES },
+    explanation: { type: 'string' },
+    remediation: { type: 'string' },
+    stack: { type: 'string', description: 'Development builds only' },
+    upstream_response: { description: 'Development builds only' }
+  }, ['fields', 'respcd', 'respmsg', 'category', 'explanation', 'remediation', 'stack', 'upstream_response']),
+  ApiFailure: object({
+    success: { type: 'boolean', enum: [false] },
+    error: ref('ApiError'),
+    trace_id: nullable('string')
+  })
+}
+
+const OPERATIONS: Record<OperationKey, OperationSpec> = {
+  'GET /api/qfpay/profiles': {
+    operationId: 'listProfiles',
+    tag: 'Profiles',
+    summary: 'List merchant profiles (client keys are never returned)',
+    data: object({ profiles: { type: 'array', items: ref('MerchantProfile') } })
+  },
+  'POST /api/qfpay/profiles': {
+    operationId: 'createProfile',
+    tag: 'Profiles',
+    summary: 'Store a merchant profile in the encrypted vault',
+    body: CREATE_PROFILE_SCHEMA,
+    data: ref('MerchantProfile')
+  },
+  'GET /api/qfpay/profiles/{id}': {
+    operationId: 'getProfile',
+    tag: 'Profiles',
+    summary: 'Fetch one merchant profile',
+    params: PROFILE_PATH_SCHEMA,
+    data: ref('MerchantProfile')
+  },
+  'PATCH /api/qfpay/profiles/{id}': {
+    operationId: 'updateProfile',
+    tag: 'Profiles',
+    summary: 'Update a stored merchant profile',
+    description: 'Omitted fields keep their value; omit clientKey (or send an empty one) to keep the stored key.',
+    params: PROFILE_PATH_SCHEMA,
+    body: UPDATE_PROFILE_SCHEMA,
+    data: ref('MerchantProfile')
+  },
+  'DELETE /api/qfpay/profiles/{id}': {
+    operationId: 'deleteProfile',
+    tag: 'Profiles',
+    summary: 'Delete a stored merchant profile',
+    params: PROFILE_PATH_SCHEMA,
+    data: object({ profile_id: { type: 'string' } })
+  },
+  'POST /api/qfpay/product/create': {
+    operationId: 'createProduct',
+    tag: 'Products',
+    summary: 'Create QFPay product for recurring payments',
+    body: CREATE_PRODUCT_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('Product'))
+  },
+  'POST /api/qfpay/product/query': {
+    operationId: 'queryProducts',
+    tag: 'Products',
+    summary: 'List QFPay products with paging and optional type/currency/state filters',
+    body: QUERY_PRODUCTS_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('ProductQuery'))
+  },
+  'POST /api/qfpay/product/update': {
+    operationId: 'updateProduct',
+    tag: 'Products',
+    summary: 'Update the name and/or description of a QFPay product',
+    description: 'Only the changed fields are returned; merge them into your copy of the product.',
+    body: UPDATE_PRODUCT_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('ProductChange'))
+  },
+  'POST /api/qfpay/product/archive': {
+    operationId: 'archiveProduct',
+    tag: 'Products',
+    summary: 'Archive (deactivate) a QFPay product so no new subscriptions can use it',
+    body: PRODUCT_ID_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('ProductChange'))
+  },
+  'POST /api/qfpay/subscription/create': {
+    operationId: 'createSubscription',
+    tag: 'Subscriptions',
+    summary: 'Create QFPay subscription with products',
+    body: CREATE_SUBSCRIPTION_SCHEMA,
+    idempotent: true,
+    includeRaw: true,
+    data: withRawResponse(ref('Subscription'))
+  },
+  'POST /api/qfpay/subscription/query': {
+    operationId: 'querySubscriptions',
+    tag: 'Subscriptions',
+    summary: 'Query existing QFPay subscriptions with optional filters',
+    body: QUERY_SUBSCRIPTIONS_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('SubscriptionQuery'))
+  },
+  'POST /api/qfpay/subscription/cancel': {
+    operationId: 'cancelSubscription',
+    tag: 'Subscriptions',
+    summary: 'Cancel a QFPay subscription so it is never billed again',
+    body: SUBSCRIPTION_ID_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('SubscriptionChange'))
+  },
+  'POST /api/qfpay/subscription/pause': {
+    operationId: 'pauseSubscription',
+    tag: 'Subscriptions',
+    summary: 'Pause billing for an active QFPay subscription',
+    body: SUBSCRIPTION_ID_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('SubscriptionChange'))
+  },
+  'POST /api/qfpay/subscription/resume': {
+    operationId: 'resumeSubscription',
+    tag: 'Subscriptions',
+    summary: 'Resume billing for a paused QFPay subscription',
+    body: SUBSCRIPTION_ID_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('SubscriptionChange'))
+  },
+  'POST /api/qfpay/transaction/query': {
+    operationId: 'queryTransaction',
+    tag: 'Payments',
+    summary: 'Query a QFPay transaction and return its normalized status (paid, failed, pending, expired)',
+    body: QUERY_TRANSACTION_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('Transaction'))
+  },
+  'POST /api/qfpay/refund/create': {
+    operationId: 'createRefund',
+    tag: 'Payments',
+    summary: 'Refund all or part of a paid QFPay transaction',
+    description: 'Total refunds never exceed the original txamt; a refund with an unknown outcome keeps its amount reserved until a trade query settles it. With an Idempotency-Key the refund trade number is derived from the key.',
+    body: CREATE_REFUND_SCHEMA,
+    idempotent: true,
+    includeRaw: true,
+    data: withRawResponse(ref('Refund'))
+  },
+  'GET /api/qfpay/records': {
+    operationId: 'listRecords',
+    tag: 'Records',
+    summary: 'List objects recorded in the local store',
+    query: LIST_RECORDS_SCHEMA,
+    includeRaw: true,
+    data: object({ records: { type: 'array', items: withRawResponse(ref('StoredRecord')) }, total_count: { type: 'integer' } })
+  },
+  'GET /api/qfpay/records/{kind}/{id}': {
+    operationId: 'getRecord',
+    tag: 'Records',
+    summary: 'Fetch one recorded object',
+    params: RECORD_PATH_SCHEMA,
+    includeRaw: true,
+    data: withRawResponse(ref('StoredRecord'))
+  },
+  'GET /api/qfpay/calls': {
+    operationId: 'listOutboundCalls',
+    tag: 'Diagnostics',
+    summary: 'List captured outbound QFPay calls, newest first',
+    description: 'Disabled in production unless QFPAY_INSPECTOR_ENABLED=true (answers not_found).',
+    query: LIST_CALLS_SCHEMA,
+    data: object({ calls: { type: 'array', items: ref('OutboundCall') }, total_count: { type: 'integer' } })
+  },
+  'DELETE /api/qfpay/calls': {
+    operationId: 'clearOutboundCalls',
+    tag: 'Diagnostics',
+    summary: 'Clear all captured outbound calls',
+    data: { nullable: true, enum: [null] }
+  },
+  'GET /api/qfpay/health': {
+    operationId: 'getGatewayHealth',
+    tag: 'Diagnostics',
+    summary: 'Circuit breaker state of each QFPay gateway',
+    query: GATEWAY_HEALTH_SCHEMA,
+    data: object({ gateways: { type: 'array', items: ref('GatewayHealth') } })
+  },
+  'DELETE /api/qfpay/health': {
+    operationId: 'resetGatewayHealth',
+    tag: 'Diagnostics',
+    summary: 'Close circuit breakers by hand once the gateway is known to be back',
+    query: GATEWAY_HEALTH_SCHEMA,
+    data: object({ environments: { type: 'array', items: { type: 'string', enum: PROFILE_ENVIRONMENTS } } })
+  }
+}
+
+const TAGS = [
+  { name: 'Profiles', description: 'Merchant credentials kept in the encrypted vault' },
+  { name: 'Products', description: 'QFPay products (prices) for subscriptions' },
+  { name: 'Subscriptions', description: 'Recurring billing of a saved card' },
+  { name: 'Payments', description: 'Transaction status and refunds' },
+  { name: 'Records', description: 'Objects this server created, kept in the local store' },
+  { name: 'Diagnostics', description: 'API call inspector and gateway circuit breakers' }
+]
+
+function ruleToJsonSchema(rule: FieldRule): JsonSchema {
+  const docs = { description: rule.description, example: rule.example }
+  switch (rule.type) {
+    case 'string':
+      return {
+        type: 'string',
+        minLength: rule.required || rule.nonEmpty ? 1 : undefined,
+        maxLength: rule.maxLength,
+        pattern: rule.pattern?.source,
+        ...docs,
+        description: rule.description ?? (rule.format ? `Must be ${rule.format}` : undefined)
+      }
+    case 'enum':
+      return { type: 'string', enum: rule.values, ...docs }
+    case 'integer':
+      return { type: 'integer', minimum: rule.min, maximum: rule.max, ...docs }
+    case 'amount':
+      return {
+        type: 'integer',
+        format: 'int64',
+        minimum: 1,
+        ...docs,
+        description: rule.description ?? 'Amount in minor units, e.g. 100 for HKD 1.00 or JPY 100'
+      }
+    case 'datetime':
+      return {
+        type: 'string',
+        pattern: DATETIME_PATTERN,
+        description: `${rule.description ? `${rule.description}, as ` : ''}YYYY-MM-DD HH:mm:ss`,
+        example: rule.example ?? DATETIME_EXAMPLE
+      }
+    case 'array':
+      return { type: 'array', minItems: rule.minItems, items: schemaToJsonSchema(rule.items), ...docs }
+  }
+}
+
+function schemaToJsonSchema(schema: Schema): JsonSchema {
+  const required = Object.entries(schema.fields).filter(([, rule]) => rule.required).map(([field]) => field)
+  const groups = (schema.anyOf || []).map(group => ({ anyOf: group.map(field => ({ required: [field] })) }))
+  // OpenAPI 3.0 has no if/then, so conditional requirements are spelled out in the description
+  const conditions: Record<string, string> = Object.fromEntries((schema.requiredWhen || []).flatMap(condition =>
+    condition.require.map(field => [field, `Required when ${condition.field} is ${condition.equals}`])
+  ))
+
+  const property = (field: string, rule: FieldRule) => {
+    const converted = ruleToJsonSchema(rule)
+    if (!conditions[field]) return converted
+    return { ...converted, description: converted.description ? `${converted.description}. ${conditions[field]}` : conditions[field] }
+  }
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(schema.fields).map(([field, rule]) => [field, property(field, rule)])),
+    ...(required.length > 0 ? { required } : {}),
+    ...(groups.length === 1 ? groups[0] : groups.length > 1 ? { allOf: groups } : {})
+  }
+}
+
+// A value that passes the rule, for the example bodies the docs page starts from
+function exampleValue(rule: FieldRule): unknown {
+  if (rule.example !== undefined) return rule.example
+  switch (rule.type) {
+    case 'string': return ''
+    case 'enum': return rule.values[0]
+    case 'integer': return rule.min ?? 1
+    case 'amount': return 100
+    case 'datetime': return DATETIME_EXAMPLE
+    case 'array': return [exampleBody(rule.items)]
+  }
+}
+
+// Required fields, plus the first field of each "one of" group
+function exampleBody(schema: Schema) {
+  const firstOfGroups = new Set((schema.anyOf || []).map(group => group[0]))
+  return Object.fromEntries(
+    Object.entries(schema.fields)
+      .filter(([field, rule]) => rule.required || firstOfGroups.has(field))
+      .map(([field, rule]) => [field, exampleValue(rule)])
+  )
+}
+
+function schemaToParameters(schema: Schema, location: 'path' | 'query'): OpenAPIParameter[] {
+  return Object.entries(schema.fields).map(([name, rule]) => ({
+    name,
+    in: location,
+    required: location === 'path' || Boolean(rule.required),
+    description: rule.description,
+    schema: { ...ruleToJsonSchema(rule), description: undefined }
+  }))
+}
+
+function buildOperation(spec: OperationSpec): OpenAPIOperation {
+  const parameters: OpenAPIParameter[] = [
+    ...(spec.params ? schemaToParameters(spec.params, 'path') : []),
+    ...(spec.query ? schemaToParameters(spec.query, 'query') : []),
+    ...(spec.includeRaw ? [{
+      name: 'include_raw',
+      in: 'query' as const,
+      required: false,
+      description: 'Set to true to include the untouched QFPay response as raw_response (and trade records as raw_transaction)',
+      schema: { type: 'string', enum: ['true', 'false'] }
+    }] : []),
+    {
+      name: TRACE_HEADER,
+      in: 'header',
+      required: false,
+      description: 'Correlates server logs and captured QFPay calls; echoed as trace_id (generated when omitted)',
+      schema: { type: 'string' }
+    },
+    ...(spec.idempotent ? [{
+      name: IDEMPOTENCY_HEADER,
+      in: 'header' as const,
+      required: false,
+      description: 'Retries with the same key and body return the first result with replayed: true instead of repeating the operation',
+      schema: { type: 'string', maxLength: 255 }
+    }] : [])
+  ]
+
+  const success = object({
+    success: { type: 'boolean', enum: [true] },
+    data: spec.data,
+    trace_id: nullable('string'),
+    ...(spec.idempotent ? { replayed: { type: 'boolean', description: 'True when answered from an earlier call with the same Idempotency-Key' } } : {})
+  }, ['replayed'])
+
+  return {
+    operationId: spec.operationId,
+    tags: [spec.tag],
+    summary: spec.summary,
+    ...(spec.description ? { description: spec.description } : {}),
+    parameters,
+    ...(spec.body ? {
+      requestBody: {
+        required: true as const,
+        content: { 'application/json': { schema: schemaToJsonSchema(spec.body), example: exampleBody(spec.body) } }
+      }
+    } : {}),
+    responses: {
+      '200': { description: 'Success', content: { 'application/json': { schema: success } } },
+      ...(spec.body || spec.query || spec.params ? { '400': { $ref: '#/components/responses/ValidationError' } } : {}),
+      default: { $ref: '#/components/responses/Error' }
+    }
+  }
+}
+
+function splitKey(key: OperationKey) {
+  const [method, path] = key.split(' ')
+  return { method: method.toLowerCase() as HttpMethod, path }
+}
+
+/**
+ * The whole document; `serverUrl` is the origin the spec was requested from
+ */
+export function buildOpenAPIDocument(serverUrl: string): OpenAPIDocument {
+  const paths: OpenAPIDocument['paths'] = {}
+  for (const [key, spec] of Object.entries(OPERATIONS) as Array<[OperationKey, OperationSpec]>) {
+    const { method, path } = splitKey(key)
+    paths[path] = { ...paths[path], [method]: buildOperation(spec) }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'QFPay Demo API',
+      version: '0.1.0',
+      description: [
+        'Server routes wrapping the QFPay subscription APIs.',
+        'Every response is an envelope: `{ success: true, data, trace_id }` or `{ success: false, error, trace_id }`.',
+        `Error codes: ${Object.entries(ERROR_CODES).map(([code, meaning]) => `\`${code}\` (${meaning})`).join('; ')}.`,
+        'Amounts are integers in minor units of the currency: 1/100 of the major unit for most currencies, the major unit itself for zero-decimal JPY and KRW. Integer and amount fields also accept numeric strings.'
+      ].join('\n\n')
+    },
+    servers: [{ url: serverUrl }],
+    tags: TAGS,
+    paths,
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      responses: {
+        ValidationError: {
+          description: 'validation_error: the request did not match the schema; `error.fields` names each invalid field',
+          content: { 'application/json': { schema: ref('ApiFailure') } }
+        },
+        Error: {
+          description: 'Error envelope; see `error.code`',
+          content: { 'application/json': { schema: ref('ApiFailure') } }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Short description of one POST route for its `GET` availability check, derived from the same schema
+ */
+export function describeOperation(key: OperationKey) {
+  const { method, path } = splitKey(key)
+  const spec = OPERATIONS[key]
+  const fields = Object.entries(spec.body?.fields || {})
+  const groups = spec.body?.anyOf || []
+  const grouped = new Set(groups.flat())
+
+  return {
+    endpoint: path,
+    method: method.toUpperCase(),
+    description: spec.summary,
+    required_fields: [
+      ...fields.filter(([, rule]) => rule.required).map(([field]) => field),
+      ...groups.map(group => `one of: ${group.join(', ')}`)
+    ],
+    optional_fields: fields.filter(([field, rule]) => !rule.required && !grouped.has(field)).map(([field]) => field),
+    ...(spec.idempotent ? { optional_headers: [IDEMPOTENCY_HEADER] } : {}),
+    openapi: '/api/qfpay/openapi.json'
+  }
+}
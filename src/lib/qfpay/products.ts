@@ -0,0 +1,41 @@
+/**
+ * Internal product shape shared by the product create/query/update/archive routes
+ */
+export interface ProductRecord {
+  product_id: string
+  name: string
+  type: string
+  txamt: number
+  txcurrcd: string
+  description: string | null
+  interval: string | null
+  interval_count: number | null
+  usage_type: string
+  state: string
+  created_at: string | null
+}
+
+function toInt(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const parsed = parseInt(String(value))
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Map a QFPay product record (string or numeric fields) to our internal format
+ */
+export function normalizeProduct(record: Record<string, unknown>): ProductRecord {
+  return {
+    product_id: String(record.product_id || ''),
+    name: String(record.name || ''),
+    type: String(record.type || 'onetime'),
+    txamt: toInt(record.txamt) || 0,
+    txcurrcd: String(record.txcurrcd || ''),
+    description: record.description ? String(record.description) : null,
+    interval: record.interval ? String(record.interval) : null,
+    interval_count: toInt(record.interval_count),
+    usage_type: String(record.usage_type || 'licensed'),
+    state: String(record.state || 'active'),
+    created_at: record.created_at ? String(record.created_at) : (record.sysdtm ? String(record.sysdtm) : null)
+  }
+}
@@ -0,0 +1,109 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { QFPayClient, QFPayError } from './client'
+import { RefundValidationError, createRefund, totalRefunded } from './refunds'
+
+const SCOPE = { environment: 'test', appcode: 'APPCODE' }
+const ORIGINAL = { syssn: 'S_ORIG', out_trade_no: 'PI_ORIG', respcd: '0000', txamt: '1000', txcurrcd: 'HKD' }
+
+let dataDir: string
+// Trades QFPay knows about, by out_trade_no, as `/trade/v1/query` returns them
+let trades: Map<string, Record<string, unknown>>
+
+// Stands in for the two calls refunds make; `refund` succeeds unless a test replaces it
+function fakeClient() {
+  const client = {
+    queryTransactions: vi.fn(async (params: { syssn?: string; out_trade_no?: string }) => {
+      const trade = params.syssn === ORIGINAL.syssn ? ORIGINAL : trades.get(params.out_trade_no || '')
+      return { respcd: '0000', data: trade ? [trade] : [] } as Record<string, unknown>
+    }),
+    refund: vi.fn(async (params: { out_trade_no: string; txamt: string }) => {
+      const syssn = `S_${params.out_trade_no}`
+      trades.set(params.out_trade_no, { syssn, out_trade_no: params.out_trade_no, respcd: '0000', txamt: params.txamt })
+      return { respcd: '0000', syssn } as Record<string, unknown>
+    })
+  }
+  return client as typeof client & QFPayClient
+}
+
+beforeEach(() => {
+  // The record store holds the ledger; give every test an empty one
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qfpay-refunds-'))
+  vi.stubEnv('QFPAY_DATA_DIR', dataDir)
+  vi.stubEnv('QFPAY_LOG_LEVEL', 'error')
+  delete (globalThis as { __qfpayRecordStore?: unknown }).__qfpayRecordStore
+  trades = new Map()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('createRefund', () => {
+  it('tracks what is left to refund across partial refunds', async () => {
+    const client = fakeClient()
+
+    const first = await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 300 })
+    expect(first).toMatchObject({ original_txamt: 1000, total_refunded: 300, refundable_remaining: 700 })
+    expect(first.refund).toMatchObject({ status: 'succeeded', refund_syssn: `S_${first.refund.refund_out_trade_no}` })
+
+    const second = await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 700 })
+    expect(second).toMatchObject({ total_refunded: 1000, refundable_remaining: 0 })
+  })
+
+  it('rejects a refund above the remaining amount without calling QFPay', async () => {
+    const client = fakeClient()
+    await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 600 })
+
+    await expect(createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 401 }))
+      .rejects.toMatchObject({ name: 'RefundValidationError', httpStatus: 409 })
+    expect(client.refund).toHaveBeenCalledTimes(1)
+    expect(totalRefunded(SCOPE, ORIGINAL.syssn)).toBe(600)
+  })
+
+  it('rejects amounts that are not positive whole minor units', async () => {
+    await expect(createRefund(fakeClient(), SCOPE, { syssn: ORIGINAL.syssn, txamt: 1.5 })).rejects.toBeInstanceOf(RefundValidationError)
+    await expect(createRefund(fakeClient(), SCOPE, { syssn: ORIGINAL.syssn, txamt: 0 })).rejects.toBeInstanceOf(RefundValidationError)
+  })
+
+  it('counts a retry under the same trade number once', async () => {
+    const client = fakeClient()
+    await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 400, refund_out_trade_no: 'RF_1' })
+
+    const retry = await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 400, refund_out_trade_no: 'RF_1' })
+    expect(retry).toMatchObject({ total_refunded: 400, refundable_remaining: 600 })
+    expect(client.refund).toHaveBeenCalledTimes(1)
+  })
+
+  it('releases the amount when QFPay explicitly refuses the refund', async () => {
+    const client = fakeClient()
+    client.refund.mockRejectedValueOnce(new QFPayError('Payment failed', { endpoint: '/trade/v1/refund', httpStatus: 400, respcd: '1205', upstreamStatus: 200 }))
+
+    await expect(createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 1000 })).rejects.toBeInstanceOf(QFPayError)
+    expect(totalRefunded(SCOPE, ORIGINAL.syssn)).toBe(0)
+  })
+
+  it('keeps the amount reserved while the outcome is unknown', async () => {
+    const client = fakeClient()
+    client.refund.mockRejectedValueOnce(new QFPayError('Gateway timeout', { endpoint: '/trade/v1/refund', httpStatus: 504 }))
+
+    await expect(createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 800, refund_out_trade_no: 'RF_1' })).rejects.toBeInstanceOf(QFPayError)
+    expect(totalRefunded(SCOPE, ORIGINAL.syssn)).toBe(800)
+    await expect(createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 300 })).rejects.toBeInstanceOf(RefundValidationError)
+  })
+
+  it('settles a pending refund from a trade query before the next one', async () => {
+    const client = fakeClient()
+    client.refund.mockRejectedValueOnce(new QFPayError('Gateway timeout', { endpoint: '/trade/v1/refund', httpStatus: 504 }))
+    await expect(createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 800, refund_out_trade_no: 'RF_1' })).rejects.toBeInstanceOf(QFPayError)
+
+    // QFPay turns out to have declined it
+    trades.set('RF_1', { syssn: 'S_RF_1', out_trade_no: 'RF_1', respcd: '1205', txamt: '800' })
+
+    const next = await createRefund(client, SCOPE, { syssn: ORIGINAL.syssn, txamt: 300 })
+    expect(next).toMatchObject({ total_refunded: 300, refundable_remaining: 700 })
+  })
+})
@@ -0,0 +1,217 @@
+import crypto from 'crypto'
+import { QFPayClient, QFPayError, QFPayUnavailableError } from './client'
+import { describeRespcd, isDuplicateRespcd } from './respcd'
+import { RecordScope, getRecord, listRecords, saveRecord } from './store'
+import { TransactionLookup, fetchTransactionStatus, transactionStatusFromRespcd } from './transactions'
+import { createLogger } from './logger'
+
+const log = createLogger('Refunds')
+
+export interface RefundRequest extends TransactionLookup {
+  txamt: number
+  // Fixed trade number for idempotent retries; generated when absent
+  refund_out_trade_no?: string
+}
+
+export interface RefundRecord {
+  refund_syssn: string | null
+  refund_out_trade_no: string
+  orig_syssn: string
+  orig_out_trade_no: string | null
+  txamt: number
+  txcurrcd: string | null
+  // `pending` until QFPay's answer (or a later trade query) says how the refund ended
+  status: 'pending' | 'succeeded' | 'failed'
+  created_at: string
+}
+
+export interface RefundResult {
+  refund: RefundRecord
+  original_txamt: number
+  total_refunded: number
+  refundable_remaining: number
+  raw_response: Record<string, unknown>
+}
+
+/**
+ * Raised when a refund is rejected before reaching QFPay (bad amount, unpaid
+ * original, or the refund would exceed the original `txamt`)
+ */
+export class RefundValidationError extends Error {
+  httpStatus: number
+
+  constructor(message: string, httpStatus = 400) {
+    super(message)
+    this.name = 'RefundValidationError'
+    this.httpStatus = httpStatus
+  }
+}
+
+// A pending refund QFPay still has no trade for after this long never reached it
+const UNSEEN_REFUND_EXPIRY_MS = 15 * 60 * 1000
+
+/**
+ * Refunds recorded against an original transaction of one merchant and environment.
+ * Kept in the record store, so the ledger survives restarts.
+ */
+export function listRefunds(scope: RecordScope, origSyssn: string): RefundRecord[] {
+  return listRecords({ kind: 'refund', ...scope })
+    .map(record => record.data as unknown as RefundRecord)
+    .filter(refund => refund.orig_syssn === origSyssn)
+}
+
+/**
+ * Amount already refunded or possibly being refunded for an original transaction
+ */
+export function totalRefunded(scope: RecordScope, origSyssn: string): number {
+  return listRefunds(scope, origSyssn)
+    .filter(refund => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.txamt, 0)
+}
+
+/**
+ * Generate a unique merchant trade number for a refund
+ */
+export function generateRefundTradeNo() {
+  return `RF_${Date.now()}_${crypto.randomBytes(3).toString('hex').toUpperCase()}`
+}
+
+/**
+ * Whether QFPay explicitly refused the refund, so nothing was refunded. Timeouts,
+ * 5xx answers, duplicates and "still waiting for the bank" codes leave it unknown.
+ */
+function isRejection(error: unknown) {
+  // The circuit breaker failed the call before it was sent
+  if (error instanceof QFPayUnavailableError) return true
+  if (!(error instanceof QFPayError) || !error.respcd) return false
+  if (error.upstreamStatus === undefined || error.upstreamStatus >= 300) return false
+  return !isDuplicateRespcd(error.respcd) && describeRespcd(error.respcd)?.category !== 'system'
+}
+
+function saveRefund(scope: RecordScope, refund: RefundRecord, raw_response?: Record<string, unknown>) {
+  saveRecord('refund', refund.refund_out_trade_no, scope, { ...refund, ...(raw_response ? { raw_response } : {}) })
+}
+
+/**
+ * Look up the outcome of one pending refund by its trade number. It stays pending
+ * while QFPay can't be asked or hasn't decided.
+ */
+async function settleRefund(client: QFPayClient, scope: RecordScope, refund: RefundRecord) {
+  let trade: Record<string, unknown> | undefined
+  let responseData: Record<string, unknown>
+  try {
+    responseData = await client.queryTransactions({ out_trade_no: refund.refund_out_trade_no })
+    const records = Array.isArray(responseData.data) ? responseData.data : []
+    trade = records.find(record => record.out_trade_no === refund.refund_out_trade_no)
+  } catch (error) {
+    log.warn('Could not settle pending refund', { refund_out_trade_no: refund.refund_out_trade_no, error })
+    return
+  }
+
+  if (!trade) {
+    if (Date.now() - new Date(refund.created_at).getTime() > UNSEEN_REFUND_EXPIRY_MS) {
+      refund.status = 'failed'
+      saveRefund(scope, refund)
+      log.info('Pending refund never reached QFPay; released', { refund_out_trade_no: refund.refund_out_trade_no })
+    }
+    return
+  }
+
+  const status = transactionStatusFromRespcd(trade.respcd ? String(trade.respcd) : null)
+  if (status === 'pending') return
+
+  refund.status = status === 'paid' ? 'succeeded' : 'failed'
+  refund.refund_syssn = trade.syssn ? String(trade.syssn) : refund.refund_syssn
+  saveRefund(scope, refund, responseData)
+  log.info('Pending refund settled', { refund_out_trade_no: refund.refund_out_trade_no, status: refund.status })
+}
+
+function refundResult(scope: RecordScope, refund: RefundRecord, originalTxamt: number, raw_response: Record<string, unknown>): RefundResult {
+  const total = totalRefunded(scope, refund.orig_syssn)
+  return {
+    refund,
+    original_txamt: originalTxamt,
+    total_refunded: total,
+    refundable_remaining: originalTxamt - total,
+    raw_response
+  }
+}
+
+/**
+ * Refund all or part of a paid transaction. The refund amount is reserved in the
+ * ledger before calling QFPay, so concurrent refunds can't exceed the original `txamt`.
+ * A refund whose outcome is unknown (timeout, outage) keeps its amount reserved until
+ * a trade query by its trade number settles it.
+ */
+export async function createRefund(client: QFPayClient, scope: RecordScope, request: RefundRequest): Promise<RefundResult> {
+  if (!Number.isInteger(request.txamt) || request.txamt <= 0) {
+    throw new RefundValidationError('Refund amount must be a positive integer in minor units')
+  }
+
+  const { transaction } = await fetchTransactionStatus(client, request)
+  if (transaction.status !== 'paid' || !transaction.syssn || transaction.txamt === null) {
+    throw new RefundValidationError(`Original transaction is not refundable (status: ${transaction.status})`, 409)
+  }
+
+  const origSyssn = transaction.syssn
+  for (const pending of listRefunds(scope, origSyssn).filter(refund => refund.status === 'pending')) {
+    await settleRefund(client, scope, pending)
+  }
+
+  const refundOutTradeNo = request.refund_out_trade_no || generateRefundTradeNo()
+  // A retry under the same trade number: QFPay refunds it at most once, so it isn't counted twice
+  const previous = listRefunds(scope, origSyssn).find(refund => refund.refund_out_trade_no === refundOutTradeNo && refund.status !== 'failed')
+  if (previous?.status === 'succeeded') {
+    return refundResult(scope, previous, transaction.txamt, getRecord('refund', refundOutTradeNo)?.raw_response || {})
+  }
+
+  const alreadyRefunded = totalRefunded(scope, origSyssn) - (previous?.txamt || 0)
+  if (alreadyRefunded + request.txamt > transaction.txamt) {
+    throw new RefundValidationError(
+      `Refund of ${request.txamt} exceeds refundable amount ${transaction.txamt - alreadyRefunded} ` +
+      `(original ${transaction.txamt}, already refunded ${alreadyRefunded})`,
+      409
+    )
+  }
+
+  const refund: RefundRecord = {
+    refund_syssn: null,
+    refund_out_trade_no: refundOutTradeNo,
+    orig_syssn: origSyssn,
+    orig_out_trade_no: transaction.out_trade_no,
+    txamt: request.txamt,
+    txcurrcd: transaction.txcurrcd,
+    status: 'pending',
+    created_at: new Date().toISOString()
+  }
+  saveRefund(scope, refund)
+
+  try {
+    const responseData = await client.refund({
+      syssn: origSyssn,
+      out_trade_no: refund.refund_out_trade_no,
+      txamt: request.txamt.toString(),
+      txdtm: new Date().toISOString().replace(/T/, ' ').replace(/\..+/, '')
+    })
+
+    refund.status = 'succeeded'
+    refund.refund_syssn = (responseData.syssn as string) || null
+    saveRefund(scope, refund, responseData)
+
+    return refundResult(scope, refund, transaction.txamt, responseData)
+  } catch (error) {
+    if (isRejection(error)) {
+      refund.status = 'failed'
+      saveRefund(scope, refund)
+      throw error
+    }
+
+    // QFPay may have refunded it; find out now, otherwise the amount stays reserved
+    log.warn('Refund outcome unknown; keeping the amount reserved', { refund_out_trade_no: refund.refund_out_trade_no, error })
+    await settleRefund(client, scope, refund)
+    if (refund.status === 'succeeded') {
+      return refundResult(scope, refund, transaction.txamt, getRecord('refund', refund.refund_out_trade_no)?.raw_response || {})
+    }
+    throw error
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Catalog of QFPay `respcd` values: what each one means and what to do about it.
+ * Codes that aren't listed are passed through with QFPay's own `respmsg`.
+ */
+
+export type RespcdCategory =
+  // Credentials, APPCODE or signature rejected
+  | 'auth'
+  // The request itself is malformed or has a bad value
+  | 'parameter'
+  // Valid request refused by a business rule (order state, balance, refund limits)
+  | 'business'
+  // Failure inside QFPay or the bank; the outcome may be unknown
+  | 'system'
+  // QFPay turned the request away without processing it, so it is always safe to send again
+  | 'retryable'
+
+export interface RespcdInfo {
+  respcd: string
+  category: RespcdCategory
+  // Short name for the failure, e.g. "Signature mismatch"
+  title: string
+  explanation: string
+  remediation: string
+}
+
+export const RESPCD_CATEGORY_LABELS: Record<RespcdCategory, string> = {
+  auth: 'Authentication / signature',
+  parameter: 'Invalid parameter',
+  business: 'Business rule',
+  system: 'QFPay system error',
+  retryable: 'Temporary (retried automatically)'
+}
+
+const CATALOG: Record<string, Omit<RespcdInfo, 'respcd'>> = {
+  '1100': {
+    category: 'retryable',
+    title: 'QFPay under maintenance',
+    explanation: 'The gateway is in a maintenance window and did not process the request.',
+    remediation: 'wait a few minutes and try again'
+  },
+  '1102': {
+    category: 'business',
+    title: 'Duplicate request',
+    explanation: 'A request with the same merchant trade number was already received.',
+    remediation: 'query the original order instead of creating it again'
+  },
+  '1103': {
+    category: 'parameter',
+    title: 'Malformed request',
+    explanation: 'QFPay could not parse the request body.',
+    remediation: 'send form-encoded parameters and check the API call inspector for the exact body'
+  },
+  '1104': {
+    category: 'parameter',
+    title: 'Invalid parameter',
+    explanation: 'A required parameter is missing or has a value QFPay does not accept.',
+    remediation: 'check the field named in the QFPay message against the API docs'
+  },
+  '1105': {
+    category: 'auth',
+    title: 'APPCODE not activated',
+    explanation: 'The APPCODE exists but has not been activated for this environment.',
+    remediation: 'ask QFPay to activate the APPCODE, or switch to the environment it was issued for'
+  },
+  '1106': {
+    category: 'auth',
+    title: 'Unknown APPCODE',
+    explanation: 'QFPay does not recognise the APPCODE sent in the request headers.',
+    remediation: 'check the APPCODE and that the profile points at the right environment'
+  },
+  '1107': {
+    category: 'auth',
+    title: 'APPCODE not allowed',
+    explanation: 'The APPCODE is not permitted to call this endpoint.',
+    remediation: 'ask QFPay to enable the product for this merchant'
+  },
+  '1108': {
+    category: 'auth',
+    title: 'Signature mismatch',
+    explanation: 'The signature QFPay computed from the parameters and client key does not match X-QF-SIGN.',
+    remediation: 'check the client key and the environment (try the signature debugger)'
+  },
+  '1125': {
+    category: 'business',
+    title: 'Already refunded',
+    explanation: 'The transaction has already been refunded in full.',
+    remediation: 'query the transaction to see its existing refunds'
+  },
+  '1136': {
+    category: 'business',
+    title: 'Transaction not operable',
+    explanation: 'The transaction does not exist or cannot be operated on in its current state.',
+    remediation: 'check the syssn and query the transaction status first'
+  },
+  '1142': {
+    category: 'business',
+    title: 'Order closed',
+    explanation: 'The order was closed and can no longer be paid.',
+    remediation: 'create a new payment intent'
+  },
+  '1143': {
+    category: 'business',
+    title: 'Awaiting payment',
+    explanation: 'The customer has not finished paying yet.',
+    remediation: 'wait for the payment notification or query the transaction again later'
+  },
+  '1145': {
+    category: 'business',
+    title: 'Payment processing',
+    explanation: 'QFPay is still processing the payment.',
+    remediation: 'query the transaction again in a few seconds'
+  },
+  '1155': {
+    category: 'business',
+    title: 'Refund denied',
+    explanation: 'QFPay refused the refund for this transaction.',
+    remediation: 'check that the transaction is paid and settled, or contact QFPay support'
+  },
+  '1181': {
+    category: 'business',
+    title: 'Order expired',
+    explanation: 'The payment window for this order has passed.',
+    remediation: 'create a new payment intent'
+  },
+  '1201': {
+    category: 'business',
+    title: 'Insufficient balance',
+    explanation: "The customer's account or card does not have enough funds.",
+    remediation: 'ask the customer to use another payment method'
+  },
+  '1202': {
+    category: 'business',
+    title: 'Invalid payment code',
+    explanation: 'The payment code is wrong or has expired.',
+    remediation: 'ask the customer to refresh the payment code and try again'
+  },
+  '1203': {
+    category: 'auth',
+    title: 'Merchant account problem',
+    explanation: "QFPay reported a problem with the merchant's account.",
+    remediation: "contact QFPay to check the merchant's account status"
+  },
+  '1204': {
+    category: 'system',
+    title: 'Bank error',
+    explanation: 'The bank or card scheme returned an error.',
+    remediation: 'query the transaction before retrying so the customer is not charged twice'
+  },
+  '1205': {
+    category: 'business',
+    title: 'Payment failed',
+    explanation: 'The transaction was declined.',
+    remediation: 'ask the customer to try another card; in the mock, use one of the listed test cards'
+  },
+  '1250': {
+    category: 'business',
+    title: 'Operation not allowed',
+    explanation: 'The object is not in a state that allows this operation.',
+    remediation: 'check its current state (e.g. archived product, canceled subscription) before retrying'
+  },
+  '1252': {
+    category: 'system',
+    title: 'QFPay order error',
+    explanation: 'QFPay hit an internal error while creating the order.',
+    remediation: 'query the order before retrying so it is not created twice'
+  },
+  '1254': {
+    category: 'system',
+    title: 'QFPay internal error',
+    explanation: 'QFPay reported an internal problem it is working on.',
+    remediation: 'try again later and contact QFPay support if it persists'
+  },
+  '1260': {
+    category: 'business',
+    title: 'Already paid',
+    explanation: 'The order has already been paid.',
+    remediation: 'query the transaction instead of paying again'
+  },
+  '1261': {
+    category: 'business',
+    title: 'Not paid',
+    explanation: 'The order has not been paid, so it cannot be refunded or settled.',
+    remediation: 'wait for payment or cancel the order instead'
+  },
+  '1262': {
+    category: 'business',
+    title: 'Order refunded',
+    explanation: 'The order has already been refunded.',
+    remediation: 'query the transaction to see its existing refunds'
+  },
+  '1263': {
+    category: 'business',
+    title: 'Order cancelled',
+    explanation: 'The order has been cancelled.',
+    remediation: 'create a new payment intent'
+  },
+  '1264': {
+    category: 'business',
+    title: 'Order closed',
+    explanation: 'The order has been closed.',
+    remediation: 'create a new payment intent'
+  },
+  '1265': {
+    category: 'business',
+    title: 'Refund window closed',
+    explanation: 'Refunds are not accepted between 23:30 and 00:30 Hong Kong time.',
+    remediation: 'retry the refund after 00:30'
+  },
+  '1266': {
+    category: 'parameter',
+    title: 'Wrong amount',
+    explanation: 'The amount does not match what QFPay expects for this order.',
+    remediation: 'send txamt in minor units and check it against the original transaction'
+  },
+  '1267': {
+    category: 'parameter',
+    title: 'Order details mismatch',
+    explanation: 'The order details do not match the original order.',
+    remediation: 'resend with the same out_trade_no, amount and currency as the original'
+  },
+  '1268': {
+    category: 'business',
+    title: 'Order not found',
+    explanation: 'QFPay has no order with that identifier, or it is not in a payable/refundable state.',
+    remediation: 'check the syssn or out_trade_no and that the profile uses the same environment'
+  },
+  '1269': {
+    category: 'business',
+    title: 'Insufficient unsettled balance',
+    explanation: 'The merchant does not have enough unsettled funds to cover the refund.',
+    remediation: 'refund a smaller amount or wait for more transactions to settle'
+  },
+  '1270': {
+    category: 'business',
+    title: 'Partial refund not supported',
+    explanation: 'This currency does not support partial refunds.',
+    remediation: 'refund the full amount'
+  },
+  '1271': {
+    category: 'business',
+    title: 'Partial refund not supported',
+    explanation: 'This transaction does not support partial refunds.',
+    remediation: 'refund the full amount'
+  },
+  '1272': {
+    category: 'business',
+    title: 'Refund too large',
+    explanation: 'The refund is more than what is left to refund on the transaction.',
+    remediation: 'lower the amount to the refundable remainder'
+  },
+  '1294': {
+    category: 'business',
+    title: 'Transaction flagged',
+    explanation: 'QFPay flagged the transaction as possibly non-compliant.',
+    remediation: 'contact QFPay support with the trace id'
+  },
+  '1295': {
+    category: 'system',
+    title: 'Slow connection',
+    explanation: 'QFPay is still waiting for the bank; the outcome is not known yet.',
+    remediation: 'query the transaction before retrying'
+  },
+  '1297': {
+    category: 'retryable',
+    title: 'Bank system busy',
+    explanation: 'The bank was too busy to accept the request, so nothing was processed.',
+    remediation: 'try again in a moment'
+  },
+  '1298': {
+    category: 'system',
+    title: 'Slow connection',
+    explanation: 'QFPay is still waiting for the bank; the outcome is not known yet.',
+    remediation: 'query the transaction before retrying'
+  }
+}
+
+export function describeRespcd(respcd: string | null | undefined): RespcdInfo | null {
+  if (!respcd) return null
+  const entry = CATALOG[respcd]
+  return entry ? { respcd, ...entry } : null
+}
+
+/**
+ * Whether QFPay is known not to have processed a request answered with `respcd`
+ */
+export function isRetryableRespcd(respcd: string | null | undefined) {
+  return describeRespcd(respcd)?.category === 'retryable'
+}
+
+/**
+ * Whether QFPay refused a create because it already has a request with the same merchant trade number
+ */
+export function isDuplicateRespcd(respcd: string | null | undefined) {
+  return respcd === '1102'
+}
+
+/**
+ * One-line summary for people, e.g. "Signature mismatch: check the client key and the environment".
+ * Unknown codes fall back to QFPay's own message.
+ */
+export function summarizeRespcd(respcd: string, respmsg?: string) {
+  const info = describeRespcd(respcd)
+  return info ? `${info.title}: ${info.remediation}` : `QFPay error ${respcd}${respmsg ? `: ${respmsg}` : ''}`
+}
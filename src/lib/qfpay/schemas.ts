@@ -0,0 +1,209 @@
+import { SUPPORTED_CURRENCIES } from './currency'
+import { RECORD_KINDS } from './store'
+import type { FieldRule, Schema } from './validation'
+import { PROFILE_ENVIRONMENTS } from './vault'
+
+/**
+ * Request schemas for the `/api/qfpay/*` routes and the server actions that take free-form input
+ */
+
+const PROFILE_ID: FieldRule = { type: 'string', required: true, description: 'Merchant profile to call QFPay with (see GET /api/qfpay/profiles)', example: 'mock' }
+const CURRENCY: FieldRule = { type: 'enum', values: SUPPORTED_CURRENCIES, example: 'HKD' }
+const IDENTIFIER: FieldRule = { type: 'string', maxLength: 64, pattern: /^[\x21-\x7e]+$/, format: 'printable characters without spaces' }
+const PAGE: FieldRule = { type: 'integer', min: 1, description: 'Page number, starting at 1' }
+const PAGE_SIZE: FieldRule = { type: 'integer', min: 1, max: 100, description: 'Results per page (default 10)' }
+const SYSSN: FieldRule = { ...IDENTIFIER, description: "QFPay's transaction number" }
+const OUT_TRADE_NO: FieldRule = { ...IDENTIFIER, description: 'Merchant trade number sent with the payment' }
+const PRODUCT_ID: FieldRule = { ...IDENTIFIER, required: true, example: 'prod_54c3772d9a54b236e09ec74f' }
+const SUBSCRIPTION_ID: FieldRule = { ...IDENTIFIER, required: true, example: 'sub_1a2b3c4d5e6f' }
+
+export const PRODUCT_TYPES = ['recurring', 'onetime'] as const
+export const PRODUCT_INTERVALS = ['daily', 'weekly', 'monthly', 'yearly'] as const
+export const PRODUCT_USAGE_TYPES = ['licensed', 'metered'] as const
+export const PRODUCT_STATES = ['active', 'archived'] as const
+export const SUBSCRIPTION_STATES = ['incomplete', 'active', 'paused', 'past_due', 'canceled', 'unpaid'] as const
+
+export const CREATE_PRODUCT_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    name: { type: 'string', required: true, maxLength: 100, example: 'Premium plan' },
+    txamt: { type: 'amount', required: true, description: 'Price per billing interval in minor units', example: 1000 },
+    txcurrcd: { ...CURRENCY, required: true },
+    type: { type: 'enum', values: PRODUCT_TYPES, description: 'Defaults to onetime' },
+    description: { type: 'string', maxLength: 500 },
+    interval: { type: 'enum', values: PRODUCT_INTERVALS, description: 'Billing interval of a recurring product' },
+    interval_count: { type: 'integer', min: 1, max: 365, description: 'Number of intervals between bills' },
+    usage_type: { type: 'enum', values: PRODUCT_USAGE_TYPES, description: 'Defaults to licensed' }
+  },
+  // QFPay rejects a recurring product without one; catch it before the call
+  requiredWhen: [{ field: 'type', equals: 'recurring', require: ['interval'] }]
+}
+
+export const QUERY_PRODUCTS_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    page: PAGE,
+    page_size: PAGE_SIZE,
+    product_id: IDENTIFIER,
+    type: { type: 'enum', values: PRODUCT_TYPES },
+    txcurrcd: CURRENCY,
+    state: { type: 'enum', values: PRODUCT_STATES }
+  }
+}
+
+export const UPDATE_PRODUCT_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    product_id: PRODUCT_ID,
+    name: { type: 'string', nonEmpty: true, maxLength: 100 },
+    description: { type: 'string', maxLength: 500 }
+  },
+  anyOf: [['name', 'description']]
+}
+
+export const PRODUCT_ID_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    product_id: PRODUCT_ID
+  }
+}
+
+export const CREATE_SUBSCRIPTION_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    customer_id: { ...IDENTIFIER, required: true, description: 'Customer from the createCustomer step', example: 'cus_1a2b3c4d5e6f' },
+    token_id: { ...IDENTIFIER, required: true, description: 'Saved card token of that customer', example: 'tk_1a2b3c4d5e6f' },
+    products: {
+      type: 'array',
+      required: true,
+      minItems: 1,
+      items: {
+        fields: {
+          product_id: PRODUCT_ID,
+          quantity: { type: 'integer', required: true, min: 1, max: 1000, example: 1 }
+        }
+      }
+    },
+    total_billing_cycles: { type: 'integer', min: 1, max: 1200, description: 'Stop after this many bills; unlimited when omitted' },
+    start_time: { type: 'datetime', description: 'First billing time; now when omitted' }
+  }
+}
+
+export const QUERY_SUBSCRIPTIONS_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    page: PAGE,
+    page_size: PAGE_SIZE,
+    subscription_id: IDENTIFIER,
+    customer_id: IDENTIFIER,
+    state: { type: 'enum', values: SUBSCRIPTION_STATES }
+  }
+}
+
+// cancel, pause and resume
+export const SUBSCRIPTION_ID_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    subscription_id: SUBSCRIPTION_ID
+  }
+}
+
+export const QUERY_TRANSACTION_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    syssn: SYSSN,
+    out_trade_no: OUT_TRADE_NO,
+    payment_intent_id: IDENTIFIER
+  },
+  anyOf: [['syssn', 'out_trade_no', 'payment_intent_id']]
+}
+
+export const CREATE_REFUND_SCHEMA: Schema = {
+  fields: {
+    profileId: PROFILE_ID,
+    txamt: { type: 'amount', required: true, description: 'Amount to refund in minor units; at most what is left to refund', example: 100 },
+    syssn: SYSSN,
+    out_trade_no: OUT_TRADE_NO
+  },
+  anyOf: [['syssn', 'out_trade_no']]
+}
+
+export const CREATE_PROFILE_SCHEMA: Schema = {
+  fields: {
+    name: { type: 'string', required: true, maxLength: 100, example: 'My test merchant' },
+    appcode: { type: 'string', required: true, maxLength: 64, description: 'APPCODE issued by QFPay' },
+    clientKey: { type: 'string', required: true, description: 'Client key used to sign requests; stored encrypted and never returned' },
+    environment: { type: 'enum', required: true, values: PROFILE_ENVIRONMENTS },
+    sign_type: { type: 'enum', values: ['MD5', 'SHA256'], description: 'Defaults to MD5' },
+    response_verification: { type: 'enum', values: ['strict', 'permissive'], description: 'Defaults to strict' }
+  }
+}
+
+// Omitted fields (and an empty clientKey) keep their stored value
+export const UPDATE_PROFILE_SCHEMA: Schema = {
+  fields: {
+    name: { type: 'string', nonEmpty: true, maxLength: 100 },
+    appcode: { type: 'string', nonEmpty: true, maxLength: 64 },
+    clientKey: { type: 'string' },
+    environment: { type: 'enum', values: PROFILE_ENVIRONMENTS },
+    sign_type: { type: 'enum', values: ['MD5', 'SHA256'] },
+    response_verification: { type: 'enum', values: ['strict', 'permissive'] }
+  }
+}
+
+export const PROFILE_PATH_SCHEMA: Schema = {
+  fields: {
+    id: { type: 'string', required: true, description: 'Merchant profile id', example: 'mock' }
+  }
+}
+
+// Query string of GET /api/qfpay/records; a profileId takes precedence over environment and appcode
+export const LIST_RECORDS_SCHEMA: Schema = {
+  fields: {
+    kind: { type: 'enum', values: RECORD_KINDS },
+    profileId: { type: 'string', description: "Only records created with this profile's appcode and environment" },
+    environment: { type: 'enum', values: PROFILE_ENVIRONMENTS },
+    appcode: { type: 'string' },
+    include_deleted: { type: 'enum', values: ['true', 'false'], description: 'Include records whose QFPay object was deleted' }
+  }
+}
+
+export const RECORD_PATH_SCHEMA: Schema = {
+  fields: {
+    kind: { type: 'enum', required: true, values: RECORD_KINDS },
+    id: { type: 'string', required: true, description: 'QFPay object id, e.g. a product_id' }
+  }
+}
+
+export const LIST_CALLS_SCHEMA: Schema = {
+  fields: {
+    profileId: { type: 'string', description: "Only calls made with this profile's appcode and environment" },
+    traceId: { type: 'string', description: 'Only calls made while handling this X-Trace-Id' },
+    limit: { type: 'integer', min: 1, max: 200, description: 'Defaults to 50' }
+  }
+}
+
+export const GATEWAY_HEALTH_SCHEMA: Schema = {
+  fields: {
+    profileId: { type: 'string', description: "Only the gateway of this profile's environment; every gateway when omitted" }
+  }
+}
+
+// Inputs of the createCustomer server action (missing name and email fall back to demo values)
+export const CREATE_CUSTOMER_SCHEMA: Schema = {
+  fields: {
+    name: { type: 'string', maxLength: 100 },
+    email: { type: 'string', maxLength: 254, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, format: 'an email address' },
+    phone: { type: 'string', maxLength: 20, pattern: /^\+?[\d\s-]{6,20}$/, format: 'a phone number (digits, spaces, - and a leading +)' }
+  }
+}
+
+// Inputs of the createPaymentIntent server action
+export const CREATE_PAYMENT_INTENT_SCHEMA: Schema = {
+  fields: {
+    amount: { type: 'amount', required: true },
+    currency: { ...CURRENCY, required: true },
+    customerId: IDENTIFIER,
+    tokenExpiry: { type: 'datetime' }
+  }
+}
@@ -0,0 +1,227 @@
+import { QFPaySignType, buildParamString, digestSignString, serializeParamValue } from './signature'
+
+/**
+ * Step-by-step signature computation and mismatch diagnosis for the signature debugger.
+ * Uses the same building blocks as request signing, so a digest that matches here matches on the wire.
+ */
+
+export type ParamInputFormat = 'auto' | 'form' | 'json'
+
+export type SignatureIssueKind =
+  | 'empty_value'
+  | 'whitespace'
+  | 'json_value'
+  | 'spaced_json'
+  | 'url_encoded'
+  | 'sign_param'
+  | 'non_ascii'
+  | 'duplicate_key'
+  | 'key_whitespace'
+  | 'parse_error'
+
+export interface SignatureIssue {
+  kind: SignatureIssueKind
+  // Parameter the issue applies to; absent for issues with the key or the input as a whole
+  param?: string
+  message: string
+}
+
+export interface SignatureSteps {
+  format: 'form' | 'json'
+  params: Record<string, string>
+  sorted_keys: string[]
+  param_string: string
+  sign_string: string
+  signature: string
+}
+
+/**
+ * An alternative way the other side may have built the sign string
+ */
+export interface SignatureVariant {
+  id: string
+  description: string
+  algorithm: QFPaySignType
+  param_string: string
+  signature: string
+  matches: boolean
+}
+
+export interface ParsedParams {
+  format: 'form' | 'json'
+  params: Record<string, string>
+  // Keys in the order they were pasted
+  order: string[]
+  issues: SignatureIssue[]
+}
+
+/**
+ * Parse pasted parameters: `k=v&k=v` (or one pair per line) or a JSON object.
+ * Values are kept byte-for-byte, whitespace included, since that is often the bug.
+ */
+export function parseParamInput(raw: string, format: ParamInputFormat = 'auto'): ParsedParams {
+  const resolved = format === 'auto' ? (raw.trim().startsWith('{') ? 'json' : 'form') : format
+  const params: Record<string, string> = {}
+  const order: string[] = []
+  const issues: SignatureIssue[] = []
+
+  const set = (key: string, value: string) => {
+    if (key in params) {
+      issues.push({ kind: 'duplicate_key', param: key, message: `"${key}" appears more than once; only the last value is used` })
+    } else {
+      order.push(key)
+    }
+    params[key] = value
+  }
+
+  if (resolved === 'json') {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(raw)
+    } catch (error) {
+      issues.push({ kind: 'parse_error', message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse failed'}` })
+      return { format: resolved, params, order, issues }
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      issues.push({ kind: 'parse_error', message: 'JSON input must be an object of parameter names to values' })
+      return { format: resolved, params, order, issues }
+    }
+    // Same rules as normalizeParams(): null is dropped, objects and arrays are sent as JSON
+    Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+      if (value === null || value === undefined) return
+      set(key, serializeParamValue(value as string))
+    })
+    return { format: resolved, params, order, issues }
+  }
+
+  raw.split(/&|\r?\n/).forEach(pair => {
+    if (!pair) return
+    const separator = pair.indexOf('=')
+    const rawKey = separator === -1 ? pair : pair.slice(0, separator)
+    const rawValue = separator === -1 ? '' : pair.slice(separator + 1)
+    try {
+      set(decodeURIComponent(rawKey.replace(/\+/g, ' ')), decodeURIComponent(rawValue.replace(/\+/g, ' ')))
+    } catch {
+      issues.push({ kind: 'parse_error', param: rawKey, message: `"${rawKey}" has an invalid %-escape; using it undecoded` })
+      set(rawKey, rawValue)
+    }
+  })
+  return { format: resolved, params, order, issues }
+}
+
+export function explainSignature(
+  params: Record<string, string>,
+  clientKey: string,
+  algorithm: QFPaySignType
+): Omit<SignatureSteps, 'format'> {
+  const paramString = buildParamString(params)
+  const signString = paramString + clientKey
+  return {
+    params,
+    sorted_keys: Object.keys(params).sort(),
+    param_string: paramString,
+    sign_string: signString,
+    signature: digestSignString(signString, algorithm)
+  }
+}
+
+function isJsonValue(value: string) {
+  if (!/^\s*[[{]/.test(value)) return false
+  try {
+    JSON.parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Things in the input that commonly cause mismatches, whether or not an expected signature is given
+ */
+export function findSignatureIssues(params: Record<string, string>, clientKey: string): SignatureIssue[] {
+  const issues: SignatureIssue[] = []
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (key === 'sign') {
+      issues.push({ kind: 'sign_param', param: key, message: 'The "sign" parameter itself must not be part of the signed string' })
+    }
+    if (value === '') {
+      issues.push({ kind: 'empty_value', param: key, message: `"${key}" is empty and is signed as "${key}=". Some clients drop empty parameters before signing` })
+    }
+    if (key !== key.trim() || value !== value.trim()) {
+      issues.push({ kind: 'whitespace', param: key, message: `"${key.trim()}" has leading or trailing whitespace, which is signed as-is` })
+    }
+    if (isJsonValue(value)) {
+      issues.push({ kind: 'json_value', param: key, message: `"${key}" is JSON-encoded; the signed text must be byte-identical to what is sent (key order, no extra spaces)` })
+      if (/[:,] /.test(value)) {
+        issues.push({ kind: 'spaced_json', param: key, message: `"${key}" has spaces after ":" or ","; JSON.stringify output has none` })
+      }
+    }
+    if (/%[0-9A-Fa-f]{2}/.test(value)) {
+      issues.push({ kind: 'url_encoded', param: key, message: `"${key}" looks URL-encoded; QFPay signs the raw, unescaped value` })
+    }
+    if (/[^\x20-\x7e]/.test(value)) {
+      issues.push({ kind: 'non_ascii', param: key, message: `"${key}" contains non-ASCII or control characters; both sides must hash the same UTF-8 bytes` })
+    }
+  })
+
+  if (clientKey && clientKey !== clientKey.trim()) {
+    issues.push({ kind: 'key_whitespace', message: 'The client key has leading or trailing whitespace' })
+  }
+
+  return issues
+}
+
+function mapValues(params: Record<string, string>, fn: (value: string, key: string) => string | null) {
+  const result: Record<string, string> = {}
+  Object.entries(params).forEach(([key, value]) => {
+    const mapped = fn(value, key)
+    if (mapped !== null) result[key] = mapped
+  })
+  return result
+}
+
+/**
+ * Re-sign the parameters the ways other implementations commonly get wrong
+ * and report which of them reproduce the expected signature
+ */
+export function trySignatureVariants(
+  parsed: ParsedParams,
+  clientKey: string,
+  algorithm: QFPaySignType,
+  expected: string
+): SignatureVariant[] {
+  const { params } = parsed
+  const baseString = buildParamString(params)
+  const target = expected.trim().toLowerCase()
+  const otherAlgorithm: QFPaySignType = algorithm === 'MD5' ? 'SHA256' : 'MD5'
+  const variants: SignatureVariant[] = []
+
+  const add = (id: string, description: string, paramString: string, key = clientKey, signType = algorithm) => {
+    if (paramString === baseString && key === clientKey && signType === algorithm) return
+    const signature = digestSignString(paramString + key, signType)
+    variants.push({ id, description, algorithm: signType, param_string: paramString, signature, matches: signature.toLowerCase() === target })
+  }
+
+  add('other_algorithm', `Signed with ${otherAlgorithm} instead of ${algorithm}`, baseString, clientKey, otherAlgorithm)
+  add('drop_empty', 'Empty parameters left out of the signed string', buildParamString(mapValues(params, value => value === '' ? null : value)))
+  add('trim_values', 'Whitespace trimmed from keys and values', buildParamString(
+    Object.fromEntries(Object.entries(params).map(([key, value]) => [key.trim(), value.trim()]))
+  ))
+  add('drop_sign', 'The "sign" parameter left out of the signed string', buildParamString(mapValues(params, (value, key) => key === 'sign' ? null : value)))
+  add('compact_json', 'JSON values re-encoded without spaces (JSON.stringify)', buildParamString(
+    mapValues(params, value => isJsonValue(value) ? JSON.stringify(JSON.parse(value)) : value)
+  ))
+  add('spaced_json', 'JSON values encoded with spaces after ":" and "," (Python json.dumps default)', buildParamString(
+    mapValues(params, value => isJsonValue(value)
+      ? JSON.stringify(JSON.parse(value)).replace(/("(?:[^"\\]|\\.)*")|([:,])/g, (match, str, separator) => str || `${separator} `)
+      : value)
+  ))
+  add('drop_json', 'JSON-encoded parameters left out of the signed string', buildParamString(mapValues(params, value => isJsonValue(value) ? null : value)))
+  add('url_encoded', 'Values URL-encoded before signing', buildParamString(mapValues(params, value => encodeURIComponent(value))))
+  add('unsorted', 'Keys signed in the order given instead of sorted', parsed.order.map(key => `${key}=${params[key]}`).join('&'))
+  add('trim_key', 'Client key trimmed', baseString, clientKey.trim())
+  add('no_key', 'Client key not appended', baseString, '')
+
+  return variants
+}
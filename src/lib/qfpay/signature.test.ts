@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { buildParamString, digestSignString, normalizeParams, signQFPayParams, verifyQFPaySignature } from './signature'
+
+describe('normalizeParams', () => {
+  it('drops null and undefined, keeps empty strings and serializes objects as JSON', () => {
+    expect(normalizeParams({ a: 'x', b: undefined, c: null, d: '', e: 5, f: [{ id: 1 }] })).toEqual({
+      a: 'x',
+      d: '',
+      e: '5',
+      f: '[{"id":1}]'
+    })
+  })
+})
+
+describe('signQFPayParams', () => {
+  const params = { txamt: '100', txcurrcd: 'HKD', mchid: 'M1', abc: 'value' }
+
+  it('signs the sorted, unescaped parameter string followed by the key', () => {
+    expect(buildParamString(params)).toBe('abc=value&mchid=M1&txamt=100&txcurrcd=HKD')
+    expect(signQFPayParams(params, 'test_key')).toBe('0eadd1e5a28845844248834469af1b68')
+  })
+
+  it('supports SHA256', () => {
+    expect(signQFPayParams(params, 'test_key', 'SHA256')).toBe('d203c810d8dccc5ff2200012ac8f1f4e13a6282d59f2f66c2f70a76f4591f97f')
+  })
+})
+
+describe('verifyQFPaySignature', () => {
+  const payload = '{"respcd":"0000"}'
+  const signature = '7241c7adc09aa829e33049722bcffd27'
+
+  it('accepts the digest of payload + key, case-insensitively', () => {
+    expect(verifyQFPaySignature(payload, signature, 'test_key')).toBe(true)
+    expect(verifyQFPaySignature(payload, ` ${signature.toUpperCase()} `, 'test_key')).toBe(true)
+  })
+
+  it('rejects a wrong key, a tampered payload or a missing signature', () => {
+    expect(verifyQFPaySignature(payload, signature, 'other_key')).toBe(false)
+    expect(verifyQFPaySignature('{"respcd":"1143"}', signature, 'test_key')).toBe(false)
+    expect(verifyQFPaySignature(payload, null, 'test_key')).toBe(false)
+  })
+
+  it('never verifies without a key, even against the bare digest anyone can compute', () => {
+    expect(verifyQFPaySignature(payload, digestSignString(payload), '')).toBe(false)
+  })
+})
@@ -0,0 +1,91 @@
+import crypto from 'crypto'
+
+export type QFPaySignType = 'MD5' | 'SHA256'
+
+export type QFPayParamValue = string | number | boolean | null | undefined | object
+
+/**
+ * Serialize a single parameter value the way QFPay expects it on the wire.
+ * Arrays and objects (e.g. subscription `products`) are sent as JSON strings.
+ */
+export function serializeParamValue(value: QFPayParamValue): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value.toString()
+}
+
+/**
+ * Normalize request parameters into the flat string map that is both signed
+ * and form-encoded. `undefined`/`null` entries are dropped, empty strings are kept.
+ */
+export function normalizeParams(params: Record<string, QFPayParamValue>): Record<string, string> {
+  const normalized: Record<string, string> = {}
+  Object.keys(params).forEach(key => {
+    const value = params[key]
+    if (value === undefined || value === null) return
+    normalized[key] = serializeParamValue(value)
+  })
+  return normalized
+}
+
+/**
+ * Build the `k=v&k=v` string QFPay signs: keys sorted ascending, values unescaped
+ */
+export function buildParamString(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&')
+}
+
+/**
+ * Hash a prepared sign string (parameter string + client key)
+ */
+export function digestSignString(signString: string, algorithm: QFPaySignType = 'MD5'): string {
+  const hash = algorithm.toUpperCase() === 'MD5' ? 'md5' : 'sha256'
+  return crypto.createHash(hash).update(signString).digest('hex')
+}
+
+/**
+ * Sign QFPay request parameters: sort, join, append client key, hash
+ */
+export function signQFPayParams(
+  params: Record<string, string>,
+  clientKey: string,
+  algorithm: QFPaySignType = 'MD5'
+): string {
+  return digestSignString(buildParamString(params) + clientKey, algorithm)
+}
+
+/**
+ * Build the authentication headers sent with every QFPay OpenAPI request
+ */
+export function buildQFPayHeaders(
+  appcode: string,
+  signature: string,
+  algorithm: QFPaySignType = 'MD5'
+): Record<string, string> {
+  return {
+    'X-QF-APPCODE': appcode,
+    'X-QF-SIGN': signature,
+    'X-QF-SIGNTYPE': algorithm.toUpperCase(),
+    'Content-Type': 'application/x-www-form-urlencoded'
+  }
+}
+
+/**
+ * Verify a signature QFPay computed over a raw payload (notification body or
+ * response body) with the same key-append scheme used for requests
+ */
+export function verifyQFPaySignature(
+  payload: string,
+  signature: string | null | undefined,
+  clientKey: string,
+  algorithm: QFPaySignType = 'MD5'
+): boolean {
+  // Without a key the "signature" is a bare digest of the payload that anyone can compute
+  if (!signature || !clientKey) return false
+  const expected = Buffer.from(digestSignString(payload + clientKey, algorithm).toLowerCase())
+  const received = Buffer.from(signature.trim().toLowerCase())
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
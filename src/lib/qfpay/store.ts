@@ -0,0 +1,174 @@
+import fs from 'fs'
+import path from 'path'
+import { createLogger } from './logger'
+
+const log = createLogger('Store')
+
+export type RecordKind = 'customer' | 'product' | 'payment_intent' | 'token_intent' | 'token' | 'subscription' | 'refund'
+
+export const RECORD_KINDS: RecordKind[] = ['customer', 'product', 'payment_intent', 'token_intent', 'token', 'subscription', 'refund']
+
+/**
+ * Which merchant account and environment a record was created in
+ */
+export interface RecordScope {
+  environment: string
+  appcode: string
+}
+
+export interface StoredRecord<T = Record<string, unknown>> extends RecordScope {
+  kind: RecordKind
+  id: string
+  data: T
+  raw_response: Record<string, unknown> | null
+  deleted: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface RecordFilter extends Partial<RecordScope> {
+  kind?: RecordKind
+  includeDeleted?: boolean
+}
+
+interface StoreFile {
+  version: 1
+  records: Record<string, StoredRecord>
+}
+
+/**
+ * Directory holding the record store and credential vault. Defaults to `.data/` in the project root.
+ */
+export function getDataDir() {
+  return process.env.QFPAY_DATA_DIR || path.join(process.cwd(), '.data')
+}
+
+/**
+ * Parse a JSON file in the data directory, or null if it doesn't exist yet
+ */
+export function readDataFile<T>(name: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(getDataDir(), name), 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error('Failed to read data file', { file: name, error })
+    }
+    return null
+  }
+}
+
+/**
+ * Write a JSON file in the data directory atomically (temp file + rename)
+ */
+export function writeDataFile(name: string, value: unknown, mode = 0o644) {
+  fs.mkdirSync(getDataDir(), { recursive: true })
+  const filePath = path.join(getDataDir(), name)
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2), { mode })
+  fs.renameSync(tmpPath, filePath)
+}
+
+function readStoreFile(): StoreFile {
+  const parsed = readDataFile<StoreFile>('records.json')
+  if (parsed && parsed.version === 1 && parsed.records) {
+    return parsed
+  }
+  if (parsed) {
+    log.error('Ignoring records file with unknown format')
+  }
+  return { version: 1, records: {} }
+}
+
+// Loaded once per process and kept on globalThis so dev-server hot reloads don't re-read the file
+const globalState = globalThis as typeof globalThis & { __qfpayRecordStore?: StoreFile }
+
+function loadStore(): StoreFile {
+  return globalState.__qfpayRecordStore ??= readStoreFile()
+}
+
+/**
+ * Write the whole store. A failed write is logged but never fails the QFPay
+ * call that produced the record.
+ */
+function persist(store: StoreFile) {
+  try {
+    writeDataFile('records.json', store)
+  } catch (error) {
+    log.error('Failed to write records file', { error })
+  }
+}
+
+function recordKey(kind: RecordKind, id: string) {
+  return `${kind}:${id}`
+}
+
+export function isRecordKind(value: unknown): value is RecordKind {
+  return typeof value === 'string' && (RECORD_KINDS as string[]).includes(value)
+}
+
+/**
+ * Insert or update a record. `data` is merged into any existing record, and a
+ * `raw_response` field in it is split out and kept as the latest QFPay response.
+ */
+export function saveRecord(
+  kind: RecordKind,
+  id: string | null | undefined,
+  scope: RecordScope,
+  data: Record<string, unknown>
+): StoredRecord | null {
+  if (!id) return null
+
+  const store = loadStore()
+  const key = recordKey(kind, id)
+  const existing = store.records[key]
+  const { raw_response, ...fields } = data
+  const now = new Date().toISOString()
+
+  const record: StoredRecord = {
+    kind,
+    id,
+    environment: existing?.environment || scope.environment,
+    appcode: existing?.appcode || scope.appcode,
+    data: { ...existing?.data, ...fields },
+    raw_response: (raw_response as Record<string, unknown> | undefined) ?? existing?.raw_response ?? null,
+    deleted: false,
+    created_at: existing?.created_at || now,
+    updated_at: now
+  }
+
+  store.records[key] = record
+  persist(store)
+  return record
+}
+
+/**
+ * Flag a record as deleted. It stays in the file for history but is hidden from listings.
+ */
+export function markRecordDeleted(kind: RecordKind, id: string) {
+  const store = loadStore()
+  const record = store.records[recordKey(kind, id)]
+  if (!record) return null
+
+  record.deleted = true
+  record.updated_at = new Date().toISOString()
+  persist(store)
+  return record
+}
+
+export function getRecord(kind: RecordKind, id: string): StoredRecord | null {
+  return loadStore().records[recordKey(kind, id)] || null
+}
+
+/**
+ * Records matching the filter, newest first
+ */
+export function listRecords(filter: RecordFilter = {}): StoredRecord[] {
+  return Object.values(loadStore().records)
+    .filter(record =>
+      (!filter.kind || record.kind === filter.kind) &&
+      (!filter.environment || record.environment === filter.environment) &&
+      (!filter.appcode || record.appcode === filter.appcode) &&
+      (filter.includeDeleted || !record.deleted)
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
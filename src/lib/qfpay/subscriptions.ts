@@ -0,0 +1,33 @@
+import { QFPayClient } from './client'
+
+export type SubscriptionAction = 'cancel' | 'pause' | 'resume'
+
+// State QFPay moves a subscription to for each lifecycle action, used when the response omits it
+const RESULTING_STATE: Record<SubscriptionAction, string> = {
+  cancel: 'canceled',
+  pause: 'paused',
+  resume: 'active'
+}
+
+/**
+ * Cancel, pause or resume a subscription and return its new state
+ */
+export async function changeSubscriptionState(
+  client: QFPayClient,
+  action: SubscriptionAction,
+  subscriptionId: string
+) {
+  const params = { subscription_id: subscriptionId }
+  const responseData = action === 'cancel'
+    ? await client.cancelSubscription(params)
+    : action === 'pause'
+      ? await client.pauseSubscription(params)
+      : await client.resumeSubscription(params)
+
+  return {
+    subscription_id: responseData.data?.subscription_id || subscriptionId,
+    state: responseData.data?.state || RESULTING_STATE[action],
+    updated_at: responseData.sysdtm,
+    raw_response: responseData
+  }
+}
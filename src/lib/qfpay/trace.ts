@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import crypto from 'crypto'
+
+// Declared in ./api so browser code can send it without pulling in async_hooks
+export { TRACE_HEADER } from './api'
+
+// Kept on globalThis so dev-server hot reloads and separate route bundles share one store
+const globalState = globalThis as typeof globalThis & { __qfpayTraceStorage?: AsyncLocalStorage<string> }
+const storage = globalState.__qfpayTraceStorage ??= new AsyncLocalStorage<string>()
+
+export function createTraceId() {
+  return crypto.randomBytes(8).toString('hex')
+}
+
+/**
+ * Run `fn` with a trace id that the logger and QFPay client pick up automatically.
+ * A missing or malformed id (it comes from the browser) is replaced with a fresh one.
+ */
+export function runWithTrace<T>(traceId: string | null | undefined, fn: () => T): T {
+  const id = traceId && /^[\w-]{1,64}$/.test(traceId) ? traceId : createTraceId()
+  return storage.run(id, fn)
+}
+
+/**
+ * Trace id of the request or server action currently running, if any
+ */
+export function getTraceId(): string | undefined {
+  return storage.getStore()
+}
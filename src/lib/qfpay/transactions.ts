@@ -0,0 +1,99 @@
+import type { QFPayClient, QueryTransactionsParams } from './client'
+
+export type TransactionStatus = 'paid' | 'failed' | 'pending' | 'expired'
+
+/**
+ * Normalized view of a QFPay trade, as shown in the payment result panel
+ */
+export interface TransactionResult {
+  status: TransactionStatus
+  syssn: string | null
+  out_trade_no: string | null
+  payment_intent_id: string | null
+  txamt: number | null
+  txcurrcd: string | null
+  card_brand: string | null
+  card_last4: string | null
+  respcd: string | null
+  respmsg: string | null
+  paid_at: string | null
+  // The trade record as QFPay returned it; API routes only include it with ?include_raw=true
+  raw_transaction?: Record<string, unknown> | null
+}
+
+export interface TransactionLookup {
+  syssn?: string | null
+  out_trade_no?: string | null
+  payment_intent_id?: string | null
+}
+
+// Trade-level respcd values that mean "the customer hasn't finished paying yet"
+const PENDING_RESPCDS = ['1143', '1145']
+// Trade-level respcd values that mean the order can no longer be paid
+const EXPIRED_RESPCDS = ['1142', '1181', '1264']
+
+export const TERMINAL_TRANSACTION_STATUSES: TransactionStatus[] = ['paid', 'failed', 'expired']
+
+function stringOrNull(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value)
+}
+
+/**
+ * Map a trade-level respcd to a transaction status
+ */
+export function transactionStatusFromRespcd(respcd: string | null): TransactionStatus {
+  if (!respcd) return 'pending'
+  if (respcd === '0000') return 'paid'
+  if (PENDING_RESPCDS.includes(respcd)) return 'pending'
+  if (EXPIRED_RESPCDS.includes(respcd)) return 'expired'
+  return 'failed'
+}
+
+/**
+ * Normalize one record from `/trade/v1/query`. `lookup` fills identifiers the record omits.
+ */
+export function normalizeTransaction(
+  record: Record<string, unknown> | null,
+  lookup: TransactionLookup = {}
+): TransactionResult {
+  const respcd = stringOrNull(record?.respcd)
+  const cardNumber = stringOrNull(record?.cardcd)
+  const txamt = stringOrNull(record?.txamt)
+
+  return {
+    status: record ? transactionStatusFromRespcd(respcd) : 'pending',
+    syssn: stringOrNull(record?.syssn) || lookup.syssn || null,
+    out_trade_no: stringOrNull(record?.out_trade_no) || lookup.out_trade_no || null,
+    payment_intent_id: stringOrNull(record?.payment_intent) || lookup.payment_intent_id || null,
+    txamt: txamt ? parseInt(txamt) : null,
+    txcurrcd: stringOrNull(record?.txcurrcd),
+    card_brand: stringOrNull(record?.card_brand) || stringOrNull(record?.cardscheme),
+    card_last4: stringOrNull(record?.card_last4) || (cardNumber ? cardNumber.slice(-4) : null),
+    respcd,
+    respmsg: stringOrNull(record?.errmsg) || stringOrNull(record?.respmsg) || (record ? null : 'Transaction not found yet'),
+    paid_at: respcd === '0000' ? stringOrNull(record?.sysdtm) : null,
+    raw_transaction: record
+  }
+}
+
+/**
+ * Look up a single trade by syssn, out_trade_no or payment intent id and normalize it
+ */
+export async function fetchTransactionStatus(client: QFPayClient, lookup: TransactionLookup) {
+  const params: QueryTransactionsParams = {}
+  if (lookup.syssn) params.syssn = lookup.syssn
+  if (lookup.out_trade_no) params.out_trade_no = lookup.out_trade_no
+  if (lookup.payment_intent_id) params.payment_intent = lookup.payment_intent_id
+
+  if (Object.keys(params).length === 0) {
+    throw new Error('One of syssn, out_trade_no or payment_intent_id is required')
+  }
+
+  const responseData = await client.queryTransactions(params)
+  const records = Array.isArray(responseData.data) ? responseData.data : []
+
+  return {
+    transaction: normalizeTransaction(records[0] || null, lookup),
+    raw_response: responseData
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { Schema, ValidationError, validateInput } from './validation'
+
+const SCHEMA: Schema = {
+  fields: {
+    name: { type: 'string', required: true, maxLength: 5 },
+    note: { type: 'string', nonEmpty: true },
+    type: { type: 'enum', values: ['onetime', 'recurring'] },
+    interval: { type: 'enum', values: ['day', 'month'] },
+    count: { type: 'integer', min: 1, max: 12 },
+    txamt: { type: 'amount' },
+    expiry: { type: 'datetime' },
+    syssn: { type: 'string' },
+    out_trade_no: { type: 'string' },
+    items: { type: 'array', minItems: 1, items: { fields: { quantity: { type: 'integer', required: true, min: 1 } } } }
+  },
+  anyOf: [['syssn', 'out_trade_no']],
+  requiredWhen: [{ field: 'type', equals: 'recurring', require: ['interval'] }]
+}
+
+// The fields map of the ValidationError thrown for `input`, or null when it is valid
+function fieldErrors(input: unknown) {
+  try {
+    validateInput(SCHEMA, input)
+    return null
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError)
+    return (error as ValidationError).fields
+  }
+}
+
+describe('validateInput', () => {
+  it('accepts valid input, with numbers given as numeric strings', () => {
+    expect(fieldErrors({
+      name: 'Plan',
+      type: 'recurring',
+      interval: 'month',
+      count: '3',
+      txamt: '100',
+      expiry: '2025-01-31 09:00:00',
+      syssn: 'S1',
+      items: [{ quantity: 2 }]
+    })).toBeNull()
+  })
+
+  it('reports every invalid field at once', () => {
+    expect(fieldErrors({
+      name: 'Too long',
+      note: '   ',
+      type: 'weekly',
+      count: 13,
+      txamt: '1.50',
+      expiry: '2025-02-30 09:00:00',
+      out_trade_no: 'T1',
+      items: [{ quantity: 1 }, { quantity: 0 }]
+    })).toEqual({
+      name: 'must be at most 5 characters',
+      note: 'cannot be empty',
+      type: 'must be one of: onetime, recurring',
+      count: 'must be between 1 and 12',
+      txamt: 'must be a positive whole amount in minor units (e.g. 100 for 1.00)',
+      expiry: 'must be a date and time like 2025-01-31 09:00:00',
+      'items[1].quantity': 'must be at least 1'
+    })
+  })
+
+  it('treats missing values, and empty strings for non-text fields, as absent', () => {
+    expect(fieldErrors({ name: '', count: '', syssn: 'S1' })).toEqual({ name: 'is required' })
+  })
+
+  it('requires one field of each anyOf group', () => {
+    expect(fieldErrors({ name: 'Plan' })).toEqual({
+      syssn: 'is required (provide one of syssn, out_trade_no)',
+      out_trade_no: 'is required (provide one of syssn, out_trade_no)'
+    })
+  })
+
+  it('requires conditional fields only when the condition holds', () => {
+    expect(fieldErrors({ name: 'Plan', syssn: 'S1', type: 'recurring' })).toEqual({ interval: 'is required when type is recurring' })
+    expect(fieldErrors({ name: 'Plan', syssn: 'S1', type: 'onetime' })).toBeNull()
+  })
+
+  it('rejects a body that is not an object', () => {
+    expect(fieldErrors(null)).toEqual({ body: 'must be an object' })
+    expect(fieldErrors([])).toEqual({ body: 'must be an object' })
+    expect(fieldErrors({ name: 'Plan', syssn: 'S1', items: 'x' })).toEqual({ items: 'must be a list' })
+  })
+})
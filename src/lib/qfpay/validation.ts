@@ -0,0 +1,204 @@
+/**
+ * Declarative validation for API request bodies and server action inputs. A schema gives
+ * each field a rule; `validateInput` checks every field and reports all problems at once,
+ * keyed by field name (`products[0].quantity` inside arrays) so forms can mark the inputs.
+ */
+
+export type FieldErrors = Record<string, string>
+
+/**
+ * Raised when input doesn't match its schema. `fields` maps each offending field to a message.
+ */
+export class ValidationError extends Error {
+  httpStatus: number
+  fields: FieldErrors
+
+  constructor(fields: FieldErrors) {
+    super(`Invalid request: ${Object.entries(fields).map(([field, message]) => `${field} ${message}`).join('; ')}`)
+    this.name = 'ValidationError'
+    this.httpStatus = 400
+    this.fields = fields
+  }
+}
+
+interface BaseRule {
+  required?: boolean
+  // Documentation only: shown in the OpenAPI document and the /tools/api page
+  description?: string
+  example?: string | number
+}
+
+export interface StringRule extends BaseRule {
+  type: 'string'
+  maxLength?: number
+  // Reject whitespace-only values even when the field is optional
+  nonEmpty?: boolean
+  pattern?: RegExp
+  // What `pattern` expects, for the error message
+  format?: string
+}
+
+export interface EnumRule extends BaseRule {
+  type: 'enum'
+  values: readonly string[]
+}
+
+// A whole number, as a number or a numeric string
+export interface IntegerRule extends BaseRule {
+  type: 'integer'
+  min?: number
+  max?: number
+}
+
+// A positive amount in minor units (e.g. 100 for HKD 1.00), as a number or a numeric string
+export interface AmountRule extends BaseRule {
+  type: 'amount'
+}
+
+// QFPay's `YYYY-MM-DD HH:mm:ss`
+export interface DateTimeRule extends BaseRule {
+  type: 'datetime'
+}
+
+export interface ArrayRule extends BaseRule {
+  type: 'array'
+  minItems?: number
+  items: Schema
+}
+
+export type FieldRule = StringRule | EnumRule | IntegerRule | AmountRule | DateTimeRule | ArrayRule
+
+export interface Schema {
+  fields: Record<string, FieldRule>
+  // Groups of fields where at least one must be present, e.g. [['syssn', 'out_trade_no']]
+  anyOf?: string[][]
+  // Fields that become required when another field has a value, e.g. `interval` for a recurring product
+  requiredWhen?: Array<{ field: string; equals: string; require: string[] }>
+}
+
+// Absent values; an empty string counts as absent for everything except text
+function isAbsent(value: unknown, rule: FieldRule) {
+  if (value === undefined || value === null) return true
+  return rule.type !== 'string' && typeof value === 'string' && value.trim() === ''
+}
+
+function isValidDateTime(value: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(value)
+  if (!match) return false
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+  // Rejects rollovers such as 2025-02-30
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60
+}
+
+function checkField(rule: FieldRule, value: unknown, path: string, errors: FieldErrors) {
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        errors[path] = 'must be text'
+        return
+      }
+      const text = String(value)
+      if (!text.trim()) {
+        if (rule.required) errors[path] = 'is required'
+        else if (rule.nonEmpty) errors[path] = 'cannot be empty'
+        return
+      }
+      if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+        errors[path] = `must be at most ${rule.maxLength} characters`
+      } else if (rule.pattern && !rule.pattern.test(text)) {
+        errors[path] = `must be ${rule.format || `in the format ${rule.pattern}`}`
+      }
+      return
+    }
+    case 'enum':
+      if (!rule.values.includes(String(value))) {
+        errors[path] = `must be one of: ${rule.values.join(', ')}`
+      }
+      return
+    case 'integer': {
+      const text = String(value).trim()
+      if ((typeof value !== 'number' && typeof value !== 'string') || !/^-?\d+$/.test(text)) {
+        errors[path] = 'must be a whole number'
+        return
+      }
+      const number = Number(text)
+      if (rule.min !== undefined && number < rule.min) {
+        errors[path] = rule.max !== undefined ? `must be between ${rule.min} and ${rule.max}` : `must be at least ${rule.min}`
+      } else if (rule.max !== undefined && number > rule.max) {
+        errors[path] = rule.min !== undefined ? `must be between ${rule.min} and ${rule.max}` : `must be at most ${rule.max}`
+      }
+      return
+    }
+    case 'amount': {
+      const text = String(value).trim()
+      if ((typeof value !== 'number' && typeof value !== 'string') || !/^\d+$/.test(text) || Number(text) <= 0 || !Number.isSafeInteger(Number(text))) {
+        errors[path] = 'must be a positive whole amount in minor units (e.g. 100 for 1.00)'
+      }
+      return
+    }
+    case 'datetime':
+      if (typeof value !== 'string' || !isValidDateTime(value.trim())) {
+        errors[path] = 'must be a date and time like 2025-01-31 09:00:00'
+      }
+      return
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors[path] = 'must be a list'
+        return
+      }
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        errors[path] = `must have at least ${rule.minItems} item${rule.minItems === 1 ? '' : 's'}`
+        return
+      }
+      value.forEach((item, index) => {
+        collectErrors(rule.items, item, `${path}[${index}].`, errors)
+      })
+      return
+  }
+}
+
+function collectErrors(schema: Schema, input: unknown, prefix: string, errors: FieldErrors) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors[prefix.replace(/\.$/, '') || 'body'] = 'must be an object'
+    return
+  }
+  const record = input as Record<string, unknown>
+
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    const value = record[field]
+    if (isAbsent(value, rule)) {
+      if (rule.required) errors[`${prefix}${field}`] = 'is required'
+      continue
+    }
+    checkField(rule, value, `${prefix}${field}`, errors)
+  }
+
+  for (const group of schema.anyOf || []) {
+    if (group.every(field => isAbsent(record[field], schema.fields[field]))) {
+      group.forEach(field => {
+        errors[`${prefix}${field}`] = `is required (provide one of ${group.join(', ')})`
+      })
+    }
+  }
+
+  for (const condition of schema.requiredWhen || []) {
+    if (String(record[condition.field] ?? '') !== condition.equals) continue
+    condition.require
+      .filter(field => isAbsent(record[field], schema.fields[field]))
+      .forEach(field => {
+        errors[`${prefix}${field}`] = `is required when ${condition.field} is ${condition.equals}`
+      })
+  }
+}
+
+/**
+ * Check `input` against `schema`; throws a ValidationError listing every invalid field
+ */
+export function validateInput(schema: Schema, input: unknown) {
+  const errors: FieldErrors = {}
+  collectErrors(schema, input, '', errors)
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors)
+  }
+}
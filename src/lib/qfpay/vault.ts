@@ -0,0 +1,399 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ResponseVerificationMode, createQFPayClient } from './client'
+import { MOCK_APPCODE, MOCK_CLIENT_KEY } from './mock/gateway'
+import { QFPaySignType } from './signature'
+import { getDataDir, readDataFile, writeDataFile } from './store'
+import { createLogger } from './logger'
+
+const log = createLogger('Vault')
+
+export type ProfileEnvironment = 'qa' | 'test' | 'live' | 'mock'
+
+export const PROFILE_ENVIRONMENTS: ProfileEnvironment[] = ['qa', 'test', 'live', 'mock']
+
+/**
+ * Merchant profile as seen by the browser: everything except the client key
+ */
+export interface MerchantProfile {
+  id: string
+  name: string
+  appcode: string
+  environment: ProfileEnvironment
+  sign_type: QFPaySignType
+  response_verification: ResponseVerificationMode
+  // Built-in profiles come from server configuration and can't be edited or deleted
+  builtin: boolean
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface MerchantProfileInput {
+  name: string
+  appcode: string
+  clientKey: string
+  environment: ProfileEnvironment
+  sign_type?: QFPaySignType
+  response_verification?: ResponseVerificationMode
+}
+
+interface StoredProfile extends Omit<MerchantProfile, 'builtin'> {
+  client_key_encrypted: string
+}
+
+interface VaultFile {
+  version: 1
+  profiles: Record<string, StoredProfile>
+}
+
+/**
+ * Raised for unknown profiles, invalid profile data or a missing vault key
+ */
+export class VaultError extends Error {
+  httpStatus: number
+
+  constructor(message: string, httpStatus = 400) {
+    super(message)
+    this.name = 'VaultError'
+    this.httpStatus = httpStatus
+  }
+}
+
+const VAULT_FILE = 'vault.json'
+const VAULT_KEY_FILE = 'vault.key'
+const CIPHER = 'aes-256-gcm'
+
+/**
+ * Where a generated development key is kept: QFPAY_VAULT_KEY_FILE, or the user's home
+ * directory. Never the data directory, so copying `.data/` doesn't copy the key with it.
+ */
+function getVaultKeyPath() {
+  return process.env.QFPAY_VAULT_KEY_FILE || path.join(os.homedir(), '.qfpay-demo', VAULT_KEY_FILE)
+}
+
+function readVaultKeyFile(keyPath: string): Buffer | null {
+  try {
+    const { key } = JSON.parse(fs.readFileSync(keyPath, 'utf8')) as { key?: string }
+    return key ? Buffer.from(key, 'hex') : null
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error('Failed to read vault key file', { file: keyPath, error })
+    }
+    return null
+  }
+}
+
+function writeVaultKeyFile(keyPath: string, key: Buffer) {
+  if (path.resolve(keyPath).startsWith(path.resolve(getDataDir()) + path.sep)) {
+    throw new VaultError('QFPAY_VAULT_KEY_FILE must be outside the data directory that holds the encrypted vault', 500)
+  }
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 })
+  fs.writeFileSync(keyPath, JSON.stringify({ key: key.toString('hex') }), { mode: 0o600 })
+  fs.chmodSync(keyPath, 0o600)
+}
+
+/**
+ * 32-byte encryption key. Comes from QFPAY_VAULT_KEY; outside production a random
+ * key is generated once and kept outside the data directory so local setups work out of the box.
+ */
+function getVaultKey(): Buffer {
+  const configured = process.env.QFPAY_VAULT_KEY
+  if (configured) {
+    return crypto.scryptSync(configured, 'qfpay-demo-vault', 32)
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new VaultError('QFPAY_VAULT_KEY must be set to use stored merchant profiles in production', 500)
+  }
+
+  const keyPath = getVaultKeyPath()
+  const stored = readVaultKeyFile(keyPath)
+  if (stored) {
+    return stored
+  }
+
+  // Earlier versions kept the key next to the vault; move it out so existing profiles still decrypt
+  const legacy = readDataFile<{ key: string }>(VAULT_KEY_FILE)
+  const key = legacy?.key ? Buffer.from(legacy.key, 'hex') : crypto.randomBytes(32)
+  writeVaultKeyFile(keyPath, key)
+  if (legacy?.key) {
+    fs.rmSync(path.join(getDataDir(), VAULT_KEY_FILE), { force: true })
+  }
+
+  log.warn(
+    `QFPAY_VAULT_KEY is not set: ${legacy?.key ? 'moved the vault key out of the data directory' : 'generated a random vault key'} to ${keyPath}. ` +
+    'Anyone with this file and the data directory can decrypt every stored client key. Set QFPAY_VAULT_KEY for anything beyond local development.'
+  )
+  return key
+}
+
+// The profile id is bound in as associated data, so a ciphertext can't be moved to another profile
+function encryptClientKey(profileId: string, clientKey: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(CIPHER, getVaultKey(), iv)
+  cipher.setAAD(Buffer.from(profileId))
+  const ciphertext = Buffer.concat([cipher.update(clientKey, 'utf8'), cipher.final()])
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+function decryptClientKey(profileId: string, encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':')
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new VaultError(`Stored client key for profile ${profileId} is malformed`, 500)
+  }
+  try {
+    const decipher = crypto.createDecipheriv(CIPHER, getVaultKey(), Buffer.from(iv, 'base64'))
+    decipher.setAAD(Buffer.from(profileId))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new VaultError(`Cannot decrypt client key for profile ${profileId}: was QFPAY_VAULT_KEY changed?`, 500)
+  }
+}
+
+function loadVault(): VaultFile {
+  const parsed = readDataFile<VaultFile>(VAULT_FILE)
+  return parsed && parsed.version === 1 && parsed.profiles ? parsed : { version: 1, profiles: {} }
+}
+
+function saveVault(vault: VaultFile) {
+  writeDataFile(VAULT_FILE, vault, 0o600)
+}
+
+/**
+ * Profiles defined by server configuration rather than stored in the vault: one
+ * from QFPAY_APPCODE/QFPAY_CLIENT_KEY, and the local mock when it is enabled
+ */
+function builtinProfiles(): Array<MerchantProfile & { clientKey: string }> {
+  const profiles: Array<MerchantProfile & { clientKey: string }> = []
+
+  if (process.env.QFPAY_APPCODE && process.env.QFPAY_CLIENT_KEY) {
+    profiles.push({
+      id: 'env',
+      name: 'Server environment (.env)',
+      appcode: process.env.QFPAY_APPCODE,
+      clientKey: process.env.QFPAY_CLIENT_KEY,
+      environment: (process.env.QFPAY_ENVIRONMENT as ProfileEnvironment) || 'qa',
+      sign_type: (process.env.QFPAY_SIGN_TYPE as QFPaySignType) || 'MD5',
+      response_verification: process.env.QFPAY_RESPONSE_VERIFICATION === 'permissive' ? 'permissive' : 'strict',
+      builtin: true,
+      created_at: null,
+      updated_at: null
+    })
+  }
+
+  if (process.env.NODE_ENV !== 'production' || process.env.QFPAY_MOCK_ENABLED === 'true') {
+    profiles.push({
+      id: 'mock',
+      name: 'Local Mock (Offline)',
+      appcode: MOCK_APPCODE,
+      clientKey: MOCK_CLIENT_KEY,
+      environment: 'mock',
+      sign_type: 'MD5',
+      response_verification: 'strict',
+      builtin: true,
+      created_at: null,
+      updated_at: null
+    })
+  }
+
+  return profiles
+}
+
+function toPublicProfile(profile: Omit<MerchantProfile, 'builtin'>, builtin = false): MerchantProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    appcode: profile.appcode,
+    environment: profile.environment,
+    sign_type: profile.sign_type,
+    // Profiles stored before response verification existed default to strict
+    response_verification: profile.response_verification || 'strict',
+    builtin,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at
+  }
+}
+
+function validateProfileFields(fields: Partial<MerchantProfileInput>) {
+  if (fields.name !== undefined && !fields.name.trim()) {
+    throw new VaultError('Profile name cannot be empty')
+  }
+  if (fields.appcode !== undefined && !fields.appcode.trim()) {
+    throw new VaultError('APPCODE cannot be empty')
+  }
+  if (fields.clientKey !== undefined && !fields.clientKey.trim()) {
+    throw new VaultError('Client key cannot be empty')
+  }
+  if (fields.environment !== undefined && !PROFILE_ENVIRONMENTS.includes(fields.environment)) {
+    throw new VaultError(`Environment must be one of: ${PROFILE_ENVIRONMENTS.join(', ')}`)
+  }
+  if (fields.sign_type !== undefined && fields.sign_type !== 'MD5' && fields.sign_type !== 'SHA256') {
+    throw new VaultError('Signature algorithm must be MD5 or SHA256')
+  }
+  if (fields.response_verification !== undefined && fields.response_verification !== 'strict' && fields.response_verification !== 'permissive') {
+    throw new VaultError('Response verification must be strict or permissive')
+  }
+}
+
+/**
+ * All merchant profiles, built-in first. Client keys are never included.
+ */
+export function listProfiles(): MerchantProfile[] {
+  const builtin = builtinProfiles().map(profile => toPublicProfile(profile, true))
+  const stored = Object.values(loadVault().profiles)
+    .map(profile => toPublicProfile(profile))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  return [...builtin, ...stored]
+}
+
+export function getProfile(profileId: string): MerchantProfile {
+  const profile = listProfiles().find(item => item.id === profileId)
+  if (!profile) {
+    throw new VaultError(`Unknown merchant profile: ${profileId}`, 404)
+  }
+  return profile
+}
+
+/**
+ * Store a new profile; the client key is encrypted before it touches disk
+ */
+export function createProfile(input: MerchantProfileInput): MerchantProfile {
+  if (!input.name || !input.appcode || !input.clientKey || !input.environment) {
+    throw new VaultError('Missing required fields: name, appcode, clientKey, environment')
+  }
+  validateProfileFields(input)
+
+  const vault = loadVault()
+  const id = `mp_${crypto.randomBytes(8).toString('hex')}`
+  const now = new Date().toISOString()
+  const profile: StoredProfile = {
+    id,
+    name: input.name.trim(),
+    appcode: input.appcode.trim(),
+    environment: input.environment,
+    sign_type: input.sign_type || 'MD5',
+    response_verification: input.response_verification || 'strict',
+    client_key_encrypted: encryptClientKey(id, input.clientKey.trim()),
+    created_at: now,
+    updated_at: now
+  }
+
+  vault.profiles[id] = profile
+  saveVault(vault)
+  log.info('Merchant profile created', { profile_id: id, appcode: profile.appcode, environment: profile.environment })
+  return toPublicProfile(profile)
+}
+
+/**
+ * Change profile fields. The client key is only replaced when a new one is given.
+ */
+export function updateProfile(profileId: string, changes: Partial<MerchantProfileInput>): MerchantProfile {
+  validateProfileFields(changes)
+
+  const vault = loadVault()
+  const profile = vault.profiles[profileId]
+  if (!profile) {
+    const builtin = builtinProfiles().some(item => item.id === profileId)
+    throw new VaultError(
+      builtin ? `Built-in profile ${profileId} is defined by server configuration and cannot be edited` : `Unknown merchant profile: ${profileId}`,
+      builtin ? 403 : 404
+    )
+  }
+
+  if (changes.name !== undefined) profile.name = changes.name.trim()
+  if (changes.appcode !== undefined) profile.appcode = changes.appcode.trim()
+  if (changes.environment !== undefined) profile.environment = changes.environment
+  if (changes.sign_type !== undefined) profile.sign_type = changes.sign_type
+  if (changes.response_verification !== undefined) profile.response_verification = changes.response_verification
+  if (changes.clientKey !== undefined) profile.client_key_encrypted = encryptClientKey(profileId, changes.clientKey.trim())
+  profile.updated_at = new Date().toISOString()
+
+  saveVault(vault)
+  log.info('Merchant profile updated', { profileId })
+  return toPublicProfile(profile)
+}
+
+export function deleteProfile(profileId: string) {
+  const vault = loadVault()
+  if (!vault.profiles[profileId]) {
+    const builtin = builtinProfiles().some(item => item.id === profileId)
+    throw new VaultError(
+      builtin ? `Built-in profile ${profileId} cannot be deleted` : `Unknown merchant profile: ${profileId}`,
+      builtin ? 403 : 404
+    )
+  }
+
+  delete vault.profiles[profileId]
+  saveVault(vault)
+  log.info('Merchant profile deleted', { profileId })
+}
+
+/**
+ * Profile including its decrypted client key. Server-side only: never return this to the browser.
+ */
+export function resolveProfileCredentials(profileId: string): MerchantProfile & { clientKey: string } {
+  if (!profileId) {
+    throw new VaultError('A merchant profile id is required')
+  }
+
+  const builtin = builtinProfiles().find(item => item.id === profileId)
+  if (builtin) {
+    return builtin
+  }
+
+  const stored = loadVault().profiles[profileId]
+  if (!stored) {
+    throw new VaultError(`Unknown merchant profile: ${profileId}`, 404)
+  }
+  return { ...toPublicProfile(stored), clientKey: decryptClientKey(profileId, stored.client_key_encrypted) }
+}
+
+/**
+ * Profiles (with decrypted keys) that may have signed an incoming notification: every
+ * profile with the APPCODE QFPay sent, or the built-in `.env` profile when it sent none.
+ * Server-side only. Empty when no key is available, so nothing is verified against ''.
+ */
+export function resolveNotificationCredentials(appcode: string | null): Array<MerchantProfile & { clientKey: string }> {
+  if (!appcode) {
+    return builtinProfiles().filter(profile => profile.id === 'env' && profile.clientKey)
+  }
+
+  const builtin = builtinProfiles().filter(profile => profile.appcode === appcode)
+  const stored = Object.values(loadVault().profiles)
+    .filter(profile => profile.appcode === appcode)
+    .flatMap(profile => {
+      try {
+        return [{ ...toPublicProfile(profile), clientKey: decryptClientKey(profile.id, profile.client_key_encrypted) }]
+      } catch (error) {
+        log.error('Skipping profile for notification verification', { profile_id: profile.id, error })
+        return []
+      }
+    })
+  return [...builtin, ...stored].filter(profile => profile.clientKey)
+}
+
+/**
+ * Whether any profile has a key that notifications could be verified with
+ */
+export function hasNotificationCredentials() {
+  return builtinProfiles().some(profile => profile.clientKey) || Object.keys(loadVault().profiles).length > 0
+}
+
+/**
+ * QFPay client signed with a profile's credentials, plus the profile itself (without key)
+ */
+export function createProfileClient(profileId: string) {
+  const credentials = resolveProfileCredentials(profileId)
+  const profile = toPublicProfile(credentials, credentials.builtin)
+  const client = createQFPayClient({
+    appcode: profile.appcode,
+    clientKey: credentials.clientKey,
+    environment: profile.environment,
+    signType: profile.sign_type,
+    responseVerification: profile.response_verification
+  })
+  return { client, profile }
+}